@@ -0,0 +1,16 @@
+CREATE TABLE public.friends
+(
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  friend_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  /* 0 = pending request, 1 = accepted, 2 = blocked */
+  status smallint NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, friend_id),
+  CHECK (user_id <> friend_id)
+);
+
+GRANT ALL ON TABLE public.friends TO cso2_user;
+
+CREATE INDEX friends_friendid_idx
+  ON public.friends
+  USING btree
+  (friend_id);
@@ -0,0 +1,20 @@
+CREATE TABLE public.mails
+(
+  id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  owner_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  sender_id integer REFERENCES users(id) ON DELETE SET NULL,
+  sender_name text NOT NULL,
+  message text NOT NULL,
+  /* optional item attachment, 0 if there is none */
+  item_id integer DEFAULT 0,
+  item_ammount integer DEFAULT 0,
+  is_read boolean DEFAULT FALSE,
+  sent_at timestamptz DEFAULT now()
+);
+
+GRANT ALL ON TABLE public.mails TO cso2_user;
+
+CREATE INDEX mails_ownerid_idx
+  ON public.mails
+  USING btree
+  (owner_id);
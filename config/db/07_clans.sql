@@ -0,0 +1,36 @@
+CREATE TABLE public.clans
+(
+  id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  name text NOT NULL UNIQUE,
+  /* the clan's mark shown next to its members' names (0-10) */
+  mark integer NOT NULL DEFAULT 0 CHECK (mark >= 0 AND mark <= 10),
+  created_at timestamptz DEFAULT now()
+);
+
+GRANT ALL ON TABLE public.clans TO cso2_user;
+
+CREATE TABLE public.clan_members
+(
+  /* an user can only be in a single clan */
+  user_id integer PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  clan_id integer NOT NULL REFERENCES clans(id) ON DELETE CASCADE,
+  /* 0 = member, 1 = officer, 2 = master */
+  role smallint NOT NULL DEFAULT 0,
+  joined_at timestamptz DEFAULT now()
+);
+
+GRANT ALL ON TABLE public.clan_members TO cso2_user;
+
+CREATE INDEX clan_members_clanid_idx
+  ON public.clan_members
+  USING btree
+  (clan_id);
+
+CREATE TABLE public.clan_invites
+(
+  clan_id integer NOT NULL REFERENCES clans(id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  PRIMARY KEY (clan_id, user_id)
+);
+
+GRANT ALL ON TABLE public.clan_invites TO cso2_user;
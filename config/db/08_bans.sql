@@ -0,0 +1,25 @@
+CREATE TABLE public.bans
+(
+  id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  /* an account ban, an IP address ban or both */
+  user_id integer REFERENCES users(id) ON DELETE CASCADE,
+  ip_address text,
+  reason text NOT NULL DEFAULT '',
+  issuer_id integer REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  /* permanent if null */
+  expires_at timestamptz,
+  CHECK (user_id IS NOT NULL OR ip_address IS NOT NULL)
+);
+
+GRANT ALL ON TABLE public.bans TO cso2_user;
+
+CREATE INDEX bans_userid_idx
+  ON public.bans
+  USING btree
+  (user_id);
+
+CREATE INDEX bans_ipaddress_idx
+  ON public.bans
+  USING btree
+  (ip_address);
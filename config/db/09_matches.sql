@@ -0,0 +1,34 @@
+CREATE TABLE public.matches
+(
+  id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  room_name text NOT NULL DEFAULT '',
+  gamemode integer NOT NULL,
+  map integer NOT NULL,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz NOT NULL DEFAULT now(),
+  ct_score integer NOT NULL DEFAULT 0,
+  ter_score integer NOT NULL DEFAULT 0,
+  /* 0 if it's a draw, 1 if the terrorists won and 2 if the counter-terrorists won */
+  winner_team integer NOT NULL DEFAULT 0
+);
+
+GRANT ALL ON TABLE public.matches TO cso2_user;
+
+CREATE TABLE public.match_players
+(
+  match_id integer NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  team integer NOT NULL,
+  kills integer NOT NULL DEFAULT 0,
+  deaths integer NOT NULL DEFAULT 0,
+  assists integer NOT NULL DEFAULT 0,
+  headshots integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (match_id, user_id)
+);
+
+GRANT ALL ON TABLE public.match_players TO cso2_user;
+
+CREATE INDEX match_players_userid_idx
+  ON public.match_players
+  USING btree
+  (user_id);
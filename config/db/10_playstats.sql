@@ -0,0 +1,25 @@
+CREATE TABLE public.user_gamemode_stats
+(
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  gamemode integer NOT NULL,
+  seconds_played integer NOT NULL DEFAULT 0,
+  played_matches integer NOT NULL DEFAULT 0,
+  wins integer NOT NULL DEFAULT 0,
+  kills integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, gamemode)
+);
+
+GRANT ALL ON TABLE public.user_gamemode_stats TO cso2_user;
+
+CREATE TABLE public.user_map_stats
+(
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  map integer NOT NULL,
+  seconds_played integer NOT NULL DEFAULT 0,
+  played_matches integer NOT NULL DEFAULT 0,
+  wins integer NOT NULL DEFAULT 0,
+  kills integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, map)
+);
+
+GRANT ALL ON TABLE public.user_map_stats TO cso2_user;
@@ -0,0 +1,9 @@
+CREATE TABLE public.user_weapon_kills
+(
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  weapon_id integer NOT NULL,
+  kills integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, weapon_id)
+);
+
+GRANT ALL ON TABLE public.user_weapon_kills TO cso2_user;
@@ -0,0 +1,9 @@
+CREATE TABLE public.user_achievements
+(
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  achievement_id integer NOT NULL,
+  progress integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+GRANT ALL ON TABLE public.user_achievements TO cso2_user;
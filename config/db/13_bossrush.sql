@@ -0,0 +1,14 @@
+CREATE TABLE public.user_boss_rush
+(
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  gamemode integer NOT NULL,
+  played_matches integer NOT NULL DEFAULT 0,
+  best_wave integer NOT NULL DEFAULT 0,
+  /* in seconds, 0 if the stage was never cleared */
+  best_clear_time integer NOT NULL DEFAULT 0,
+  clears integer NOT NULL DEFAULT 0,
+  bosses_defeated integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, gamemode)
+);
+
+GRANT ALL ON TABLE public.user_boss_rush TO cso2_user;
@@ -0,0 +1,11 @@
+CREATE TABLE public.online_sessions
+(
+  /* an user can only be logged in once */
+  user_id integer PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  /* the ID of the master server's connection */
+  session_id text NOT NULL,
+  ip_address text,
+  started_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT ALL ON TABLE public.online_sessions TO cso2_user;
@@ -0,0 +1,15 @@
+CREATE TABLE public.mutes
+(
+  id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  issuer_id integer REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+GRANT ALL ON TABLE public.mutes TO cso2_user;
+
+CREATE INDEX mutes_userid_idx
+  ON public.mutes
+  USING btree
+  (user_id);
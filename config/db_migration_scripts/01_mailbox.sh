@@ -0,0 +1,4 @@
+SCRIPTPATH="$( cd "$(dirname "$0")" >/dev/null 2>&1 ; pwd -P )"
+
+psql cso2 cso2_user -c "ALTER TABLE users ADD COLUMN unreaded_message integer DEFAULT 0;"
+psql cso2 cso2_user < $SCRIPTPATH/../db/06_mails.sql
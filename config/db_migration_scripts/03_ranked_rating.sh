@@ -0,0 +1 @@
+psql cso2 cso2_user -c "ALTER TABLE users ADD COLUMN ranked_rating integer DEFAULT 1000;"
@@ -0,0 +1,3 @@
+SCRIPTPATH="$( cd "$(dirname "$0")" >/dev/null 2>&1 ; pwd -P )"
+
+psql cso2 cso2_user < $SCRIPTPATH/../db/09_matches.sql
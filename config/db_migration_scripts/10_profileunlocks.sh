@@ -0,0 +1,8 @@
+# titles and avatars are now unlocked by the master server's rules,
+# so users start with none and the rules unlock them on login
+psql cso2 cso2_user -c "ALTER TABLE users ALTER COLUMN unlocked_avatars SET DEFAULT array_fill(0, ARRAY[128]);"
+psql cso2 cso2_user -c "ALTER TABLE users ALTER COLUMN unlocked_titles SET DEFAULT array_fill(0, ARRAY[128]);"
+# the existing users still have the old defaults with everything unlocked,
+# their earned titles and avatars are given back by the rules on their next login
+psql cso2 cso2_user -c "UPDATE users SET unlocked_avatars = array_fill(0, ARRAY[128]) WHERE unlocked_avatars = array_fill(255, ARRAY[128]);"
+psql cso2 cso2_user -c "UPDATE users SET unlocked_titles = array_fill(0, ARRAY[128]) WHERE unlocked_titles = array_fill(255, ARRAY[128]);"
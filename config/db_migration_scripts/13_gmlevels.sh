@@ -0,0 +1,4 @@
+# the GM commands are now limited by the user's GM level,
+# the existing GMs keep every command
+psql cso2 cso2_user -c "ALTER TABLE users ADD COLUMN gm_level integer DEFAULT 0;"
+psql cso2 cso2_user -c "UPDATE users SET gm_level = 2 WHERE gm = TRUE;"
@@ -10,6 +10,17 @@ psql cso2 cso2_user < $SCRIPTPATH/db/01_inventories.sql
 psql cso2 cso2_user < $SCRIPTPATH/db/02_buymenues.sql
 psql cso2 cso2_user < $SCRIPTPATH/db/03_cosmetics.sql
 psql cso2 cso2_user < $SCRIPTPATH/db/04_loadouts.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/05_friends.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/06_mails.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/07_clans.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/08_bans.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/09_matches.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/10_playstats.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/11_weaponkills.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/12_achievements.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/13_bossrush.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/14_onlinesessions.sql
+psql cso2 cso2_user < $SCRIPTPATH/db/15_mutes.sql
 
 # get inventoryitem oid
 new_oid=$(psql cso2 postgres -c "SELECT oid FROM pg_type WHERE typname = 'inventoryitem';" | sed -n 3p | tr -d ' ')
@@ -0,0 +1,183 @@
+import { Channel } from 'channel/channel'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { SkillRating } from 'automatch/skillrating'
+
+import { UserSession } from 'user/usersession'
+
+export const AUTOMATCH_TEAM_SIZE = 4
+export const AUTOMATCH_PLAYERS_PER_MATCH = AUTOMATCH_TEAM_SIZE * 2
+
+// the highest rating difference allowed between the players of a match
+// it grows while the players wait, so nobody is stuck in the queue forever
+const RATING_WINDOW_BASE = 100
+const RATING_WINDOW_GROWTH_PER_SECOND = 5
+const RATING_WINDOW_MAX = 1000
+
+interface IAutomatchEntry {
+    conn: ExtendedSocket
+    queuedAt: number
+}
+
+/**
+ * the users of a channel waiting for a ranked match
+ * @class AutomatchQueue
+ */
+export class AutomatchQueue {
+    /**
+     * remove an user from its channel's ranked queue
+     * if the user isn't queued then it won't do anything
+     * @param conn the target user's connection
+     * @returns true if successful, false if not queued
+     */
+    public static cleanUpUser(conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+
+        if (session == null) {
+            return false
+        }
+
+        const channel: Channel = session.currentChannel
+
+        if (channel == null) {
+            return false
+        }
+
+        return channel.automatchQueue.remove(conn)
+    }
+
+    /**
+     * how far apart the ratings of a match's players can be for a queued user
+     * @param entry the queued user's entry
+     * @param now the current time in milliseconds
+     */
+    private static getRatingWindow(
+        entry: IAutomatchEntry,
+        now: number
+    ): number {
+        const secondsWaited: number = (now - entry.queuedAt) / 1000
+        return Math.min(
+            RATING_WINDOW_BASE +
+                secondsWaited * RATING_WINDOW_GROWTH_PER_SECOND,
+            RATING_WINDOW_MAX
+        )
+    }
+
+    private static getEntryRating(entry: IAutomatchEntry): number {
+        return SkillRating.getRating(entry.conn.session.user)
+    }
+
+    private entries: IAutomatchEntry[]
+
+    constructor() {
+        this.entries = []
+    }
+
+    public getSize(): number {
+        return this.entries.length
+    }
+
+    public has(conn: ExtendedSocket): boolean {
+        return this.entries.some((e: IAutomatchEntry) => e.conn === conn)
+    }
+
+    /**
+     * put an user in the queue
+     * @param conn the user's connection
+     * @param now the current time in milliseconds
+     */
+    public add(conn: ExtendedSocket, now: number): void {
+        this.entries.push({ conn, queuedAt: now })
+    }
+
+    /**
+     * take an user out of the queue
+     * @param conn the user's connection
+     * @returns true if removed, false if it wasn't queued
+     */
+    public remove(conn: ExtendedSocket): boolean {
+        const oldSize: number = this.entries.length
+        this.entries = this.entries.filter(
+            (e: IAutomatchEntry) => e.conn !== conn
+        )
+        return this.entries.length !== oldSize
+    }
+
+    /**
+     * take out the users that can't play a ranked match anymore,
+     * such as the ones that joined a room or a party while waiting,
+     * moved to another channel or lost their connection
+     * @param channel the channel owning the queue
+     * @returns the removed users' connections
+     */
+    public removeUnavailable(channel: Channel): ExtendedSocket[] {
+        const unavailable: ExtendedSocket[] = []
+
+        this.entries = this.entries.filter((e: IAutomatchEntry) => {
+            const session: UserSession = e.conn.session
+
+            if (
+                e.conn.destroyed === false &&
+                session != null &&
+                session.currentChannel === channel &&
+                session.currentRoom == null &&
+                session.currentParty == null
+            ) {
+                return true
+            }
+
+            unavailable.push(e.conn)
+            return false
+        })
+
+        return unavailable
+    }
+
+    /**
+     * take out groups of users with similar ratings from the queue
+     * @param now the current time in milliseconds
+     * @returns the groups of users that should play a match together
+     */
+    public takeMatches(now: number): ExtendedSocket[][] {
+        const sorted: IAutomatchEntry[] = this.entries.slice()
+        sorted.sort(
+            (a: IAutomatchEntry, b: IAutomatchEntry) =>
+                AutomatchQueue.getEntryRating(a) -
+                AutomatchQueue.getEntryRating(b)
+        )
+
+        const matches: ExtendedSocket[][] = []
+        let i = 0
+
+        while (i + AUTOMATCH_PLAYERS_PER_MATCH <= sorted.length) {
+            const group: IAutomatchEntry[] = sorted.slice(
+                i,
+                i + AUTOMATCH_PLAYERS_PER_MATCH
+            )
+
+            const ratingSpread: number =
+                AutomatchQueue.getEntryRating(group[group.length - 1]) -
+                AutomatchQueue.getEntryRating(group[0])
+            const allowedSpread: number = Math.min(
+                ...group.map((e: IAutomatchEntry) =>
+                    AutomatchQueue.getRatingWindow(e, now)
+                )
+            )
+
+            if (ratingSpread > allowedSpread) {
+                i++
+                continue
+            }
+
+            for (const entry of group) {
+                this.entries.splice(this.entries.indexOf(entry), 1)
+            }
+
+            matches.push(group.map((e: IAutomatchEntry) => e.conn))
+            i += AUTOMATCH_PLAYERS_PER_MATCH
+        }
+
+        return matches
+    }
+}
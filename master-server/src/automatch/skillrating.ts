@@ -0,0 +1,82 @@
+import { User } from 'user/user'
+
+// the rating given to users that haven't played a ranked match yet
+export const DEFAULT_RANKED_RATING = 1000
+
+// how many rating points a single match can give or take at most
+const RATING_MAX_CHANGE = 32
+
+// match scores used to calculate the rating changes
+export const RANKED_SCORE_WIN = 1
+export const RANKED_SCORE_DRAW = 0.5
+export const RANKED_SCORE_LOSS = 0
+
+/**
+ * elo based skill rating used by ranked matches
+ * teams are rated by the average rating of their players
+ */
+export class SkillRating {
+    /**
+     * get an user's ranked rating
+     * @param user the target user
+     * @returns the user's rating
+     */
+    public static getRating(user: User): number {
+        if (user.ranked_rating == null) {
+            return DEFAULT_RANKED_RATING
+        }
+
+        return user.ranked_rating
+    }
+
+    /**
+     * get the average rating of a group of users
+     * @param users the users to rate
+     * @returns the average rating, or DEFAULT_RANKED_RATING if there are no users
+     */
+    public static getAverageRating(users: User[]): number {
+        if (users.length === 0) {
+            return DEFAULT_RANKED_RATING
+        }
+
+        let total = 0
+
+        for (const user of users) {
+            total += SkillRating.getRating(user)
+        }
+
+        return total / users.length
+    }
+
+    /**
+     * the chance of a team beating another
+     * @param teamRating the team's rating
+     * @param enemyRating the enemy team's rating
+     * @returns a value between 0 and 1
+     */
+    public static getExpectedScore(
+        teamRating: number,
+        enemyRating: number
+    ): number {
+        return 1 / (1 + Math.pow(10, (enemyRating - teamRating) / 400))
+    }
+
+    /**
+     * calculate how much a team's players' ratings change after a match
+     * @param teamRating the team's rating
+     * @param enemyRating the enemy team's rating
+     * @param score RANKED_SCORE_WIN, RANKED_SCORE_DRAW or RANKED_SCORE_LOSS
+     * @returns the rating points to add to each player
+     */
+    public static getRatingChange(
+        teamRating: number,
+        enemyRating: number,
+        score: number
+    ): number {
+        const expected: number = SkillRating.getExpectedScore(
+            teamRating,
+            enemyRating
+        )
+        return Math.round(RATING_MAX_CHANGE * (score - expected))
+    }
+}
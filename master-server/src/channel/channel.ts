@@ -1,7 +1,16 @@
 import { IRoomOptions, Room } from 'room/room'
 
+import { AutomatchQueue } from 'automatch/automatchqueue'
+import { IChannelSettings } from 'channel/channelconfig'
+
 import { ExtendedSocket } from 'extendedsocket'
 
+import { ChannelStatuses, ChannelTypes } from 'gametypes/shareddefs'
+import { User } from 'user/user'
+
+// a channel is shown as busy once it's this full
+const CHANNEL_BUSY_RATIO = 0.8
+
 /**
  * stores and processes channel data
  * @class Channel
@@ -21,22 +30,89 @@ export class Channel {
 
     public index: number
     public name: string
+    public type: ChannelTypes
+    public capacity: number
+    public maxLevel: number
+    public maxKadRatio: number
 
     public rooms: Room[]
+    public automatchQueue: AutomatchQueue
     private nextRoomId: number
 
     private userConns: ExtendedSocket[]
 
-    constructor(index: number, name: string) {
+    constructor(index: number, name: string, settings: IChannelSettings) {
         this.index = index
-        this.name = name
+        this.updateSettings(name, settings)
 
         this.rooms = []
         this.nextRoomId = 1
 
+        this.automatchQueue = new AutomatchQueue()
+
         this.userConns = []
     }
 
+    /**
+     * set the channel's name and join limits
+     * @param name the channel's name
+     * @param settings the channel's settings
+     */
+    public updateSettings(name: string, settings: IChannelSettings): void {
+        this.name = name
+        this.type = settings.type
+        this.capacity = settings.capacity
+        this.maxLevel = settings.maxLevel
+        this.maxKadRatio = settings.maxKadRatio
+    }
+
+    public getUserCount(): number {
+        return this.userConns.length
+    }
+
+    public hasUser(conn: ExtendedSocket): boolean {
+        return this.userConns.includes(conn)
+    }
+
+    public getStatus(): ChannelStatuses {
+        return this.userConns.length >= this.capacity * CHANNEL_BUSY_RATIO
+            ? ChannelStatuses.Busy
+            : ChannelStatuses.Normal
+    }
+
+    /**
+     * checks if an user is allowed in the channel
+     * @param user the user wanting to join
+     * @returns why the user can't join, or null if it can
+     */
+    public getJoinDeniedReason(user: User): string {
+        if (this.userConns.length >= this.capacity) {
+            return 'The channel is full.'
+        }
+
+        if (this.maxLevel !== 0 && user.level > this.maxLevel) {
+            return `Only players up to level ${this.maxLevel} can join this channel.`
+        }
+
+        if (this.maxKadRatio !== 0) {
+            const kadRatio: number =
+                (user.kills + user.assists) / Math.max(user.deaths, 1)
+
+            if (kadRatio > this.maxKadRatio) {
+                return `Only players with a KAD ratio up to ${this.maxKadRatio} can join this channel.`
+            }
+        }
+
+        if (
+            this.type === ChannelTypes.Clan &&
+            (user.clan_name == null || user.clan_name === '')
+        ) {
+            return 'Only clan members can join this channel.'
+        }
+
+        return null
+    }
+
     /**
      * get an existing room by its id
      * @param id the desired room's id
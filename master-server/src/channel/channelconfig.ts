@@ -0,0 +1,147 @@
+import { ChannelTypes } from 'gametypes/shareddefs'
+
+const DEFAULT_CHANNEL_CAPACITY = 200
+// the level cap of novice channels, if the config doesn't set one
+const DEFAULT_NOVICE_MAX_LEVEL = 10
+// the kill and assist per death ratio cap of low KAD novice channels
+const DEFAULT_LOW_KAD_MAX_RATIO = 1.0
+
+/**
+ * a channel as written in the config file
+ */
+interface IChannelFileEntry {
+    name?: string
+    type?: string
+    capacity?: number
+    maxLevel?: number
+    maxKadRatio?: number
+}
+
+/**
+ * a channel server as written in the config file
+ */
+interface IChannelServerFileEntry {
+    name: string
+    channels: IChannelFileEntry[]
+}
+
+/**
+ * a channel's settings, with the defaults of its type already applied
+ */
+export interface IChannelSettings {
+    // null to use a name based on the channel server's name
+    name: string
+    type: ChannelTypes
+    capacity: number
+    // 0 if there's no level cap
+    maxLevel: number
+    // 0 if there's no kill and assist per death ratio cap
+    maxKadRatio: number
+}
+
+export interface IChannelServerSettings {
+    name: string
+    channels: IChannelSettings[]
+}
+
+/**
+ * reads the channel servers and their channels from a JSON config file
+ * @class ChannelConfig
+ */
+export class ChannelConfig {
+    /**
+     * validate a channels config file's data
+     * @param fileData the config file's data
+     * @returns the channel servers' settings
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): IChannelServerSettings[] {
+        const data = fileData as {
+            servers: IChannelServerFileEntry[]
+        }
+
+        if (
+            data == null ||
+            Array.isArray(data.servers) === false ||
+            data.servers.length === 0
+        ) {
+            throw new Error('the config must have at least one server')
+        }
+
+        return data.servers.map((server: IChannelServerFileEntry) =>
+            ChannelConfig.parseServer(server)
+        )
+    }
+
+    private static parseServer(
+        server: IChannelServerFileEntry
+    ): IChannelServerSettings {
+        if (typeof server.name !== 'string' || server.name.length === 0) {
+            throw new Error('every channel server must have a name')
+        }
+
+        if (
+            Array.isArray(server.channels) === false ||
+            server.channels.length === 0
+        ) {
+            throw new Error(
+                `channel server "${server.name}" must have at least one channel`
+            )
+        }
+
+        return {
+            name: server.name,
+            channels: server.channels.map((channel: IChannelFileEntry) =>
+                ChannelConfig.parseChannel(channel, server.name)
+            )
+        }
+    }
+
+    private static parseChannel(
+        channel: IChannelFileEntry,
+        serverName: string
+    ): IChannelSettings {
+        const typeName: string = channel.type != null ? channel.type : 'Free'
+        const type = ChannelTypes[typeName as keyof typeof ChannelTypes]
+
+        if (type == null) {
+            throw new Error(
+                `channel server "${serverName}" has a channel with the unknown type "${typeName}"`
+            )
+        }
+
+        const capacity: number =
+            channel.capacity != null
+                ? channel.capacity
+                : DEFAULT_CHANNEL_CAPACITY
+
+        if (typeof capacity !== 'number' || capacity <= 0) {
+            throw new Error(
+                `channel server "${serverName}" has a channel with an invalid capacity`
+            )
+        }
+
+        let maxLevel = 0
+        let maxKadRatio = 0
+
+        if (
+            type === ChannelTypes.Novice ||
+            type === ChannelTypes.NoviceLowKAD
+        ) {
+            maxLevel = DEFAULT_NOVICE_MAX_LEVEL
+        }
+
+        if (type === ChannelTypes.NoviceLowKAD) {
+            maxKadRatio = DEFAULT_LOW_KAD_MAX_RATIO
+        }
+
+        return {
+            name: channel.name != null ? channel.name : null,
+            type,
+            capacity,
+            maxLevel: channel.maxLevel != null ? channel.maxLevel : maxLevel,
+            maxKadRatio:
+                channel.maxKadRatio != null ? channel.maxKadRatio : maxKadRatio
+        }
+    }
+}
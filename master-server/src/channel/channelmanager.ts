@@ -1,25 +1,44 @@
 import { Channel } from 'channel/channel'
+import { ChannelConfig, IChannelServerSettings } from 'channel/channelconfig'
 import { ChannelServer } from 'channel/channelserver'
 
+import { AutomatchQueue } from 'automatch/automatchqueue'
+
+import { ConfigFile } from 'config/configfile'
+
 import { ExtendedSocket } from 'extendedsocket'
 
+import { ChatMessageType } from 'packets/definitions'
 import { InRequestRoomListPacket } from 'packets/in/requestroomlist'
+import { OutChatPacket } from 'packets/out/chat'
 import { OutLobbyPacket } from 'packets/out/lobby'
 import { OutRoomListPacket } from 'packets/out/roomlist'
 import { OutServerListPacket } from 'packets/out/serverlist'
 
 import { UserSession } from 'user/usersession'
 
+import { AutomatchHandler } from 'handlers/automatchhandler'
+import { QuickStartHandler } from 'handlers/quickstarthandler'
 import { RoomHandler } from 'handlers/roomhandler'
 
 // TODO: move to ChannelManager once it's not static
 const roomHandler: RoomHandler = new RoomHandler()
+const quickStartHandler: QuickStartHandler = new QuickStartHandler(roomHandler)
+const automatchHandler: AutomatchHandler = new AutomatchHandler(roomHandler)
 
 /**
  * stores the channel servers and processes their data
  * @class ChannelManager
  */
 export class ChannelManager {
+    // users stay in their channels and rooms when it's reloaded
+    public static readonly config = new ConfigFile<IChannelServerSettings[]>({
+        name: 'channel servers',
+        parse: (fileData: unknown) => ChannelConfig.parse(fileData),
+        onLoad: (settings: IChannelServerSettings[]) =>
+            ChannelManager.applyConfig(settings)
+    })
+
     /**
      * called when the user sends a RequestChannels packet
      * @param sourceConn the user's socket
@@ -85,6 +104,25 @@ export class ChannelManager {
             return false
         }
 
+        if (channel.hasUser(sourceConn) === false) {
+            const deniedReason: string = channel.getJoinDeniedReason(
+                session.user
+            )
+
+            if (deniedReason != null) {
+                sourceConn.send(
+                    OutChatPacket.systemMessage(
+                        deniedReason,
+                        ChatMessageType.DialogBox
+                    )
+                )
+                console.warn(
+                    `user ${session.user.id} can't join channel "${channel.name}": ${deniedReason}`
+                )
+                return false
+            }
+        }
+
         console.log(
             `user ${session.user.id} requested room list successfully, sending it...`
         )
@@ -100,6 +138,20 @@ export class ChannelManager {
         return roomHandler.onRoomRequest(reqData, sourceConn)
     }
 
+    public static onQuickStartPacket(
+        reqData: Buffer,
+        sourceConn: ExtendedSocket
+    ): boolean {
+        return quickStartHandler.OnPacket(reqData, sourceConn)
+    }
+
+    public static onAutomatchPacket(
+        reqData: Buffer,
+        sourceConn: ExtendedSocket
+    ): boolean {
+        return automatchHandler.OnPacket(reqData, sourceConn)
+    }
+
     /**
      * send the channel servers list data for an user's connection
      * @param conn the target user's connection
@@ -126,9 +178,36 @@ export class ChannelManager {
         conn.send(OutRoomListPacket.getFullList(channel.rooms))
     }
 
-    private static channelServers: ChannelServer[] = [
-        new ChannelServer('Test server', 1, 1, 1)
-    ]
+    private static channelServers: ChannelServer[] = []
+
+    /**
+     * replace the channel servers, reusing the ones that already exist
+     * @param config the new channel servers' settings
+     */
+    private static applyConfig(config: IChannelServerSettings[]): void {
+        this.channelServers = config.map(
+            (settings: IChannelServerSettings, arrayIndex: number) => {
+                const serverIndex: number = arrayIndex + 1
+                const server: ChannelServer = this.getServerByIndex(serverIndex)
+
+                if (server == null) {
+                    return new ChannelServer(
+                        settings.name,
+                        serverIndex,
+                        config.length,
+                        settings.channels
+                    )
+                }
+
+                server.updateSettings(
+                    settings.name,
+                    config.length,
+                    settings.channels
+                )
+                return server
+            }
+        )
+    }
 
     /**
      * sets an user's current channel
@@ -142,7 +221,8 @@ export class ChannelManager {
         const session: UserSession = conn.session
 
         if (session.currentChannel != null) {
-            channel.OnUserLeft(conn)
+            AutomatchQueue.cleanUpUser(conn)
+            session.currentChannel.OnUserLeft(conn)
         }
 
         session.currentChannel = channel
@@ -1,4 +1,5 @@
 import { Channel } from 'channel/channel'
+import { IChannelSettings } from 'channel/channelconfig'
 
 /**
  * Represents a channel "server"
@@ -6,8 +7,6 @@ import { Channel } from 'channel/channel'
  * @class ChannelServer
  */
 export class ChannelServer {
-    private static nextChannelId = 1
-
     private static formatServerName(
         serverName: string,
         serverIndex: number,
@@ -32,28 +31,56 @@ export class ChannelServer {
         serverName: string,
         serverIndex: number,
         totalServers: number,
-        numOfChannels: number
+        channelsSettings: IChannelSettings[]
     ) {
+        this.index = serverIndex
+        this.channels = []
+
+        this.updateSettings(serverName, totalServers, channelsSettings)
+    }
+
+    /**
+     * set the server's name and channels
+     * existing channels keep their users and rooms,
+     * channels left out of the settings are removed from the list only,
+     * so their users aren't disconnected
+     * @param serverName the server's name
+     * @param totalServers the number of channel servers
+     * @param channelsSettings the settings of each channel
+     */
+    public updateSettings(
+        serverName: string,
+        totalServers: number,
+        channelsSettings: IChannelSettings[]
+    ): void {
         this.name = ChannelServer.formatServerName(
             serverName,
-            serverIndex,
+            this.index,
             totalServers
         )
-        this.index = serverIndex
-        this.channels = []
 
-        for (let index = 0; index < numOfChannels; index++) {
-            const newChannelIndex: number = ChannelServer.nextChannelId
-            const newChannelName: string = ChannelServer.formatChannelName(
-                serverName,
-                serverIndex,
-                newChannelIndex
-            )
+        this.channels = channelsSettings.map(
+            (settings: IChannelSettings, arrayIndex: number) => {
+                const channelIndex: number = arrayIndex + 1
+                const channelName: string =
+                    settings.name != null
+                        ? settings.name
+                        : ChannelServer.formatChannelName(
+                              serverName,
+                              this.index,
+                              channelIndex
+                          )
 
-            this.channels.push(new Channel(newChannelIndex, newChannelName))
+                const channel: Channel = this.getChannelByIndex(channelIndex)
 
-            ChannelServer.nextChannelId++
-        }
+                if (channel == null) {
+                    return new Channel(channelIndex, channelName, settings)
+                }
+
+                channel.updateSettings(channelName, settings)
+                return channel
+            }
+        )
     }
 
     /**
@@ -0,0 +1,97 @@
+import fs from 'fs'
+
+/**
+ * how a config file is read
+ */
+export interface IConfigFileOptions<T> {
+    // what the file holds, used in the logs
+    name: string
+    // validates the file's data and builds its settings
+    // throws an Error if the data is invalid
+    parse: (fileData: unknown) => T
+    // the settings used until the file is loaded
+    defaults?: T
+    // called with the new settings each time the file is loaded
+    onLoad?: (settings: T) => void
+}
+
+/**
+ * a config file, whatever its settings are
+ */
+export interface IConfigFile {
+    readonly name: string
+    load(configPath: string): void
+    reload(): boolean
+}
+
+/**
+ * a JSON config file, loaded on start and reloaded on SIGHUP
+ * @class ConfigFile
+ */
+export class ConfigFile<T> implements IConfigFile {
+    public readonly name: string
+
+    private parse: (fileData: unknown) => T
+    private onLoad: (settings: T) => void
+
+    private settings: T
+    private configPath: string
+
+    constructor(options: IConfigFileOptions<T>) {
+        this.name = options.name
+        this.parse = options.parse
+        this.onLoad = options.onLoad != null ? options.onLoad : null
+        this.settings = options.defaults != null ? options.defaults : null
+        this.configPath = null
+    }
+
+    /**
+     * the file's current settings
+     */
+    public get(): T {
+        return this.settings
+    }
+
+    /**
+     * read the file and replace the current settings
+     * @param configPath the file's path
+     * @throws Error if the file can't be read or it's invalid
+     */
+    public load(configPath: string): void {
+        const fileData = JSON.parse(
+            fs.readFileSync(configPath, 'utf8')
+        ) as unknown
+
+        const settings: T = this.parse(fileData)
+
+        if (this.onLoad != null) {
+            this.onLoad(settings)
+        }
+
+        this.settings = settings
+        this.configPath = configPath
+
+        console.log(`loaded the ${this.name} from ${configPath}`)
+    }
+
+    /**
+     * read the file again, the current settings are kept if it's invalid
+     * @returns true if successful, false if it wasn't loaded before or it's invalid
+     */
+    public reload(): boolean {
+        if (this.configPath == null) {
+            return false
+        }
+
+        try {
+            this.load(this.configPath)
+            return true
+        } catch (error) {
+            console.error(
+                `failed to reload ${this.configPath}, keeping the current ${this.name}`
+            )
+            console.error(error)
+            return false
+        }
+    }
+}
@@ -1,6 +1,8 @@
 import net from 'net'
 
 import { PacketLogger } from 'packetlogger'
+import { InPacketBase } from 'packets/in/packet'
+import { InPacketFramer } from 'packets/in/packetframer'
 import { OutPacketBase } from 'packets/out/packet'
 
 import { UserSession } from 'user/usersession'
@@ -21,10 +23,12 @@ export class ExtendedSocket extends net.Socket {
         Object.assign(newSocket, socket)
 
         newSocket.session = null
+        newSocket.disconnecting = false
 
         newSocket.realInSeq = MIN_SEQUENCE
         newSocket.realOutSeq = MIN_SEQUENCE
         newSocket.packetDumper = packetDumper
+        newSocket.framer = new InPacketFramer()
 
         return newSocket
     }
@@ -35,6 +39,9 @@ export class ExtendedSocket extends net.Socket {
     // the connection owning user, null if it doesn't have any
     public session: UserSession
 
+    // was the connection told to go away? if so, its packets are ignored
+    public disconnecting: boolean
+
     // the current packet sequence (1 byte long)
     private seq: number
 
@@ -44,6 +51,19 @@ export class ExtendedSocket extends net.Socket {
 
     private packetDumper: PacketLogger
 
+    // splits the received data into whole packets
+    private framer: InPacketFramer
+
+    /**
+     * add data received from this connection to its packet stream
+     * @param data the received data
+     * @returns the whole packets received so far,
+     * or null if the connection sent something that isn't a valid packet
+     */
+    public readPackets(data: Buffer): InPacketBase[] {
+        return this.framer.push(data)
+    }
+
     /**
      * returns the current sequence and increments it
      */
@@ -10,3 +10,8 @@ export const GAME_LOGIN_BAD_USERNAME = '#CSO2_LoginAuth_Certify_NoPassport'
 export const GAME_LOGIN_BAD_PASSWORD = '#CSO2_LoginAuth_WrongPassword'
 export const GAME_LOGIN_INVALID_USERINFO =
     '#CSO2_ServerMessage_INVALID_USERINFO'
+export const GAME_SHOP_BUY_FAILED = '#CSO2_POPUP_SHOP_BUY_FAILED'
+export const GAME_SHOP_NOT_ENOUGH_CASH = '#CSO2_POPUP_SHOP_NOT_ENOUGH_CASH'
+export const GAME_SHOP_NOT_ENOUGH_POINTS = '#CSO2_POPUP_SHOP_NOT_ENOUGH_POINT'
+export const GAME_SHOP_NOT_ENOUGH_MPOINTS =
+    '#CSO2_POPUP_SHOP_NOT_ENOUGH_MILEAGE'
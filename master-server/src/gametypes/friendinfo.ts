@@ -0,0 +1,19 @@
+export enum FriendStatus {
+    Pending = 0,
+    Accepted = 1,
+    Blocked = 2
+}
+
+/**
+ * the data sent to an user about one of their friends
+ */
+export interface FriendInfo {
+    userId: number
+    playerName: string
+    status: FriendStatus
+    // true if the friend sent a pending request to the user
+    isIncoming: boolean
+    isOnline: boolean
+    channelIndex: number
+    roomId: number
+}
@@ -0,0 +1,17 @@
+export enum UnlockCurrency {
+    ZombiePoints = 0,
+    Mileage = 1
+}
+
+export interface UnlockItem {
+    // the ID used by the client to request the unlock
+    unlockId: number
+    // the unlocked weapon's item ID
+    itemId: number
+    currency: UnlockCurrency
+    price: number
+    // the weapon that must be used to unlock this one, 0 if there's none
+    previousItemId: number
+    // the kills needed with the previous weapon
+    requiredKills: number
+}
@@ -15,6 +15,9 @@ import { InAboutmeSetTitle } from 'packets/in/aboutme/title'
 import { OutUserInfoPacket } from 'packets/out/userinfo'
 
 import { Room } from 'room/room'
+import { AchievementTracker } from 'user/achievementtracker'
+import { CampaignRewards } from 'user/campaignrewards'
+import { ProfileUnlocks } from 'user/profileunlocks'
 import { UserSession } from 'user/usersession'
 import { UserService } from 'services/userservice'
 
@@ -94,25 +97,22 @@ export class AboutMeHandler {
             return false
         }
 
-        const newFlags = user.campaign_flags | campaignId
-        const updated = await UserService.UpdatePartial(
-            {
-                campaign_flags: newFlags
-            },
-            user.id
-        )
-
-        if (updated === false) {
-            console.warn(
-                `Failed to update user ${user.id}'s campaign flags to ${newFlags}`
+        if ((user.campaign_flags & campaignId) !== 0) {
+            console.debug(
+                `user ${user.id} finished the campaign ${campaignId} again`
             )
+            return true
+        }
+
+        if ((await CampaignRewards.grant(conn, campaignId)) === false) {
             return false
         }
 
-        const updateInfoPkt = OutUserInfoPacket.updateCampaignFlags(user)
-        conn.send(updateInfoPkt)
+        await AchievementTracker.onCampaignFinished(conn, campaignId)
 
-        console.debug(`Setting user ${user.id}'s campaign flags to ${newFlags}`)
+        console.debug(
+            `Setting user ${user.id}'s campaign flags to ${user.campaign_flags}`
+        )
 
         return true
     }
@@ -124,6 +124,21 @@ export class AboutMeHandler {
         const avatarData: InAboutmeSetAvatar = new InAboutmeSetAvatar(aboutPkt)
 
         const session: UserSession = conn.session
+
+        if (
+            ProfileUnlocks.isAvatarUnlocked(
+                session.user,
+                avatarData.avatarId
+            ) === false
+        ) {
+            console.warn(
+                `user ${session.user.id} tried to set the locked avatar ${avatarData.avatarId}`
+            )
+            // make the client show the current avatar again
+            conn.send(OutUserInfoPacket.updateAvatar(session.user))
+            return false
+        }
+
         const updated: boolean = await UserService.UpdatePartial(
             {
                 avatar: avatarData.avatarId
@@ -222,6 +237,18 @@ export class AboutMeHandler {
             return false
         }
 
+        if (
+            ProfileUnlocks.isTitleUnlocked(session.user, titleData.titleId) ===
+            false
+        ) {
+            console.warn(
+                `user ${session.user.id} tried to set the locked title ${titleData.titleId}`
+            )
+            // make the client show the current title again
+            conn.send(OutUserInfoPacket.updateTitle(session.user))
+            return false
+        }
+
         const updated: boolean = await UserService.UpdatePartial(
             {
                 title: titleData.titleId
@@ -1,12 +1,24 @@
 import { ExtendedSocket } from 'extendedsocket'
 
-import { AchievementPacketType, MissionCampaignIds } from 'packets/definitions'
+import {
+    AchievementPacketType,
+    IsMissionCampaignIdValid
+} from 'packets/definitions'
 import { InAchievementPacket } from 'packets/in/achievement'
 import { OutAchievementPacket } from 'packets/out/achievement'
+import { InAchievementGetBossRushData } from 'packets/in/achievement/bossrush'
 import { InAchievementGetCampaignData } from 'packets/in/achievement/campaign'
 
+import { RoomGamemode } from 'gametypes/shareddefs'
+
+import { CampaignRewards } from 'user/campaignrewards'
+import { IUserBossRushProgress, UserBossRush } from 'user/userbossrush'
+
 export class AchievementHandler {
-    public OnPacket(packetData: Buffer, conn: ExtendedSocket): boolean {
+    public async OnPacket(
+        packetData: Buffer,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
         const achPacket = new InAchievementPacket(packetData)
 
         if (conn.session == null) {
@@ -19,6 +31,8 @@ export class AchievementHandler {
         switch (achPacket.packetType) {
             case AchievementPacketType.Campaign:
                 return this.HandleCampaignRequest(achPacket, conn)
+            case AchievementPacketType.Boss:
+                return await this.HandleBossRushRequest(achPacket, conn)
         }
 
         console.warn(
@@ -29,95 +43,59 @@ export class AchievementHandler {
         return false
     }
 
+    private async HandleBossRushRequest(
+        achPacket: InAchievementPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const bossRushPkt = new InAchievementGetBossRushData(achPacket)
+        const gamemode: RoomGamemode = UserBossRush.getGamemode(
+            bossRushPkt.bossRushId
+        )
+
+        if (gamemode == null) {
+            console.error(`Got invalid boss rush id ${bossRushPkt.bossRushId}`)
+            return false
+        }
+
+        const allProgress: IUserBossRushProgress[] = await UserBossRush.getByUser(
+            conn.session.user.id
+        )
+
+        if (allProgress == null) {
+            return false
+        }
+
+        const progress: IUserBossRushProgress = allProgress.find(
+            (p: IUserBossRushProgress) => p.gamemode === gamemode
+        )
+
+        conn.send(
+            UserBossRush.buildProgressPacket(bossRushPkt.bossRushId, progress)
+        )
+
+        return true
+    }
+
     private HandleCampaignRequest(
         achPacket: InAchievementPacket,
         conn: ExtendedSocket
     ): boolean {
         const campaignPkt = new InAchievementGetCampaignData(achPacket)
 
-        switch (campaignPkt.campaignId) {
-            case MissionCampaignIds.Campaign_0:
-                conn.send(
-                    OutAchievementPacket.UpdateCampaign(
-                        MissionCampaignIds.Campaign_0
-                    )
-                )
-                break
-
-            case MissionCampaignIds.Campaign_1:
-                conn.send(
-                    OutAchievementPacket.UpdateCampaign(
-                        MissionCampaignIds.Campaign_1,
-                        {
-                            rewardXp: 3000
-                        }
-                    )
-                )
-                break
-
-            case MissionCampaignIds.Campaign_2:
-                conn.send(
-                    OutAchievementPacket.UpdateCampaign(
-                        MissionCampaignIds.Campaign_2,
-                        {
-                            rewardPoints: 5000
-                        }
-                    )
-                )
-                break
-
-            case MissionCampaignIds.Campaign_3:
-                conn.send(
-                    OutAchievementPacket.UpdateCampaign(
-                        MissionCampaignIds.Campaign_3,
-                        {
-                            rewardIcon: 24
-                        }
-                    )
-                )
-                break
-
-            case MissionCampaignIds.Campaign_4:
-                conn.send(
-                    OutAchievementPacket.UpdateCampaign(
-                        MissionCampaignIds.Campaign_4,
-                        {
-                            rewardItems: [
-                                {
-                                    itemId: 1002,
-                                    ammount: 1,
-                                    timeLimited: false
-                                },
-                                { itemId: 1004, ammount: 1, timeLimited: false }
-                            ]
-                        }
-                    )
-                )
-                break
-
-            case MissionCampaignIds.Campaign_5:
-                conn.send(
-                    OutAchievementPacket.UpdateCampaign(
-                        MissionCampaignIds.Campaign_5,
-                        {
-                            rewardItems: [
-                                { itemId: 54, ammount: 1, timeLimited: false },
-                                { itemId: 55, ammount: 1, timeLimited: false }
-                            ]
-                        }
-                    )
-                )
-                break
-
-            case MissionCampaignIds.Campaign_6:
-                // unused
-                break
-
-            default:
-                console.error(
-                    `Got invalid campaign mission id ${campaignPkt.campaignId}`
-                )
-                return false
+        if (IsMissionCampaignIdValid(campaignPkt.campaignId) === false) {
+            console.error(
+                `Got invalid campaign mission id ${campaignPkt.campaignId}`
+            )
+            return false
+        }
+
+        const rewardPacket: OutAchievementPacket = CampaignRewards.buildRewardPacket(
+            campaignPkt.campaignId
+        )
+
+        // the unused campaign has nothing to show
+        if (rewardPacket != null) {
+            conn.send(rewardPacket)
         }
 
         return true
@@ -0,0 +1,271 @@
+import { Channel } from 'channel/channel'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { CSTeamNum, RoomGamemode } from 'gametypes/shareddefs'
+import { IRoomOptions, Room } from 'room/room'
+
+import { AutomatchQueue } from 'automatch/automatchqueue'
+import { SkillRating } from 'automatch/skillrating'
+
+import { UserSession } from 'user/usersession'
+
+import { AutomatchPacketType, ChatMessageType } from 'packets/definitions'
+import { InAutomatchPacket } from 'packets/in/automatch'
+import { OutAutomatchPacket } from 'packets/out/automatch'
+import { OutChatPacket } from 'packets/out/chat'
+
+import { RoomHandler } from 'handlers/roomhandler'
+
+// how often the queues look for new matches
+const AUTOMATCH_TICK_INTERVAL_MS = 5000
+
+// the fixed settings of a ranked match's room
+const RANKED_ROOM_OPTIONS: IRoomOptions = {
+    roomName: 'Ranked match',
+    gameModeId: RoomGamemode.rankmatch_original,
+    mapId: 1,
+    winLimit: 10
+}
+
+/**
+ * handles incoming Automatch packets
+ * groups queued users by their skill rating and creates ranked rooms for them
+ */
+export class AutomatchHandler {
+    /**
+     * the team of a player in a ranked match
+     * the players alternate picks, so both teams get a similar rating
+     * @param ratingPosition the player's position when sorted by rating
+     */
+    private static getDraftTeam(ratingPosition: number): CSTeamNum {
+        const pick: number = ratingPosition % 4
+        return pick === 0 || pick === 3
+            ? CSTeamNum.Terrorist
+            : CSTeamNum.CounterTerrorist
+    }
+
+    private roomHandler: RoomHandler
+
+    private queuedChannels: Set<Channel>
+    private tickTimer: NodeJS.Timeout
+
+    constructor(roomHandler: RoomHandler) {
+        this.roomHandler = roomHandler
+        this.queuedChannels = new Set<Channel>()
+        this.tickTimer = null
+    }
+
+    /**
+     * called when the user sends an Automatch packet
+     * @param packetData the packet's data
+     * @param sourceConn the user's connection
+     * @returns true if successful
+     */
+    public OnPacket(packetData: Buffer, sourceConn: ExtendedSocket): boolean {
+        if (sourceConn.session == null) {
+            console.warn(
+                `connection ${sourceConn.uuid} sent an Automatch packet without a session`
+            )
+            return false
+        }
+
+        const automatchPkt = new InAutomatchPacket(packetData)
+
+        switch (automatchPkt.packetType) {
+            case AutomatchPacketType.Queue:
+                return this.OnQueue(sourceConn)
+            case AutomatchPacketType.Cancel:
+                return this.OnCancel(sourceConn)
+        }
+
+        console.warn(
+            `AutomatchHandler::OnPacket: unknown packet type ${automatchPkt.packetType}`
+        )
+
+        return false
+    }
+
+    private OnQueue(conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+        const channel: Channel = session.currentChannel
+
+        if (channel == null) {
+            console.warn(
+                `user ID ${session.user.id} tried to queue for a ranked match, but it isn't in a channel`
+            )
+            return false
+        }
+
+        if (session.currentRoom != null) {
+            console.warn(
+                `user ID ${session.user.id} tried to queue for a ranked match while in room ${session.currentRoom.id}`
+            )
+            return false
+        }
+
+        if (session.currentParty != null) {
+            this.SendUserSystemMsg(
+                conn,
+                'You must leave your party before playing a ranked match.'
+            )
+            return false
+        }
+
+        if (channel.automatchQueue.has(conn) === true) {
+            return false
+        }
+
+        channel.automatchQueue.add(conn, Date.now())
+
+        console.log(
+            `user ID ${
+                session.user.id
+            } queued for a ranked match with rating ${SkillRating.getRating(
+                session.user
+            )}`
+        )
+
+        this.StartTicking(channel)
+        this.MakeMatches(channel)
+
+        return true
+    }
+
+    private OnCancel(conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+
+        if (AutomatchQueue.cleanUpUser(conn) === false) {
+            return false
+        }
+
+        console.log(`user ID ${session.user.id} left the ranked queue`)
+
+        conn.send(OutAutomatchPacket.status(false, 0))
+        this.BroadcastQueueStatus(session.currentChannel)
+
+        return true
+    }
+
+    /**
+     * look for matches in a channel's queue and create their rooms
+     * @param channel the channel to look at
+     */
+    private MakeMatches(channel: Channel): void {
+        const queue: AutomatchQueue = channel.automatchQueue
+
+        for (const conn of queue.removeUnavailable(channel)) {
+            if (conn.destroyed === false && conn.session != null) {
+                conn.send(OutAutomatchPacket.status(false, 0))
+            }
+        }
+
+        for (const players of queue.takeMatches(Date.now())) {
+            this.CreateRankedRoom(channel, players)
+        }
+
+        this.BroadcastQueueStatus(channel)
+    }
+
+    /**
+     * create a ranked room for a group of matched players
+     * @param channel the players' channel
+     * @param players the players' connections
+     */
+    private CreateRankedRoom(
+        channel: Channel,
+        players: ExtendedSocket[]
+    ): void {
+        players.sort(
+            (a: ExtendedSocket, b: ExtendedSocket) =>
+                SkillRating.getRating(b.session.user) -
+                SkillRating.getRating(a.session.user)
+        )
+
+        for (const conn of players) {
+            conn.send(OutAutomatchPacket.status(false, 0))
+            this.SendUserSystemMsg(conn, 'A ranked match was found.')
+        }
+
+        const newRoom: Room = this.roomHandler.createRoomFor(
+            players[0],
+            channel,
+            RANKED_ROOM_OPTIONS
+        )
+        newRoom.isRanked = true
+
+        for (const conn of players.slice(1)) {
+            this.roomHandler.joinRoom(conn, newRoom)
+        }
+
+        players.forEach((conn: ExtendedSocket, index: number) => {
+            newRoom.updateUserTeam(
+                conn.session.user.id,
+                AutomatchHandler.getDraftTeam(index)
+            )
+        })
+
+        console.log(
+            `created ranked room ${newRoom.id} for users ${players
+                .map((c: ExtendedSocket) => c.session.user.id)
+                .join(', ')}`
+        )
+    }
+
+    /**
+     * start looking for matches periodically, if it isn't already
+     * @param channel a channel with queued users
+     */
+    private StartTicking(channel: Channel): void {
+        this.queuedChannels.add(channel)
+
+        if (this.tickTimer != null) {
+            return
+        }
+
+        this.tickTimer = setInterval(() => {
+            this.OnTick()
+        }, AUTOMATCH_TICK_INTERVAL_MS)
+    }
+
+    /**
+     * called periodically while there are queued users
+     * the waiting users' rating windows grow, so new matches may be possible
+     */
+    private OnTick(): void {
+        for (const channel of this.queuedChannels) {
+            this.MakeMatches(channel)
+
+            if (channel.automatchQueue.getSize() === 0) {
+                this.queuedChannels.delete(channel)
+            }
+        }
+
+        if (this.queuedChannels.size === 0) {
+            clearInterval(this.tickTimer)
+            this.tickTimer = null
+        }
+    }
+
+    /**
+     * send the queue's size to every user waiting in it
+     * @param channel the queue's channel
+     */
+    private BroadcastQueueStatus(channel: Channel): void {
+        const queue: AutomatchQueue = channel.automatchQueue
+        const statusPkt: OutAutomatchPacket = OutAutomatchPacket.status(
+            true,
+            queue.getSize()
+        )
+
+        channel.recurseUsers((c: ExtendedSocket) => {
+            if (queue.has(c) === true) {
+                c.send(statusPkt)
+            }
+        })
+    }
+
+    private SendUserSystemMsg(conn: ExtendedSocket, msg: string): void {
+        conn.send(OutChatPacket.systemMessage(msg, ChatMessageType.System))
+    }
+}
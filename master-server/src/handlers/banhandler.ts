@@ -0,0 +1,297 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { BanPacketType, ChatMessageType } from 'packets/definitions'
+import { InBanPacket } from 'packets/in/ban'
+import { OutChatPacket } from 'packets/out/chat'
+
+import { HolepunchGuard } from 'user/holepunchguard'
+import { GmLevel, User } from 'user/user'
+import { UserBan } from 'user/userban'
+import { UserBans } from 'user/userbans'
+import { UserSession } from 'user/usersession'
+
+import { UserService } from 'services/userservice'
+import { ActiveConnections } from 'storage/activeconnections'
+
+export const BANNED_MESSAGE = 'You are banned from this server.'
+export const KICKED_MESSAGE = 'You were kicked from this server.'
+
+// how long (in milliseconds) a removed user's client has to read why
+// before its connection is destroyed
+const DISCONNECT_TIMEOUT = 5000
+
+/**
+ * handles the kicks and bans given by GMs
+ */
+export class BanHandler {
+    /**
+     * show an user why it was removed from the server and close its connection
+     * the connection's packets are ignored from now on, and it's destroyed
+     * once the message is sent, even if the client doesn't close it
+     * @param conn the user's connection
+     * @param msg the message shown to the user
+     */
+    public static disconnectUser(conn: ExtendedSocket, msg: string): void {
+        conn.disconnecting = true
+
+        conn.send(
+            OutChatPacket.systemMessage(msg, ChatMessageType.DialogBoxExit)
+        )
+        conn.end(() => conn.destroy())
+
+        // in case the client stops reading before the message is sent
+        setTimeout(() => conn.destroy(), DISCONNECT_TIMEOUT).unref()
+    }
+
+    /**
+     * can a GM kick, ban or mute an user?
+     * GMs can't act on users with a higher GM level than their own
+     * @param issuer the GM's user
+     * @param target the targeted user
+     * @returns true if so, false if not
+     */
+    public static canModerate(issuer: User, target: User): boolean {
+        return target.gm_level <= issuer.gm_level
+    }
+
+    /**
+     * the message shown to an user when it's banned
+     * @param ban the user's ban
+     */
+    public static getBanMessage(ban: UserBan): string {
+        let msg =
+            ban.expires_at != null
+                ? `You are banned from this server until ${new Date(
+                      ban.expires_at
+                  ).toUTCString()}.`
+                : BANNED_MESSAGE
+
+        if (ban.reason.length !== 0) {
+            msg += ` Reason: ${ban.reason}`
+        }
+
+        return msg
+    }
+
+    /**
+     * called when the user sends a Ban packet
+     * @param packetData the packet's data
+     * @param sourceConn the user's connection
+     * @returns true if successful
+     */
+    public async OnPacket(
+        packetData: Buffer,
+        sourceConn: ExtendedSocket
+    ): Promise<boolean> {
+        const session: UserSession = sourceConn.session
+
+        if (session == null) {
+            console.warn(
+                `connection ${sourceConn.uuid} sent a Ban packet without a session`
+            )
+            return false
+        }
+
+        const banPkt = new InBanPacket(packetData)
+
+        // the same GM levels as the /kick and /ban commands
+        const requiredLevel: GmLevel =
+            banPkt.packetType === BanPacketType.Kick
+                ? GmLevel.Moderator
+                : GmLevel.Admin
+
+        if (session.user.gm_level < requiredLevel) {
+            console.warn(
+                `user ID ${session.user.id} sent a Ban packet without the GM level ${requiredLevel}`
+            )
+            return false
+        }
+
+        switch (banPkt.packetType) {
+            case BanPacketType.Kick:
+                return this.KickUser(
+                    sourceConn,
+                    banPkt.targetName,
+                    banPkt.reason
+                )
+            case BanPacketType.Ban:
+                return await this.BanUser(
+                    sourceConn,
+                    banPkt.targetName,
+                    banPkt.reason,
+                    banPkt.durationMinutes !== 0
+                        ? banPkt.durationMinutes
+                        : null,
+                    banPkt.banIpAddress
+                )
+        }
+
+        console.warn(
+            'BanHandler::OnPacket: unknown packet type %i',
+            banPkt.packetType
+        )
+
+        return false
+    }
+
+    /**
+     * disconnect an online user
+     * @param issuerConn the GM's connection
+     * @param targetName the kicked user's player name
+     * @param reason why the user is kicked
+     * @returns true if successful
+     */
+    public KickUser(
+        issuerConn: ExtendedSocket,
+        targetName: string,
+        reason: string
+    ): boolean {
+        const targetConn: ExtendedSocket = ActiveConnections.Singleton().FindByPlayerName(
+            targetName
+        )
+
+        if (targetConn == null) {
+            this.SendUserSystemMsg(
+                issuerConn,
+                `Could not find the online player ${targetName}.`
+            )
+            return false
+        }
+
+        if (
+            BanHandler.canModerate(
+                issuerConn.session.user,
+                targetConn.session.user
+            ) === false
+        ) {
+            this.SendUserSystemMsg(
+                issuerConn,
+                `You cannot kick ${targetName}, their GM level is higher than yours.`
+            )
+            return false
+        }
+
+        BanHandler.disconnectUser(
+            targetConn,
+            reason.length !== 0
+                ? `${KICKED_MESSAGE} Reason: ${reason}`
+                : KICKED_MESSAGE
+        )
+
+        console.log(
+            `GM ${issuerConn.session.user.id} kicked user ${targetConn.session.user.id}`
+        )
+        this.SendUserSystemMsg(issuerConn, `Kicked ${targetName}.`)
+
+        return true
+    }
+
+    /**
+     * ban an user's account, and its IP address if requested
+     * every live session affected by the ban is disconnected
+     * @param issuerConn the GM's connection
+     * @param targetName the banned user's player name
+     * @param reason why the user is banned
+     * @param durationMinutes how long the ban lasts, null if permanent
+     * @param banIpAddress should the user's IP address be banned too?
+     * @returns true if successful
+     */
+    public async BanUser(
+        issuerConn: ExtendedSocket,
+        targetName: string,
+        reason: string,
+        durationMinutes: number,
+        banIpAddress: boolean
+    ): Promise<boolean> {
+        const issuerId: number = issuerConn.session.user.id
+        const target: User = await UserService.GetUserByPlayerName(targetName)
+
+        if (target == null) {
+            this.SendUserSystemMsg(
+                issuerConn,
+                `Could not find the player ${targetName}.`
+            )
+            return false
+        }
+
+        if (target.id === issuerId) {
+            this.SendUserSystemMsg(issuerConn, 'You cannot ban yourself.')
+            return false
+        }
+
+        if (BanHandler.canModerate(issuerConn.session.user, target) === false) {
+            this.SendUserSystemMsg(
+                issuerConn,
+                `You cannot ban ${targetName}, their GM level is higher than yours.`
+            )
+            return false
+        }
+
+        const targetConn: ExtendedSocket = ActiveConnections.Singleton().FindByOwnerId(
+            target.id
+        )
+
+        if (banIpAddress === true && targetConn == null) {
+            this.SendUserSystemMsg(
+                issuerConn,
+                `${targetName} must be online to ban their IP address.`
+            )
+            return false
+        }
+
+        // behind a proxy or NAT every player has the same address,
+        // banning it would ban all of them
+        if (
+            banIpAddress === true &&
+            HolepunchGuard.isTrustedProxy(targetConn.remoteAddress) === true
+        ) {
+            this.SendUserSystemMsg(
+                issuerConn,
+                `${targetName} is connected through a proxy, their IP address cannot be banned.`
+            )
+            return false
+        }
+
+        const ipAddress: string =
+            banIpAddress === true ? targetConn.remoteAddress : null
+
+        const ban: UserBan = await UserBans.create(
+            target.id,
+            ipAddress,
+            reason,
+            issuerId,
+            durationMinutes
+        )
+
+        if (ban == null) {
+            this.SendUserSystemMsg(issuerConn, `Failed to ban ${targetName}.`)
+            return false
+        }
+
+        const bannedConns: ExtendedSocket[] =
+            ipAddress != null
+                ? ActiveConnections.Singleton().FindAllByAddress(ipAddress)
+                : []
+
+        if (targetConn != null && bannedConns.includes(targetConn) === false) {
+            bannedConns.push(targetConn)
+        }
+
+        const banMsg: string = BanHandler.getBanMessage(ban)
+
+        for (const conn of bannedConns) {
+            BanHandler.disconnectUser(conn, banMsg)
+        }
+
+        console.log(
+            `GM ${issuerId} banned user ${target.id} (ban ID ${ban.id}), disconnected ${bannedConns.length} sessions`
+        )
+        this.SendUserSystemMsg(issuerConn, `Banned ${targetName}.`)
+
+        return true
+    }
+
+    private SendUserSystemMsg(conn: ExtendedSocket, msg: string): void {
+        conn.send(OutChatPacket.systemMessage(msg, ChatMessageType.System))
+    }
+}
@@ -1,24 +1,54 @@
 import { ExtendedSocket } from 'extendedsocket'
+import { User } from 'user/user'
+import { UserClans } from 'user/userclans'
+import { UserFriends } from 'user/userfriends'
+import { UserMailbox } from 'user/usermailbox'
 import { UserSession } from 'user/usersession'
 
 import { ChatMessageType } from 'packets/definitions'
 
 import { Channel } from 'channel/channel'
+import { Party } from 'party/party'
 import { Room } from 'room/room'
 import { RoomUserEntry } from 'room/roomuserentry'
 
 import { InChatPacket } from 'packets/in/chat'
 import { OutChatPacket } from 'packets/out/chat'
 
+import { GmCommandHandler } from 'handlers/gmcommandhandler'
+import { PARTY_COMMAND, PartyHandler } from 'handlers/partyhandler'
+
+import { UserService } from 'services/userservice'
 import { ActiveConnections } from 'storage/activeconnections'
 
 /**
  * handles incoming Chat packets
  */
 export class ChatHandler {
-    /* constructor() {} */
+    /**
+     * can commands be sent through a chat message type?
+     * @param type the chat message's type
+     */
+    private static isCommandChatType(type: ChatMessageType): boolean {
+        return (
+            type === ChatMessageType.DirectMessage ||
+            type === ChatMessageType.Channel ||
+            type === ChatMessageType.Room
+        )
+    }
+
+    private gmCommandHandler: GmCommandHandler
+    private partyHandler: PartyHandler
+
+    constructor() {
+        this.gmCommandHandler = new GmCommandHandler()
+        this.partyHandler = new PartyHandler()
+    }
 
-    public OnPacket(packetData: Buffer, conn: ExtendedSocket): boolean {
+    public async OnPacket(
+        packetData: Buffer,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
         const chatPkt: InChatPacket = new InChatPacket(packetData)
 
         const session: UserSession = conn.session
@@ -39,6 +69,31 @@ export class ChatHandler {
             return false
         }
 
+        if (
+            ChatHandler.isCommandChatType(chatPkt.type) === true &&
+            GmCommandHandler.isCommand(chatPkt.message) === true
+        ) {
+            return await this.gmCommandHandler.OnCommand(chatPkt.message, conn)
+        }
+
+        // muted users can still use the GM commands, but nothing else
+        if (session.isMuted() === true) {
+            const minutesLeft: number = Math.ceil(
+                (session.mutedUntil - Date.now()) / 60000
+            )
+            conn.send(
+                OutChatPacket.systemMessage(
+                    `You are muted for ${minutesLeft} more minutes.`,
+                    ChatMessageType.System
+                )
+            )
+            return false
+        }
+
+        if (chatPkt.message.startsWith(PARTY_COMMAND) === true) {
+            return this.partyHandler.OnCommand(chatPkt.message, conn)
+        }
+
         switch (chatPkt.type) {
             case ChatMessageType.DirectMessage:
                 return this.OnDirectMessage(chatPkt, conn)
@@ -50,6 +105,12 @@ export class ChatHandler {
                 return this.OnIngameGlobalMessage(chatPkt, conn)
             case ChatMessageType.IngameTeam:
                 return this.OnIngameTeamMessage(chatPkt, conn)
+            case ChatMessageType.Clan:
+                return this.OnClanMessage(chatPkt, conn)
+            case ChatMessageType.Party:
+                return this.OnPartyMessage(chatPkt, conn)
+            case ChatMessageType.IngameParty:
+                return this.OnIngamePartyMessage(chatPkt, conn)
         }
 
         console.warn(
@@ -88,10 +149,10 @@ export class ChatHandler {
         return true
     }
 
-    private OnDirectMessage(
+    private async OnDirectMessage(
         chatPkt: InChatPacket,
         conn: ExtendedSocket
-    ): boolean {
+    ): Promise<boolean> {
         const session: UserSession = conn.session
 
         if (chatPkt.destination == null) {
@@ -113,14 +174,15 @@ export class ChatHandler {
         )
 
         if (receiverConn == null) {
-            console.warn(
-                `couldn't find receiver ${chatPkt.destination} for user ID ${session.user.id}'s direct message`
-            )
-            return false
+            return this.StoreOfflineDirectMessage(chatPkt, conn)
         }
 
         const targetsession: UserSession = receiverConn.session
 
+        if ((await this.CanMessage(conn, targetsession.user)) === false) {
+            return false
+        }
+
         const outMsgData: OutChatPacket = OutChatPacket.directMessage(
             session.user.playername,
             session.user.vip_level,
@@ -144,6 +206,95 @@ export class ChatHandler {
         return true
     }
 
+    /**
+     * stores a direct message sent to an offline user in its mailbox
+     * @param chatPkt the direct message's packet
+     * @param conn the sender's connection
+     * @returns true if stored, false if not
+     */
+    private async StoreOfflineDirectMessage(
+        chatPkt: InChatPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const session: UserSession = conn.session
+
+        const receiver: User = await UserService.GetUserByPlayerName(
+            chatPkt.destination
+        )
+
+        if (receiver == null) {
+            console.warn(
+                `couldn't find receiver ${chatPkt.destination} for user ID ${session.user.id}'s direct message`
+            )
+            return false
+        }
+
+        if ((await this.CanMessage(conn, receiver)) === false) {
+            return false
+        }
+
+        const mail = await UserMailbox.send(
+            receiver.id,
+            session.user.id,
+            session.user.playername,
+            chatPkt.message
+        )
+
+        if (mail == null) {
+            console.warn(
+                `failed to store user ID ${session.user.id}'s direct message to ${receiver.id}`
+            )
+            return false
+        }
+
+        conn.send(
+            OutChatPacket.systemMessage(
+                `${receiver.playername} is offline, your message was sent to their mailbox.`,
+                ChatMessageType.System
+            )
+        )
+
+        return true
+    }
+
+    /**
+     * checks if the receiver of a direct message hasn't blocked its sender
+     * tells the sender when the receiver has blocked it
+     * @param conn the sender's connection
+     * @param receiver the direct message's receiver
+     * @returns true if the message may be sent, false if not
+     */
+    private async CanMessage(
+        conn: ExtendedSocket,
+        receiver: User
+    ): Promise<boolean> {
+        const session: UserSession = conn.session
+
+        const blocked = await UserFriends.hasBlocked(
+            receiver.id,
+            session.user.id
+        )
+
+        if (blocked == null) {
+            console.warn(
+                `couldn't check if user ID ${receiver.id} blocked user ID ${session.user.id}`
+            )
+            return false
+        }
+
+        if (blocked === true) {
+            conn.send(
+                OutChatPacket.systemMessage(
+                    `You can't send messages to ${receiver.playername}.`,
+                    ChatMessageType.System
+                )
+            )
+            return false
+        }
+
+        return true
+    }
+
     private OnRoomMessage(
         chatPkt: InChatPacket,
         conn: ExtendedSocket
@@ -239,6 +390,113 @@ export class ChatHandler {
         return true
     }
 
+    private async OnClanMessage(
+        chatPkt: InChatPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const session: UserSession = conn.session
+
+        const clan = await UserClans.getByUser(session.user.id)
+
+        if (clan == null) {
+            console.warn(
+                `user ID ${session.user.id} sent a clan message without being in a clan`
+            )
+            return false
+        }
+
+        const members = await UserClans.getMembers(clan.id)
+
+        if (members == null) {
+            console.warn(`failed to get clan ${clan.id}'s members`)
+            return false
+        }
+
+        const outMsgData: OutChatPacket = OutChatPacket.clanMessage(
+            session.user.playername,
+            session.user.vip_level,
+            session.user.gm,
+            chatPkt.message
+        )
+
+        for (const member of members) {
+            const memberConn = ActiveConnections.Singleton().FindByOwnerId(
+                member.user_id
+            )
+
+            if (memberConn != null) {
+                memberConn.send(outMsgData)
+            }
+        }
+
+        return true
+    }
+
+    private OnPartyMessage(
+        chatPkt: InChatPacket,
+        conn: ExtendedSocket
+    ): boolean {
+        const session: UserSession = conn.session
+        const party: Party = session.currentParty
+
+        if (party == null) {
+            console.warn(
+                `user ID ${session.user.id} sent a party message without being in a party`
+            )
+            return false
+        }
+
+        const outMsgData: OutChatPacket = OutChatPacket.partyMessage(
+            session.user.playername,
+            session.user.vip_level,
+            session.user.gm,
+            chatPkt.message
+        )
+
+        party.recurseMembers((c: ExtendedSocket) => {
+            c.send(outMsgData)
+        })
+
+        return true
+    }
+
+    private OnIngamePartyMessage(
+        chatPkt: InChatPacket,
+        conn: ExtendedSocket
+    ): boolean {
+        const session: UserSession = conn.session
+        const party: Party = session.currentParty
+
+        if (party == null) {
+            console.warn(
+                `user ID ${session.user.id} sent an ingame party message without being in a party`
+            )
+            return false
+        }
+
+        if (this.CanSendIngameMessage(session) === false) {
+            return false
+        }
+
+        const curRoom: Room = session.currentRoom
+
+        const outMsgData: OutChatPacket = OutChatPacket.ingamePartyMessage(
+            session.user.playername,
+            session.user.vip_level,
+            session.user.gm,
+            chatPkt.message
+        )
+
+        // only the party members playing in the same match can see it
+        curRoom.recurseUsers((u: RoomUserEntry) => {
+            if (u.isIngame === true && party.hasMember(u.userId) === true) {
+                u.conn.send(outMsgData)
+            }
+        })
+
+        return true
+    }
+
     private CanSendIngameMessage(session: UserSession): boolean {
         if (session.isInRoom() === false) {
             console.warn(
@@ -0,0 +1,345 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { ChatMessageType, FriendPacketType } from 'packets/definitions'
+
+import { InFriendPacket } from 'packets/in/friend'
+import { InFriendTarget } from 'packets/in/friend/target'
+
+import { OutChatPacket } from 'packets/out/chat'
+import { OutFriendPacket } from 'packets/out/friend'
+
+import { FriendInfo, FriendStatus } from 'gametypes/friendinfo'
+
+import { User } from 'user/user'
+import { UserFriend } from 'user/userfriend'
+import { FriendRequestResult, UserFriends } from 'user/userfriends'
+import { UserSession } from 'user/usersession'
+
+import { UserService } from 'services/userservice'
+import { ActiveConnections } from 'storage/activeconnections'
+
+/**
+ * handles incoming Friend type packets
+ */
+export class FriendHandler {
+    /**
+     * builds the information sent to an user about a friend
+     * @param friend the relationship to the friend
+     * @param ownerId the user's ID that will receive the information
+     * @returns the friend's information
+     */
+    private static BuildFriendInfo(
+        friend: UserFriend,
+        ownerId: number
+    ): FriendInfo {
+        const isIncoming = friend.friend_id === ownerId
+        const friendId = isIncoming ? friend.user_id : friend.friend_id
+
+        const info: FriendInfo = {
+            userId: friendId,
+            playerName: friend.playername,
+            status: friend.status,
+            isIncoming,
+            isOnline: false,
+            channelIndex: 0,
+            roomId: 0
+        }
+
+        // only friends can see where each other are
+        if (friend.status !== FriendStatus.Accepted) {
+            return info
+        }
+
+        const friendConn = ActiveConnections.Singleton().FindByOwnerId(friendId)
+
+        if (friendConn == null) {
+            return info
+        }
+
+        const session: UserSession = friendConn.session
+
+        info.isOnline = true
+
+        if (session.currentChannel != null) {
+            info.channelIndex = session.currentChannel.index
+        }
+
+        if (session.currentRoom != null) {
+            info.roomId = session.currentRoom.id
+        }
+
+        return info
+    }
+
+    public async OnPacket(
+        packetData: Buffer,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const friendPkt = new InFriendPacket(packetData)
+
+        if (conn.session == null) {
+            console.warn(
+                `connection ${conn.uuid} sent a Friend packet without a session`
+            )
+            return false
+        }
+
+        switch (friendPkt.packetType) {
+            case FriendPacketType.List:
+                return this.SendFriendsListTo(conn)
+            case FriendPacketType.Request:
+                return this.OnFriendRequest(friendPkt, conn)
+            case FriendPacketType.Accept:
+            case FriendPacketType.Decline:
+            case FriendPacketType.Remove:
+            case FriendPacketType.Block:
+            case FriendPacketType.Unblock:
+                return this.OnFriendAction(friendPkt, conn)
+        }
+
+        console.warn(
+            // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+            `FriendHandler::OnPacket: unknown packet type ${friendPkt.packetType}`
+        )
+
+        return false
+    }
+
+    /**
+     * sends an user's friends list to itself
+     * @param conn the user's connection
+     * @returns true if successful, false if not
+     */
+    public async SendFriendsListTo(conn: ExtendedSocket): Promise<boolean> {
+        const userId = conn.session.user.id
+        const friends = await UserFriends.getAll(userId)
+
+        if (friends == null) {
+            console.warn(`Failed to get user ${userId}'s friends`)
+            return false
+        }
+
+        conn.send(
+            OutFriendPacket.list(
+                friends.map((f) => FriendHandler.BuildFriendInfo(f, userId))
+            )
+        )
+
+        return true
+    }
+
+    /**
+     * tells an user's online friends about the user's current status
+     * should be called when an user logs in, logs out or changes channels
+     * @param conn the user's connection
+     * @param isOnline is the user still online?
+     */
+    public async NotifyFriendsOf(
+        conn: ExtendedSocket,
+        isOnline: boolean
+    ): Promise<void> {
+        const session: UserSession = conn.session
+        const user: User = session.user
+        const friends = await UserFriends.getAll(user.id)
+
+        if (friends == null) {
+            return
+        }
+
+        let channelIndex = 0
+        let roomId = 0
+
+        if (isOnline === true) {
+            if (session.currentChannel != null) {
+                channelIndex = session.currentChannel.index
+            }
+
+            if (session.currentRoom != null) {
+                roomId = session.currentRoom.id
+            }
+        }
+
+        for (const friend of friends) {
+            if (
+                friend.status !== FriendStatus.Accepted ||
+                friend.user_id !== user.id
+            ) {
+                continue
+            }
+
+            const friendConn = ActiveConnections.Singleton().FindByOwnerId(
+                friend.friend_id
+            )
+
+            if (friendConn == null) {
+                continue
+            }
+
+            friendConn.send(
+                OutFriendPacket.update({
+                    userId: user.id,
+                    playerName: user.playername,
+                    status: FriendStatus.Accepted,
+                    isIncoming: false,
+                    isOnline,
+                    channelIndex,
+                    roomId
+                })
+            )
+        }
+    }
+
+    private async OnFriendRequest(
+        friendPkt: InFriendPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const targetData = new InFriendTarget(friendPkt)
+        const user: User = conn.session.user
+
+        const target: User = await this.FindUserByName(targetData.playerName)
+
+        if (target == null || target.id === user.id) {
+            this.SendUserSystemMsg(
+                conn,
+                `Could not find the player ${targetData.playerName}.`
+            )
+            return false
+        }
+
+        const result = await UserFriends.request(user.id, target.id)
+
+        switch (result) {
+            case FriendRequestResult.Sent:
+                this.SendUserSystemMsg(
+                    conn,
+                    `Sent a friend request to ${target.playername}.`
+                )
+                break
+            case FriendRequestResult.Accepted:
+                this.SendUserSystemMsg(
+                    conn,
+                    `You are now friends with ${target.playername}.`
+                )
+                break
+            case FriendRequestResult.AlreadyExists:
+                this.SendUserSystemMsg(
+                    conn,
+                    `You already sent a friend request to ${target.playername}.`
+                )
+                return false
+            case FriendRequestResult.Blocked:
+                this.SendUserSystemMsg(
+                    conn,
+                    `You can't send a friend request to ${target.playername}.`
+                )
+                return false
+            default:
+                console.warn(
+                    `Failed to send user ${user.id}'s friend request to ${target.id}`
+                )
+                return false
+        }
+
+        await this.RefreshFriendsLists(conn, target.id)
+
+        console.log(`user ${user.id} sent a friend request to ${target.id}`)
+
+        return true
+    }
+
+    private async OnFriendAction(
+        friendPkt: InFriendPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const targetData = new InFriendTarget(friendPkt)
+        const user: User = conn.session.user
+
+        const target: User = await this.FindUserByName(targetData.playerName)
+
+        if (target == null || target.id === user.id) {
+            this.SendUserSystemMsg(
+                conn,
+                `Could not find the player ${targetData.playerName}.`
+            )
+            return false
+        }
+
+        let done = false
+
+        switch (friendPkt.packetType) {
+            case FriendPacketType.Accept:
+                done = await UserFriends.accept(user.id, target.id)
+                break
+            case FriendPacketType.Decline:
+                done = await UserFriends.decline(user.id, target.id)
+                break
+            case FriendPacketType.Remove:
+                done = await UserFriends.remove(user.id, target.id)
+                break
+            case FriendPacketType.Block:
+                done = await UserFriends.block(user.id, target.id)
+                break
+            case FriendPacketType.Unblock:
+                done = await UserFriends.unblock(user.id, target.id)
+                break
+        }
+
+        if (done === false) {
+            console.warn(
+                // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+                `user ${user.id}'s friend action ${friendPkt.packetType} on ${target.id} failed`
+            )
+            return false
+        }
+
+        await this.RefreshFriendsLists(conn, target.id)
+
+        console.log(
+            // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+            `user ${user.id} did friend action ${friendPkt.packetType} on ${target.id}`
+        )
+
+        return true
+    }
+
+    /**
+     * sends the updated friends lists to an user and, if online, to another one
+     * @param conn the user's connection
+     * @param otherUserId the other user's ID
+     */
+    private async RefreshFriendsLists(
+        conn: ExtendedSocket,
+        otherUserId: number
+    ): Promise<void> {
+        await this.SendFriendsListTo(conn)
+
+        const otherConn = ActiveConnections.Singleton().FindByOwnerId(
+            otherUserId
+        )
+
+        if (otherConn != null) {
+            await this.SendFriendsListTo(otherConn)
+        }
+    }
+
+    /**
+     * finds an user by its player name, looks in the online users first
+     * @param playerName the user's player name
+     * @returns the user if found, null if not
+     */
+    private async FindUserByName(playerName: string): Promise<User> {
+        const onlineConn = ActiveConnections.Singleton().FindByPlayerName(
+            playerName
+        )
+
+        if (onlineConn != null) {
+            return onlineConn.session.user
+        }
+
+        return await UserService.GetUserByPlayerName(playerName)
+    }
+
+    private SendUserSystemMsg(conn: ExtendedSocket, msg: string): void {
+        conn.send(OutChatPacket.systemMessage(msg, ChatMessageType.System))
+    }
+}
@@ -0,0 +1,578 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { Channel } from 'channel/channel'
+import { Room, RoomStatus } from 'room/room'
+import { RoomUserEntry } from 'room/roomuserentry'
+
+import { ChatMessageType } from 'packets/definitions'
+import { OutChatPacket } from 'packets/out/chat'
+import { OutInventoryPacket } from 'packets/out/inventory'
+import { OutUserInfoPacket } from 'packets/out/userinfo'
+
+import { NatType, SessionNatInfo } from 'user/sessionnatinfo'
+import { GmLevel, User } from 'user/user'
+import { UserInventory } from 'user/userinventory'
+import { UserInventoryItem } from 'user/userinventoryitem'
+import { UserMute } from 'user/usermute'
+import { UserMutes } from 'user/usermutes'
+import { UserSession } from 'user/usersession'
+
+import { BanHandler } from 'handlers/banhandler'
+
+import { UserService } from 'services/userservice'
+import { ActiveConnections } from 'storage/activeconnections'
+
+interface IGmCommandInfo {
+    usage: string
+    // the lowest GM level that can use the command
+    level: GmLevel
+    // the lowest GM level that can use the command on another player,
+    // for the commands that anyone can use on themselves
+    targetLevel?: GmLevel
+}
+
+const GM_COMMANDS: Map<string, IGmCommandInfo> = new Map([
+    [
+        '/kick',
+        { usage: '/kick <player name> [reason]', level: GmLevel.Moderator }
+    ],
+    [
+        '/ban',
+        {
+            usage: '/ban <player name> <minutes, 0 for permanent> [reason]',
+            level: GmLevel.Admin
+        }
+    ],
+    [
+        '/mute',
+        {
+            usage: '/mute <player name> <minutes, 0 to unmute>',
+            level: GmLevel.Moderator
+        }
+    ],
+    ['/announce', { usage: '/announce <message>', level: GmLevel.Admin }],
+    [
+        '/give',
+        {
+            usage: '/give <player name> <item ID> [ammount]',
+            level: GmLevel.Admin
+        }
+    ],
+    [
+        '/setpoints',
+        { usage: '/setpoints <player name> <points>', level: GmLevel.Admin }
+    ],
+    [
+        '/roominfo',
+        {
+            usage: '/roominfo [player name]',
+            level: GmLevel.Player,
+            targetLevel: GmLevel.Moderator
+        }
+    ],
+    ['/where', { usage: '/where <player name>', level: GmLevel.Moderator }],
+    [
+        '/nat',
+        {
+            usage: '/nat [player name]',
+            level: GmLevel.Player,
+            targetLevel: GmLevel.Moderator
+        }
+    ]
+])
+
+/**
+ * handles the moderation commands sent through chat messages
+ */
+export class GmCommandHandler {
+    /**
+     * is a chat message a known command?
+     * @param message the chat message
+     * @returns true if it is, false if not
+     */
+    public static isCommand(message: string): boolean {
+        return GM_COMMANDS.has(GmCommandHandler.getCommandName(message))
+    }
+
+    private static getCommandName(message: string): string {
+        return message.trim().split(' ')[0]
+    }
+
+    /**
+     * parses a positive whole number from a command argument
+     * @param arg the argument
+     * @returns the number, or null if the argument isn't valid
+     */
+    private static parseNumberArg(arg: string): number {
+        const num = Number(arg)
+
+        if (arg == null || isNaN(num) || num < 0 || Math.floor(num) !== num) {
+            return null
+        }
+
+        return num
+    }
+
+    private banHandler: BanHandler
+
+    constructor() {
+        this.banHandler = new BanHandler()
+    }
+
+    /**
+     * called when an user sends a command
+     * @param message the whole chat message
+     * @param conn the user's connection
+     * @returns true if successful, false if not
+     */
+    public async OnCommand(
+        message: string,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const session: UserSession = conn.session
+        const args: string[] = message
+            .trim()
+            .split(' ')
+            .filter((arg) => arg.length !== 0)
+        const command: string = args.shift()
+        const info: IGmCommandInfo = GM_COMMANDS.get(command)
+
+        if (session.user.gm_level < info.level) {
+            this.SendUserSystemMsg(
+                conn,
+                `You do not have permission to use ${command}.`
+            )
+            console.warn(
+                `user ID ${session.user.id} tried to use ${command} without the GM level ${info.level}`
+            )
+            return false
+        }
+
+        console.log(`user ID ${session.user.id} used "${message}"`)
+
+        switch (command) {
+            case '/kick':
+                return this.OnKick(args, conn, info)
+            case '/ban':
+                return await this.OnBan(args, conn, info)
+            case '/mute':
+                return await this.OnMute(args, conn, info)
+            case '/announce':
+                return this.OnAnnounce(args, conn, info)
+            case '/give':
+                return await this.OnGive(args, conn, info)
+            case '/setpoints':
+                return await this.OnSetPoints(args, conn, info)
+            case '/roominfo':
+                return this.OnRoomInfo(args, conn, info)
+            case '/where':
+                return this.OnWhere(args, conn, info)
+            case '/nat':
+                return this.OnNat(args, conn, info)
+        }
+
+        return false
+    }
+
+    private OnKick(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): boolean {
+        if (args.length < 1) {
+            return this.SendUsage(conn, info)
+        }
+
+        return this.banHandler.KickUser(conn, args[0], args.slice(1).join(' '))
+    }
+
+    private async OnBan(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): Promise<boolean> {
+        const minutes: number = GmCommandHandler.parseNumberArg(args[1])
+
+        if (args.length < 2 || minutes == null) {
+            return this.SendUsage(conn, info)
+        }
+
+        return await this.banHandler.BanUser(
+            conn,
+            args[0],
+            args.slice(2).join(' '),
+            minutes !== 0 ? minutes : null,
+            false
+        )
+    }
+
+    private async OnMute(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): Promise<boolean> {
+        const minutes: number = GmCommandHandler.parseNumberArg(args[1])
+
+        if (args.length < 2 || minutes == null) {
+            return this.SendUsage(conn, info)
+        }
+
+        const target: User = await this.FindUser(args[0], conn)
+
+        if (target == null) {
+            return false
+        }
+
+        if (BanHandler.canModerate(conn.session.user, target) === false) {
+            this.SendUserSystemMsg(
+                conn,
+                `You cannot mute ${args[0]}, their GM level is higher than yours.`
+            )
+            return false
+        }
+
+        let mutedUntil = 0
+
+        if (minutes !== 0) {
+            const mute: UserMute = await UserMutes.create(
+                target.id,
+                conn.session.user.id,
+                minutes
+            )
+
+            if (mute == null) {
+                this.SendUserSystemMsg(conn, `Failed to mute ${args[0]}.`)
+                return false
+            }
+
+            mutedUntil = new Date(mute.expires_at).getTime()
+        } else if ((await UserMutes.lift(target.id)) === false) {
+            this.SendUserSystemMsg(conn, `Failed to unmute ${args[0]}.`)
+            return false
+        }
+
+        const targetConn: ExtendedSocket = ActiveConnections.Singleton().FindByOwnerId(
+            target.id
+        )
+
+        if (targetConn != null) {
+            targetConn.session.mutedUntil = mutedUntil
+            this.SendUserSystemMsg(
+                targetConn,
+                minutes === 0
+                    ? 'You were unmuted.'
+                    : `You were muted for ${minutes} minutes.`
+            )
+        }
+
+        this.SendUserSystemMsg(
+            conn,
+            minutes === 0
+                ? `Unmuted ${args[0]}.`
+                : `Muted ${args[0]} for ${minutes} minutes.`
+        )
+
+        return true
+    }
+
+    private OnAnnounce(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): boolean {
+        if (args.length < 1) {
+            return this.SendUsage(conn, info)
+        }
+
+        const announcement: OutChatPacket = OutChatPacket.systemMessage(
+            args.join(' '),
+            ChatMessageType.SystemImportant
+        )
+
+        ActiveConnections.Singleton().Recurse((c: ExtendedSocket) => {
+            c.send(announcement)
+        })
+
+        return true
+    }
+
+    private async OnGive(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): Promise<boolean> {
+        const itemId: number = GmCommandHandler.parseNumberArg(args[1])
+        const ammount: number =
+            args.length > 2 ? GmCommandHandler.parseNumberArg(args[2]) : 1
+
+        if (args.length < 2 || itemId == null || ammount == null) {
+            return this.SendUsage(conn, info)
+        }
+
+        const target: User = await this.FindUser(args[0], conn)
+
+        if (target == null) {
+            return false
+        }
+
+        if (
+            (await UserInventory.addItem(target.id, itemId, ammount)) === false
+        ) {
+            this.SendUserSystemMsg(
+                conn,
+                `Failed to give item ${itemId} to ${args[0]}.`
+            )
+            return false
+        }
+
+        const targetConn: ExtendedSocket = ActiveConnections.Singleton().FindByOwnerId(
+            target.id
+        )
+
+        if (targetConn != null) {
+            targetConn.send(
+                OutInventoryPacket.addInventory([
+                    new UserInventoryItem(itemId, ammount)
+                ])
+            )
+        }
+
+        this.SendUserSystemMsg(
+            conn,
+            `Gave ${ammount} of item ${itemId} to ${args[0]}.`
+        )
+
+        return true
+    }
+
+    private async OnSetPoints(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): Promise<boolean> {
+        const points: number = GmCommandHandler.parseNumberArg(args[1])
+
+        if (args.length < 2 || points == null) {
+            return this.SendUsage(conn, info)
+        }
+
+        const target: User = await this.FindUser(args[0], conn)
+
+        if (target == null) {
+            return false
+        }
+
+        if (
+            (await UserService.UpdatePartial({ points }, target.id)) === false
+        ) {
+            this.SendUserSystemMsg(conn, `Failed to set ${args[0]}'s points.`)
+            return false
+        }
+
+        const targetConn: ExtendedSocket = ActiveConnections.Singleton().FindByOwnerId(
+            target.id
+        )
+
+        if (targetConn != null) {
+            targetConn.session.user.points = points
+            targetConn.send(
+                OutUserInfoPacket.updateCurrencies(targetConn.session.user)
+            )
+        }
+
+        this.SendUserSystemMsg(conn, `Set ${args[0]}'s points to ${points}.`)
+
+        return true
+    }
+
+    private OnRoomInfo(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): boolean {
+        let targetConn: ExtendedSocket = conn
+
+        if (args.length !== 0) {
+            if (conn.session.user.gm_level < info.targetLevel) {
+                this.SendUserSystemMsg(
+                    conn,
+                    'Only GMs can see the room of another player.'
+                )
+                return false
+            }
+
+            targetConn = this.FindOnlineUser(args[0], conn)
+
+            if (targetConn == null) {
+                return false
+            }
+        }
+
+        const room: Room = targetConn.session.currentRoom
+
+        if (room == null) {
+            this.SendUserSystemMsg(
+                conn,
+                targetConn === conn
+                    ? 'You are not in a room.'
+                    : `${args[0]} is not in a room.`
+            )
+            return false
+        }
+
+        const players: string[] = room.usersInfo.map(
+            (u: RoomUserEntry) => u.conn.session.user.playername
+        )
+
+        this.SendUserSystemMsg(
+            conn,
+            `Room ${room.id} "${room.settings.roomName}": mode ${
+                room.settings.gameModeId
+            }, map ${room.settings.mapId}, ${
+                room.getStatus() === RoomStatus.Ingame ? 'ingame' : 'waiting'
+            }, ${room.usersInfo.length}/${room.settings.maxPlayers} players`
+        )
+        this.SendUserSystemMsg(
+            conn,
+            `Host: ${
+                room.host.conn.session.user.playername
+            }. Players: ${players.join(', ')}`
+        )
+
+        if (conn.session.user.gm_level >= info.targetLevel) {
+            this.SendUserSystemMsg(
+                conn,
+                `Relay: ${room.getRelayedUsersCount()} relayed players, ${room
+                    .getRelayTraffic()
+                    .toString()}`
+            )
+        }
+
+        return true
+    }
+
+    private OnWhere(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): boolean {
+        if (args.length < 1) {
+            return this.SendUsage(conn, info)
+        }
+
+        const targetConn: ExtendedSocket = this.FindOnlineUser(args[0], conn)
+
+        if (targetConn == null) {
+            return false
+        }
+
+        const channel: Channel = targetConn.session.currentChannel
+        const room: Room = targetConn.session.currentRoom
+
+        if (channel == null) {
+            this.SendUserSystemMsg(conn, `${args[0]} is not in a channel.`)
+        } else if (room == null) {
+            this.SendUserSystemMsg(
+                conn,
+                `${args[0]} is in channel "${channel.name}", outside of a room.`
+            )
+        } else {
+            this.SendUserSystemMsg(
+                conn,
+                `${args[0]} is in channel "${channel.name}", room ${room.id} "${room.settings.roomName}".`
+            )
+        }
+
+        return true
+    }
+
+    private OnNat(
+        args: string[],
+        conn: ExtendedSocket,
+        info: IGmCommandInfo
+    ): boolean {
+        let targetConn: ExtendedSocket = conn
+
+        if (args.length !== 0) {
+            if (conn.session.user.gm_level < info.targetLevel) {
+                this.SendUserSystemMsg(
+                    conn,
+                    'Only GMs can see the NAT of another player.'
+                )
+                return false
+            }
+
+            targetConn = this.FindOnlineUser(args[0], conn)
+
+            if (targetConn == null) {
+                return false
+            }
+        }
+
+        const natInfo: SessionNatInfo = targetConn.session.natInfo
+
+        this.SendUserSystemMsg(
+            conn,
+            `${
+                targetConn === conn ? 'Your' : `${args[0]}'s`
+            } NAT: ${natInfo.describeType()}.`
+        )
+
+        if (natInfo.getType() !== NatType.Unknown) {
+            this.SendUserSystemMsg(conn, `${natInfo.describeMappings()}.`)
+        }
+
+        return true
+    }
+
+    /**
+     * look for an user, online or offline
+     * the command's user is told if it wasn't found
+     */
+    private async FindUser(
+        playerName: string,
+        conn: ExtendedSocket
+    ): Promise<User> {
+        const user: User = await UserService.GetUserByPlayerName(playerName)
+
+        if (user == null) {
+            this.SendUserSystemMsg(
+                conn,
+                `Could not find the player ${playerName}.`
+            )
+        }
+
+        return user
+    }
+
+    /**
+     * look for an online user
+     * the command's user is told if it wasn't found
+     */
+    private FindOnlineUser(
+        playerName: string,
+        conn: ExtendedSocket
+    ): ExtendedSocket {
+        const targetConn: ExtendedSocket = ActiveConnections.Singleton().FindByPlayerName(
+            playerName
+        )
+
+        if (targetConn == null) {
+            this.SendUserSystemMsg(
+                conn,
+                `Could not find the online player ${playerName}.`
+            )
+        }
+
+        return targetConn
+    }
+
+    private SendUsage(conn: ExtendedSocket, info: IGmCommandInfo): boolean {
+        this.SendUserSystemMsg(conn, `Usage: ${info.usage}`)
+        return false
+    }
+
+    private SendUserSystemMsg(conn: ExtendedSocket, msg: string): void {
+        conn.send(OutChatPacket.systemMessage(msg, ChatMessageType.System))
+    }
+}
@@ -0,0 +1,135 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { MailPacketType } from 'packets/definitions'
+
+import { InMailPacket } from 'packets/in/mail'
+import { InMailTarget } from 'packets/in/mail/target'
+
+import { OutInventoryPacket } from 'packets/out/inventory'
+import { OutMailPacket } from 'packets/out/mail'
+
+import { User } from 'user/user'
+import { UserInventoryItem } from 'user/userinventoryitem'
+import { UserMailbox } from 'user/usermailbox'
+
+/**
+ * handles incoming mailbox (UnReaded_Message) type packets
+ */
+export class MailHandler {
+    public async OnPacket(
+        packetData: Buffer,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const mailPkt = new InMailPacket(packetData)
+
+        if (conn.session == null) {
+            console.warn(
+                `connection ${conn.uuid} sent a mailbox packet without a session`
+            )
+            return false
+        }
+
+        switch (mailPkt.packetType) {
+            case MailPacketType.List:
+                return this.SendMailboxTo(conn)
+            case MailPacketType.Read:
+                return this.OnReadMail(mailPkt, conn)
+            case MailPacketType.Delete:
+                return this.OnDeleteMail(mailPkt, conn)
+            case MailPacketType.ClaimItem:
+                return this.OnClaimMailItem(mailPkt, conn)
+        }
+
+        console.warn(
+            // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+            `MailHandler::OnPacket: unknown packet type ${mailPkt.packetType}`
+        )
+
+        return false
+    }
+
+    /**
+     * sends an user's mails and unread mail count to itself
+     * @param conn the user's connection
+     * @returns true if successful, false if not
+     */
+    public async SendMailboxTo(conn: ExtendedSocket): Promise<boolean> {
+        const user: User = conn.session.user
+        const mails = await UserMailbox.getAll(user.id)
+
+        if (mails == null) {
+            console.warn(`Failed to get user ${user.id}'s mailbox`)
+            return false
+        }
+
+        user.unreaded_message = mails.filter((m) => m.is_read === false).length
+
+        conn.send(OutMailPacket.list(mails))
+        conn.send(OutMailPacket.unreadCount(user.unreaded_message))
+
+        return true
+    }
+
+    private async OnReadMail(
+        mailPkt: InMailPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const target = new InMailTarget(mailPkt)
+        const user: User = conn.session.user
+
+        if ((await UserMailbox.markRead(user.id, target.mailId)) === false) {
+            console.warn(
+                `user ${user.id} failed to mark mail ${target.mailId} as read`
+            )
+            return false
+        }
+
+        return this.SendMailboxTo(conn)
+    }
+
+    private async OnDeleteMail(
+        mailPkt: InMailPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const target = new InMailTarget(mailPkt)
+        const user: User = conn.session.user
+
+        if ((await UserMailbox.remove(user.id, target.mailId)) === false) {
+            console.warn(
+                `user ${user.id} failed to delete mail ${target.mailId}`
+            )
+            return false
+        }
+
+        return this.SendMailboxTo(conn)
+    }
+
+    private async OnClaimMailItem(
+        mailPkt: InMailPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const target = new InMailTarget(mailPkt)
+        const user: User = conn.session.user
+
+        const claimed = await UserMailbox.claimItem(user.id, target.mailId)
+
+        if (claimed == null) {
+            console.warn(
+                `user ${user.id} failed to claim mail ${target.mailId}'s item`
+            )
+            return false
+        }
+
+        conn.send(
+            OutInventoryPacket.addInventory([
+                new UserInventoryItem(claimed.item_id, claimed.item_ammount)
+            ])
+        )
+
+        console.log(
+            `user ${user.id} claimed item ${claimed.item_id} from mail ${claimed.id}`
+        )
+
+        return this.SendMailboxTo(conn)
+    }
+}
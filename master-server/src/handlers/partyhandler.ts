@@ -0,0 +1,229 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { ChatMessageType } from 'packets/definitions'
+import { OutChatPacket } from 'packets/out/chat'
+
+import { Party, PARTY_MAX_MEMBERS } from 'party/party'
+
+import { UserSession } from 'user/usersession'
+
+import { ActiveConnections } from 'storage/activeconnections'
+
+export const PARTY_COMMAND = '/party'
+
+/**
+ * handles the party commands sent through chat messages
+ * usage: /party <invite|accept|kick> <player name> or /party <leave|members>
+ */
+export class PartyHandler {
+    /**
+     * called when an user sends a party command
+     * @param message the whole chat message
+     * @param conn the user's connection
+     * @returns true if successful, false if not
+     */
+    public OnCommand(message: string, conn: ExtendedSocket): boolean {
+        const args: string[] = message
+            .substr(PARTY_COMMAND.length)
+            .trim()
+            .split(' ')
+            .filter((arg) => arg.length !== 0)
+
+        const action: string = args.length !== 0 ? args[0] : ''
+        const targetName: string = args.length > 1 ? args[1] : null
+
+        switch (action) {
+            case 'invite':
+                return this.OnInvite(targetName, conn)
+            case 'accept':
+                return this.OnAccept(targetName, conn)
+            case 'leave':
+                return this.OnLeave(conn)
+            case 'kick':
+                return this.OnKick(targetName, conn)
+            case 'members':
+                return this.OnListMembers(conn)
+        }
+
+        this.SendUserSystemMsg(
+            conn,
+            `Usage: ${PARTY_COMMAND} <invite|accept|kick> <player name> or ${PARTY_COMMAND} <leave|members>`
+        )
+        return false
+    }
+
+    private OnInvite(targetName: string, conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+        const targetConn: ExtendedSocket = this.FindOnlineUser(targetName)
+
+        if (targetConn == null || targetConn === conn) {
+            this.SendUserSystemMsg(
+                conn,
+                `Could not find the online player ${targetName}.`
+            )
+            return false
+        }
+
+        if (targetConn.session.currentParty != null) {
+            this.SendUserSystemMsg(
+                conn,
+                `${targetConn.session.user.playername} is already in a party.`
+            )
+            return false
+        }
+
+        let party: Party = session.currentParty
+
+        if (party != null && party.isLeader(session.user.id) === false) {
+            this.SendUserSystemMsg(
+                conn,
+                'Only the party leader can invite players.'
+            )
+            return false
+        }
+
+        if (party != null && party.isFull() === true) {
+            this.SendUserSystemMsg(
+                conn,
+                `A party can't have more than ${PARTY_MAX_MEMBERS} members.`
+            )
+            return false
+        }
+
+        // only start a party once the invite can be sent
+        if (party == null) {
+            party = new Party(conn)
+        }
+
+        party.invite(targetConn.session.user.id)
+
+        this.SendUserSystemMsg(
+            conn,
+            `Invited ${targetConn.session.user.playername} to the party.`
+        )
+        this.SendUserSystemMsg(
+            targetConn,
+            `${session.user.playername} invited you to a party. Type "${PARTY_COMMAND} accept ${session.user.playername}" to join it.`
+        )
+
+        console.log(
+            `user ${session.user.id} invited ${targetConn.session.user.id} to a party`
+        )
+
+        return true
+    }
+
+    private OnAccept(leaderName: string, conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+        const leaderConn: ExtendedSocket = this.FindOnlineUser(leaderName)
+
+        if (session.currentParty != null) {
+            this.SendUserSystemMsg(conn, 'You are already in a party.')
+            return false
+        }
+
+        const party: Party =
+            leaderConn != null ? leaderConn.session.currentParty : null
+
+        if (party == null || party.isInvited(session.user.id) === false) {
+            this.SendUserSystemMsg(
+                conn,
+                `You weren't invited to ${leaderName}'s party.`
+            )
+            return false
+        }
+
+        if (party.isFull() === true) {
+            this.SendUserSystemMsg(conn, 'The party is already full.')
+            return false
+        }
+
+        party.addMember(conn)
+        party.broadcastSystemMessage(
+            `${session.user.playername} joined the party.`
+        )
+
+        console.log(
+            `user ${session.user.id} joined user ${party.getLeaderId()}'s party`
+        )
+
+        return true
+    }
+
+    private OnLeave(conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+
+        if (session.currentParty == null) {
+            this.SendUserSystemMsg(conn, 'You are not in a party.')
+            return false
+        }
+
+        Party.cleanUpUser(conn)
+        this.SendUserSystemMsg(conn, 'You left the party.')
+
+        return true
+    }
+
+    private OnKick(targetName: string, conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+        const party: Party = session.currentParty
+
+        if (party == null || party.isLeader(session.user.id) === false) {
+            this.SendUserSystemMsg(
+                conn,
+                'Only the party leader can kick players.'
+            )
+            return false
+        }
+
+        const targetConn: ExtendedSocket = this.FindOnlineUser(targetName)
+
+        if (
+            targetConn == null ||
+            targetConn === conn ||
+            party.hasMember(targetConn.session.user.id) === false
+        ) {
+            this.SendUserSystemMsg(
+                conn,
+                `${targetName} isn't a member of your party.`
+            )
+            return false
+        }
+
+        party.removeMember(targetConn.session.user.id)
+        this.SendUserSystemMsg(targetConn, 'You were kicked from the party.')
+
+        return true
+    }
+
+    private OnListMembers(conn: ExtendedSocket): boolean {
+        const party: Party = conn.session.currentParty
+
+        if (party == null) {
+            this.SendUserSystemMsg(conn, 'You are not in a party.')
+            return false
+        }
+
+        const names: string[] = party.members.map((c: ExtendedSocket) =>
+            party.isLeader(c.session.user.id)
+                ? `${c.session.user.playername} (leader)`
+                : c.session.user.playername
+        )
+
+        this.SendUserSystemMsg(conn, `Party members: ${names.join(', ')}`)
+
+        return true
+    }
+
+    private FindOnlineUser(playerName: string): ExtendedSocket {
+        if (playerName == null) {
+            return null
+        }
+
+        return ActiveConnections.Singleton().FindByPlayerName(playerName)
+    }
+
+    private SendUserSystemMsg(conn: ExtendedSocket, msg: string): void {
+        conn.send(OutChatPacket.systemMessage(msg, ChatMessageType.System))
+    }
+}
@@ -0,0 +1,172 @@
+import { Channel } from 'channel/channel'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { IRoomOptions, Room, RoomStatus } from 'room/room'
+
+import { Party } from 'party/party'
+import { UserSession } from 'user/usersession'
+
+import {
+    InQuickStartPacket,
+    QUICKSTART_ANY_GAMEMODE
+} from 'packets/in/quickstart'
+
+import { RoomHandler } from 'handlers/roomhandler'
+
+/**
+ * handles incoming QuickStart packets
+ * puts the user in the best open room of its channel, or in a new one
+ */
+export class QuickStartHandler {
+    /**
+     * how unbalanced a room's teams will be after a new user joins it
+     * @param room the room to check
+     * @returns the difference of players between both teams
+     */
+    private static getImbalanceAfterJoin(room: Room): number {
+        const teamDiff = Math.abs(
+            room.getNumOfRealCts() - room.getNumOfRealTerrorists()
+        )
+        // the new user joins the team with less players
+        return teamDiff === 0 ? 1 : teamDiff - 1
+    }
+
+    /**
+     * compares two rooms, the best room for a quick start comes first
+     * fuller rooms are preferred, then rooms with balanced teams,
+     * then rooms that haven't started a match yet
+     */
+    private static compareRooms(a: Room, b: Room): number {
+        const aFill = a.usersInfo.length / a.settings.maxPlayers
+        const bFill = b.usersInfo.length / b.settings.maxPlayers
+
+        if (aFill !== bFill) {
+            return bFill - aFill
+        }
+
+        const aImbalance = QuickStartHandler.getImbalanceAfterJoin(a)
+        const bImbalance = QuickStartHandler.getImbalanceAfterJoin(b)
+
+        if (aImbalance !== bImbalance) {
+            return aImbalance - bImbalance
+        }
+
+        return a.getStatus() - b.getStatus()
+    }
+
+    private roomHandler: RoomHandler
+
+    constructor(roomHandler: RoomHandler) {
+        this.roomHandler = roomHandler
+    }
+
+    /**
+     * called when the user sends a QuickStart packet
+     * @param packetData the packet's data
+     * @param sourceConn the user's connection
+     * @returns true if successful
+     */
+    public OnPacket(packetData: Buffer, sourceConn: ExtendedSocket): boolean {
+        const session: UserSession = sourceConn.session
+
+        if (session == null) {
+            console.warn(
+                `connection ${sourceConn.uuid} sent a QuickStart packet without a session`
+            )
+            return false
+        }
+
+        const quickStartPkt = new InQuickStartPacket(packetData)
+        const channel: Channel = session.currentChannel
+
+        if (channel == null) {
+            console.warn(
+                `user ID ${session.user.id} tried to quick start, but it isn't in a channel`
+            )
+            return false
+        }
+
+        if (session.currentRoom != null) {
+            console.warn(
+                `user ID ${session.user.id} tried to quick start while in room ${session.currentRoom.id}`
+            )
+            return false
+        }
+
+        const bestRoom: Room = this.FindBestRoom(
+            channel,
+            quickStartPkt.gameModeId,
+            this.GetRequiredSlots(session)
+        )
+
+        if (bestRoom != null) {
+            this.roomHandler.joinRoom(sourceConn, bestRoom)
+            return true
+        }
+
+        const options: IRoomOptions = {}
+
+        if (quickStartPkt.gameModeId !== QUICKSTART_ANY_GAMEMODE) {
+            options.gameModeId = quickStartPkt.gameModeId
+        }
+
+        this.roomHandler.createRoomFor(sourceConn, channel, options)
+
+        return true
+    }
+
+    /**
+     * find the best room for an user to join
+     * @param channel the user's channel
+     * @param gameModeId the preferred gamemode, or QUICKSTART_ANY_GAMEMODE
+     * @param requiredSlots how many free slots the room must have
+     * @returns the best room, or null if none can be joined
+     */
+    private FindBestRoom(
+        channel: Channel,
+        gameModeId: number,
+        requiredSlots: number
+    ): Room {
+        const joinableRooms: Room[] = channel.rooms.filter(
+            (r: Room) =>
+                r.isRanked === false &&
+                r.IsPasswordProtected() === false &&
+                r.hasFreeSlots() === true &&
+                r.getFreeSlots() >= requiredSlots &&
+                r.isGlobalCountdownInProgress() === false &&
+                (r.getStatus() === RoomStatus.Waiting ||
+                    r.getStatus() === RoomStatus.Ingame) &&
+                (gameModeId === QUICKSTART_ANY_GAMEMODE ||
+                    r.settings.gameModeId === gameModeId)
+        )
+
+        if (joinableRooms.length === 0) {
+            return null
+        }
+
+        joinableRooms.sort((a: Room, b: Room) =>
+            QuickStartHandler.compareRooms(a, b)
+        )
+
+        return joinableRooms[0]
+    }
+
+    /**
+     * the ammount of slots needed by an user, including its party if it leads one
+     * @param session the user's session
+     * @returns the required slots
+     */
+    private GetRequiredSlots(session: UserSession): number {
+        const party: Party = session.currentParty
+
+        if (party == null || party.isLeader(session.user.id) === false) {
+            return 1
+        }
+
+        return party.members.filter(
+            (c: ExtendedSocket) =>
+                c.session.currentChannel === session.currentChannel
+        ).length
+    }
+}
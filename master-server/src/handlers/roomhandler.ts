@@ -3,7 +3,8 @@ import { ChannelManager } from 'channel/channelmanager'
 
 import { ExtendedSocket } from 'extendedsocket'
 
-import { Room, RoomReadyStatus, RoomStatus } from 'room/room'
+import { Party } from 'party/party'
+import { IRoomOptions, Room, RoomReadyStatus, RoomStatus } from 'room/room'
 
 import { UserSession } from 'user/usersession'
 
@@ -84,6 +85,68 @@ export class RoomHandler {
         ).getChannelByIndex(channelIndex)
     }
 
+    /**
+     * creates a room in a channel with an user as its host
+     * the user's party follows it into the new room
+     * @param sourceConn the host's connection
+     * @param channel the channel where the room will be created
+     * @param options the new room's options
+     * @returns the new room
+     */
+    public createRoomFor(
+        sourceConn: ExtendedSocket,
+        channel: Channel,
+        options: IRoomOptions
+    ): Room {
+        const session: UserSession = sourceConn.session
+
+        const newRoom: Room = channel.createRoom(
+            session.user.id,
+            sourceConn,
+            options
+        )
+
+        session.currentRoom = newRoom
+
+        newRoom.sendJoinNewRoom(session.user.id)
+        newRoom.sendRoomSettingsTo(session.user.id)
+
+        console.log(
+            `user ID ${session.user.id} created a new room. name: "${newRoom.settings.roomName}" (id: ${newRoom.id})`
+        )
+
+        this.bringPartyToRoom(sourceConn, newRoom)
+
+        return newRoom
+    }
+
+    /**
+     * puts an user in an existing room
+     * the user's party follows it into the room
+     * @param sourceConn the user's connection
+     * @param room the room to join
+     */
+    public joinRoom(sourceConn: ExtendedSocket, room: Room): void {
+        const session: UserSession = sourceConn.session
+
+        room.addUser(session.user.id, sourceConn)
+        session.currentRoom = room
+
+        room.sendJoinNewRoom(session.user.id)
+        room.sendRoomSettingsTo(session.user.id)
+
+        room.updateNewPlayerReadyStatus(session.user.id)
+
+        console.log(
+            'user id %i joined a room. room name: "%s" room id: %i',
+            session.user.id,
+            room.settings.roomName,
+            room.id
+        )
+
+        this.bringPartyToRoom(sourceConn, room)
+    }
+
     /**
      * called when the user requests to create a new room
      * @param roomPacket the incoming packet
@@ -126,7 +189,7 @@ export class RoomHandler {
             return false
         }
 
-        const newRoom: Room = channel.createRoom(session.user.id, sourceConn, {
+        this.createRoomFor(sourceConn, channel, {
             gameModeId: newRoomReq.gameModeId,
             killLimit: newRoomReq.killLimit,
             mapId: newRoomReq.mapId,
@@ -135,15 +198,6 @@ export class RoomHandler {
             winLimit: newRoomReq.winLimit
         })
 
-        session.currentRoom = newRoom
-
-        newRoom.sendJoinNewRoom(session.user.id)
-        newRoom.sendRoomSettingsTo(session.user.id)
-
-        console.log(
-            `user ID ${session.user.id} created a new room. name: "${newRoom.settings.roomName}" (id: ${newRoom.id})`
-        )
-
         return true
     }
 
@@ -182,54 +236,141 @@ export class RoomHandler {
             return false
         }
 
-        if (desiredRoom.hasFreeSlots() === false) {
-            this.SendUserDialogBox(sourceConn, GAME_ROOM_JOIN_FAILED_FULL)
+        if (
+            this.canJoinRoom(sourceConn, desiredRoom, joinReq.roomPassword) ===
+            false
+        ) {
+            return false
+        }
+
+        this.joinRoom(sourceConn, desiredRoom)
+
+        return true
+    }
+
+    /**
+     * checks if an user can join a room, and tells it why if it can't
+     * @param conn the user's connection
+     * @param room the room to join
+     * @param password the password the user sent, null if none
+     * @returns true if it can, false if not
+     */
+    private canJoinRoom(
+        conn: ExtendedSocket,
+        room: Room,
+        password: string
+    ): boolean {
+        const session: UserSession = conn.session
+
+        if (room.isRanked === true) {
+            this.SendUserDialogBox(conn, GAME_ROOM_JOIN_FAILED_CLOSED)
+
+            console.warn(
+                'user ID %i tried to join a ranked room. room id: %i',
+                session.user.id,
+                room.id
+            )
+            return false
+        }
+
+        if (room.hasFreeSlots() === false) {
+            this.SendUserDialogBox(conn, GAME_ROOM_JOIN_FAILED_FULL)
 
             console.warn(
                 'user ID %i tried to join a full room. room name "%s" room id: %i',
                 session.user.id,
-                desiredRoom.settings.roomName,
-                desiredRoom.id
+                room.settings.roomName,
+                room.id
             )
             return false
         }
 
         if (
-            desiredRoom.IsPasswordProtected() === true &&
-            desiredRoom.ComparePassword(joinReq.roomPassword) === false
+            room.IsPasswordProtected() === true &&
+            room.ComparePassword(password) === false
         ) {
-            this.SendUserDialogBox(
-                sourceConn,
-                GAME_ROOM_JOIN_FAILED_BAD_PASSWORD
-            )
+            this.SendUserDialogBox(conn, GAME_ROOM_JOIN_FAILED_BAD_PASSWORD)
 
             console.warn(
                 'user ID %i tried to join a password protected room with wrong password "%s", really password: "%s". room name "%s" room id: %i',
                 session.user.id,
-                joinReq.roomPassword,
-                desiredRoom.settings.roomPassword,
-                desiredRoom.settings.roomName,
-                desiredRoom.id
+                password,
+                room.settings.roomPassword,
+                room.settings.roomName,
+                room.id
             )
             return false
         }
 
-        desiredRoom.addUser(session.user.id, sourceConn)
-        session.currentRoom = desiredRoom
+        return true
+    }
 
-        desiredRoom.sendJoinNewRoom(session.user.id)
-        desiredRoom.sendRoomSettingsTo(session.user.id)
+    /**
+     * moves a party leader's party members into the leader's new room
+     * the members only follow if there are enough free slots for all of them,
+     * and each of them must be able to join the room on its own
+     * @param leaderConn the party leader's connection
+     * @param room the room the leader joined
+     */
+    private bringPartyToRoom(leaderConn: ExtendedSocket, room: Room): void {
+        const session: UserSession = leaderConn.session
+        const party: Party = session.currentParty
 
-        desiredRoom.updateNewPlayerReadyStatus(session.user.id)
+        // ranked rooms are only filled by the matchmaking queue
+        if (
+            party == null ||
+            party.isLeader(session.user.id) === false ||
+            room.isRanked === true
+        ) {
+            return
+        }
 
-        console.log(
-            'user id %i joined a room. room name: "%s" room id: %i',
-            session.user.id,
-            desiredRoom.settings.roomName,
-            desiredRoom.id
+        // members in another channel, a ranked room or a room in the middle
+        // of a match stay behind
+        const followers: ExtendedSocket[] = party.members.filter(
+            (c: ExtendedSocket) =>
+                c !== leaderConn &&
+                c.session.currentChannel === session.currentChannel &&
+                c.session.currentRoom !== room &&
+                (c.session.currentRoom == null ||
+                    (c.session.currentRoom.isRanked === false &&
+                        c.session.currentRoom.getStatus() !==
+                            RoomStatus.Ingame))
         )
 
-        return true
+        if (followers.length === 0) {
+            return
+        }
+
+        if (room.getFreeSlots() < followers.length) {
+            party.broadcastSystemMessage(
+                `There aren't enough free slots in ${session.user.playername}'s room for the whole party.`
+            )
+            return
+        }
+
+        for (const follower of followers) {
+            const followerSession: UserSession = follower.session
+
+            // the followers don't know the room's password
+            if (this.canJoinRoom(follower, room, null) === false) {
+                continue
+            }
+
+            if (followerSession.currentRoom != null) {
+                followerSession.currentRoom.removeUser(followerSession.user.id)
+                followerSession.currentRoom = null
+            }
+
+            this.joinRoom(follower, room)
+
+            console.log(
+                'user id %i followed its party leader to room "%s" room id: %i',
+                followerSession.user.id,
+                room.settings.roomName,
+                room.id
+            )
+        }
     }
 
     /**
@@ -408,6 +549,13 @@ room name "${currentRoom.settings.roomName}" room id: ${currentRoom.id}`
             return false
         }
 
+        if (currentRoom.isRanked === true) {
+            console.warn(
+                `user ID ${session.user.id} tried to update a ranked room's settings. room id: ${currentRoom.id}`
+            )
+            return false
+        }
+
         if (currentRoom.isGlobalCountdownInProgress()) {
             console.warn(
                 `user ID ${session.user.id} tried to update a room's settings, although a countdown is in progress.
@@ -477,6 +625,15 @@ room name "${currentRoom.settings.roomName}" room id: ${currentRoom.id}`
             return false
         }
 
+        if (currentRoom.isRanked === true) {
+            this.SendUserSystemMsg(sourceConn, GAME_ROOM_CHANGETEAM_FAILED)
+
+            console.warn(
+                `user ID ${session.user.id} tried change team in ranked room ${currentRoom.id}`
+            )
+            return false
+        }
+
         if (
             currentRoom.settings.areBotsEnabled &&
             session.user.id !== currentRoom.host.userId
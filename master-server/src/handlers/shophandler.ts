@@ -0,0 +1,209 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { ChatMessageType, ShopPacketType } from 'packets/definitions'
+
+import { InShopPacket } from 'packets/in/shop'
+import { InShopBuyItem } from 'packets/in/shop/buyitem'
+
+import { OutChatPacket } from 'packets/out/chat'
+import { OutInventoryPacket } from 'packets/out/inventory'
+import { OutShopPacket } from 'packets/out/shop'
+import { OutUserInfoPacket } from 'packets/out/userinfo'
+
+import { ShopCurrency } from 'gametypes/shopitem'
+
+import { ShopCatalog } from 'shop/shopcatalog'
+
+import { User } from 'user/user'
+import { UserInventory } from 'user/userinventory'
+import { UserInventoryItem } from 'user/userinventoryitem'
+
+import { UserCurrencies, UserService } from 'services/userservice'
+
+import {
+    GAME_SHOP_BUY_FAILED,
+    GAME_SHOP_NOT_ENOUGH_CASH,
+    GAME_SHOP_NOT_ENOUGH_MPOINTS,
+    GAME_SHOP_NOT_ENOUGH_POINTS
+} from 'gamestrings'
+
+/**
+ * handles incoming shop type packets
+ */
+export class ShopHandler {
+    public async OnPacket(
+        packetData: Buffer,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const shopPacket = new InShopPacket(packetData)
+
+        if (conn.session == null) {
+            console.warn(
+                `connection ${conn.uuid} sent a Shop packet without a session`
+            )
+            return false
+        }
+
+        switch (shopPacket.packetType) {
+            case ShopPacketType.RequestList:
+                conn.send(OutShopPacket.createShop(ShopCatalog.getItems()))
+                return true
+            case ShopPacketType.BuyItem:
+                return this.OnBuyItem(shopPacket, conn)
+        }
+
+        console.warn(
+            // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+            `ShopHandler::OnPacket: unknown packet type ${shopPacket.packetType}`
+        )
+
+        return false
+    }
+
+    private async OnBuyItem(
+        shopPacket: InShopPacket,
+        conn: ExtendedSocket
+    ): Promise<boolean> {
+        const buyData = new InShopBuyItem(shopPacket)
+
+        const user: User = conn.session.user
+        const entry = ShopCatalog.getPayOption(buyData.payOptionId)
+
+        if (entry == null) {
+            console.warn(
+                `user ${user.id} tried to buy with an unknown payment option ${buyData.payOptionId}`
+            )
+            this.SendUserDialogBox(conn, GAME_SHOP_BUY_FAILED)
+            return false
+        }
+
+        const { item, option } = entry
+        const charge = this.GetCharge(item.payCurrency, option.price)
+
+        if (charge == null || this.CanAfford(user, charge) === false) {
+            console.warn(
+                `user ${user.id} can't afford item ${item.itemId} (price: ${option.price})`
+            )
+            this.SendUserDialogBox(
+                conn,
+                this.GetNotEnoughFundsMsg(item.payCurrency)
+            )
+            return false
+        }
+
+        charge.mpoints += option.mileageReward
+
+        // charged by the user service, the cached balance may be outdated
+        const charged: UserCurrencies = await UserService.AddCurrencies(
+            charge,
+            user.id
+        )
+
+        if (charged == null) {
+            console.warn(`Failed to charge user ${user.id} for ${item.itemId}`)
+            this.SendUserDialogBox(conn, GAME_SHOP_BUY_FAILED)
+            return false
+        }
+
+        const added = await UserInventory.addItem(
+            user.id,
+            item.itemId,
+            option.quantity
+        )
+
+        if (added === false) {
+            console.warn(
+                `Failed to add item ${item.itemId} to user ${user.id}'s inventory, refunding`
+            )
+            const refunded: UserCurrencies = await UserService.AddCurrencies(
+                {
+                    points: -charge.points,
+                    cash: -charge.cash,
+                    mpoints: -charge.mpoints
+                },
+                user.id
+            )
+            Object.assign(user, refunded != null ? refunded : charged)
+            this.SendUserDialogBox(conn, GAME_SHOP_BUY_FAILED)
+            return false
+        }
+
+        // the cached user may not be the same object as the session's
+        Object.assign(user, charged)
+
+        conn.send(
+            OutInventoryPacket.addInventory([
+                new UserInventoryItem(item.itemId, option.quantity)
+            ])
+        )
+        conn.send(OutUserInfoPacket.updateCurrencies(user))
+
+        console.log(
+            `user ${user.id} bought item ${item.itemId} for ${option.price} (currency ${item.payCurrency})`
+        )
+
+        return true
+    }
+
+    /**
+     * builds the amounts charged to an user for a price
+     * @param currency the currency to pay with
+     * @param price the ammount to be paid
+     * @returns the amount to add to each currency, null if the currency is unknown
+     */
+    private GetCharge(currency: ShopCurrency, price: number): UserCurrencies {
+        const charge: UserCurrencies = {
+            points: 0,
+            cash: 0,
+            mpoints: 0
+        }
+
+        switch (currency) {
+            case ShopCurrency.Credits:
+                charge.cash -= price
+                break
+            case ShopCurrency.Points:
+                charge.points -= price
+                break
+            case ShopCurrency.Mileage:
+                charge.mpoints -= price
+                break
+            default:
+                return null
+        }
+
+        return charge
+    }
+
+    /**
+     * checks a charge against the user's known currencies
+     * the user service checks it again when charging
+     * @param user the paying user
+     * @param charge the amount to add to each currency
+     * @returns true if the user can afford it, false if not
+     */
+    private CanAfford(user: User, charge: UserCurrencies): boolean {
+        return (
+            user.points + charge.points >= 0 &&
+            user.cash + charge.cash >= 0 &&
+            user.mpoints + charge.mpoints >= 0
+        )
+    }
+
+    private GetNotEnoughFundsMsg(currency: ShopCurrency): string {
+        switch (currency) {
+            case ShopCurrency.Credits:
+                return GAME_SHOP_NOT_ENOUGH_CASH
+            case ShopCurrency.Points:
+                return GAME_SHOP_NOT_ENOUGH_POINTS
+            case ShopCurrency.Mileage:
+                return GAME_SHOP_NOT_ENOUGH_MPOINTS
+        }
+
+        return GAME_SHOP_BUY_FAILED
+    }
+
+    private SendUserDialogBox(conn: ExtendedSocket, msg: string): void {
+        conn.send(OutChatPacket.systemMessage(msg, ChatMessageType.DialogBox))
+    }
+}
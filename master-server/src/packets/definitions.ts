@@ -48,6 +48,17 @@ export enum AchievementPacketType {
     Boss = 4
 }
 
+export enum AutomatchPacketType {
+    Queue = 0,
+    Cancel = 1,
+    Status = 2 // sent by the server only
+}
+
+export enum BanPacketType {
+    Kick = 0,
+    Ban = 1
+}
+
 export enum ChatMessageType {
     DirectMessage = 0, // also known as whisper
     Channel = 1,
@@ -71,6 +82,17 @@ export enum FavoritePacketType {
     SetCosmetics = 1
 }
 
+export enum FriendPacketType {
+    List = 0,
+    Request = 1,
+    Accept = 2,
+    Decline = 3,
+    Remove = 4,
+    Block = 5,
+    Unblock = 6,
+    Update = 7 // outgoing only
+}
+
 export enum HostPacketType {
     GameStart = 0, // when a host starts a new game
     HostJoin = 1, // when someone joins some host's game
@@ -94,10 +116,27 @@ export enum HostPacketType {
     SetBuyMenu = 111
 }
 
+export enum MailPacketType {
+    UnreadCount = 0,
+    List = 1,
+    Read = 2,
+    Delete = 3,
+    ClaimItem = 4
+}
+
 export enum OptionPacketType {
     SetBuyMenu = 1
 }
 
+export enum ShopPacketType {
+    RequestList = 0,
+    BuyItem = 1
+}
+
+export enum UnlockPacketType {
+    Info = 1
+}
+
 export enum MissionCampaignIds {
     Campaign_0 = 1,
     Campaign_1 = 8 << 0,
@@ -19,6 +19,8 @@ export class InHolepunchPacketUdp {
     public portId: number
     public ipAddress: string
     public port: number
+    // the session's holepunch token, null if the client didn't send it
+    public token: number
 
     private packetData: Buffer
     private curOffset: number
@@ -70,6 +72,9 @@ export class InHolepunchPacketUdp {
             this.ipAddress = ip.fromLong(fixedIp)
 
             this.port = this.readUInt16()
+
+            // only sent by the clients that know about holepunch tokens
+            this.token = this.canReadBytes(4) ? this.readUInt32() : null
         }
     }
 
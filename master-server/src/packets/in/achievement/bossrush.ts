@@ -0,0 +1,12 @@
+import { InPacketBase } from 'packets/in/packet'
+
+/**
+ * incoming request of an user's zombie boss rush status
+ */
+export class InAchievementGetBossRushData {
+    public bossRushId: number
+
+    constructor(inPacket: InPacketBase) {
+        this.bossRushId = inPacket.readUInt16()
+    }
+}
@@ -0,0 +1,20 @@
+import { InPacketBase } from 'packets/in/packet'
+
+import { AutomatchPacketType } from 'packets/definitions'
+
+/**
+ * incoming ranked matchmaking packet
+ * @class InAutomatchPacket
+ */
+export class InAutomatchPacket extends InPacketBase {
+    public packetType: AutomatchPacketType
+
+    /**
+     * parses the packet's data
+     */
+    protected parse(): void {
+        super.parse()
+
+        this.packetType = this.readUInt8()
+    }
+}
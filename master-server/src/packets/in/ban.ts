@@ -0,0 +1,34 @@
+import { InPacketBase } from 'packets/in/packet'
+
+import { BanPacketType } from 'packets/definitions'
+
+/**
+ * a GM's request to kick or ban an user
+ * @class InBanPacket
+ */
+export class InBanPacket extends InPacketBase {
+    public packetType: BanPacketType
+    public targetName: string
+    // only sent in bans, 0 if the ban is permanent
+    public durationMinutes: number
+    // only sent in bans, also bans the user's IP address if true
+    public banIpAddress: boolean
+    public reason: string
+
+    /**
+     * parses the packet's data
+     */
+    protected parse(): void {
+        super.parse()
+
+        this.packetType = this.readUInt8()
+        this.targetName = this.readString()
+
+        if (this.packetType === BanPacketType.Ban) {
+            this.durationMinutes = this.readUInt32()
+            this.banIpAddress = this.readUInt8() !== 0
+        }
+
+        this.reason = this.readLongString()
+    }
+}
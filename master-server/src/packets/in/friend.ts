@@ -0,0 +1,20 @@
+import { InPacketBase } from 'packets/in/packet'
+
+import { FriendPacketType } from 'packets/definitions'
+
+/**
+ * incoming friend packet
+ * @class InFriendPacket
+ */
+export class InFriendPacket extends InPacketBase {
+    public packetType: FriendPacketType
+
+    /**
+     * parses the packet's data
+     */
+    protected parse(): void {
+        super.parse()
+
+        this.packetType = this.readUInt8()
+    }
+}
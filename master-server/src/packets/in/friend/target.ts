@@ -0,0 +1,13 @@
+import { InPacketBase } from 'packets/in/packet'
+
+/**
+ * incoming friend request, accept, decline, remove, block or unblock
+ * @class InFriendTarget
+ */
+export class InFriendTarget {
+    public playerName: string
+
+    constructor(inPacket: InPacketBase) {
+        this.playerName = inPacket.readString()
+    }
+}
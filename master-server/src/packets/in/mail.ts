@@ -0,0 +1,20 @@
+import { InPacketBase } from 'packets/in/packet'
+
+import { MailPacketType } from 'packets/definitions'
+
+/**
+ * incoming mailbox packet
+ * @class InMailPacket
+ */
+export class InMailPacket extends InPacketBase {
+    public packetType: MailPacketType
+
+    /**
+     * parses the packet's data
+     */
+    protected parse(): void {
+        super.parse()
+
+        this.packetType = this.readUInt8()
+    }
+}
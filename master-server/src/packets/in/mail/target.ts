@@ -0,0 +1,13 @@
+import { InPacketBase } from 'packets/in/packet'
+
+/**
+ * incoming request to read, delete or claim the item of a mail
+ * @class InMailTarget
+ */
+export class InMailTarget {
+    public mailId: number
+
+    constructor(inPacket: InPacketBase) {
+        this.mailId = inPacket.readUInt32()
+    }
+}
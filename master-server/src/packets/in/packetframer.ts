@@ -0,0 +1,59 @@
+import { PacketSignature } from 'packets/definitions'
+import { InPacketBase } from 'packets/in/packet'
+
+// the biggest packet (without its header) a client may send
+export const MAX_IN_PACKET_LENGTH = 0x4000
+
+/**
+ * splits a TCP stream into whole packets
+ * keeps the incomplete packets until the rest of their data arrives
+ * @class InPacketFramer
+ */
+export class InPacketFramer {
+    // the received data that isn't part of a whole packet yet
+    private pendingData: Buffer = Buffer.alloc(0)
+
+    /**
+     * add received data to the stream and take out its whole packets
+     * @param data the received data
+     * @returns the whole packets received so far,
+     * or null if the stream has a bad signature or a packet is too big
+     */
+    public push(data: Buffer): InPacketBase[] {
+        const stream: Buffer =
+            this.pendingData.length === 0
+                ? data
+                : Buffer.concat([this.pendingData, data])
+
+        const packets: InPacketBase[] = []
+        let offset = 0
+
+        while (stream.length - offset >= InPacketBase.headerLength) {
+            if (stream.readUInt8(offset) !== PacketSignature) {
+                return null
+            }
+
+            const length: number = stream.readUInt16LE(offset + 2)
+
+            // every packet must at least have its ID
+            if (length === 0 || length > MAX_IN_PACKET_LENGTH) {
+                return null
+            }
+
+            const packetEnd: number =
+                offset + InPacketBase.headerLength + length
+
+            if (packetEnd > stream.length) {
+                break
+            }
+
+            packets.push(new InPacketBase(stream.slice(offset, packetEnd)))
+            offset = packetEnd
+        }
+
+        // copy the leftover so the whole received chunk can be freed
+        this.pendingData = Buffer.from(stream.slice(offset))
+
+        return packets
+    }
+}
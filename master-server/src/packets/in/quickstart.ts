@@ -0,0 +1,21 @@
+import { InPacketBase } from 'packets/in/packet'
+
+// the gamemode sent when the user has no preferred gamemode
+export const QUICKSTART_ANY_GAMEMODE = 0
+
+/**
+ * an user's request to join the best open room in its channel
+ * @class InQuickStartPacket
+ */
+export class InQuickStartPacket extends InPacketBase {
+    public gameModeId: number
+
+    /**
+     * parses the packet's data
+     */
+    protected parse(): void {
+        super.parse()
+
+        this.gameModeId = this.readUInt8()
+    }
+}
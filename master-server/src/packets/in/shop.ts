@@ -0,0 +1,20 @@
+import { InPacketBase } from 'packets/in/packet'
+
+import { ShopPacketType } from 'packets/definitions'
+
+/**
+ * incoming shop packet
+ * @class InShopPacket
+ */
+export class InShopPacket extends InPacketBase {
+    public packetType: ShopPacketType
+
+    /**
+     * parses the packet's data
+     */
+    protected parse(): void {
+        super.parse()
+
+        this.packetType = this.readUInt8()
+    }
+}
@@ -0,0 +1,14 @@
+import { InPacketBase } from 'packets/in/packet'
+
+/**
+ * incoming request to buy an item from the shop
+ * @class InShopBuyItem
+ */
+export class InShopBuyItem {
+    // the payment option's index, as numbered by OutShopCreate
+    public payOptionId: number
+
+    constructor(inPacket: InPacketBase) {
+        this.payOptionId = inPacket.readUInt32()
+    }
+}
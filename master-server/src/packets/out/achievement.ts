@@ -3,6 +3,10 @@ import { WritableStreamBuffer } from 'stream-buffers'
 import { AchievementPacketType, PacketId } from 'packets/definitions'
 import { OutPacketBase } from 'packets/out/packet'
 
+import {
+    OutAchievementUpdateBossRush,
+    OutAchUpdBossRushOptions
+} from 'packets/out/achievement/updatebossrush'
 import {
     OutAchievementUpdateCampaign,
     OutAchUpdCampaignOptions
@@ -31,6 +35,25 @@ export class OutAchievementPacket extends OutPacketBase {
         return packet
     }
 
+    public static UpdateBossRush(
+        bossRushId: number,
+        options: OutAchUpdBossRushOptions = {}
+    ): OutAchievementPacket {
+        const packet: OutAchievementPacket = new OutAchievementPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 30,
+            incrementAmount: 15
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(AchievementPacketType.Boss)
+
+        OutAchievementUpdateBossRush.build(bossRushId, packet, options)
+
+        return packet
+    }
+
     constructor() {
         super(PacketId.Achievement)
     }
@@ -1,52 +1,112 @@
 import { OutPacketBase } from 'packets/out/packet'
 
+export interface OutAchUpdBossRushUnkItem {
+    unk: number
+    unk2: number
+    unk3: number
+}
+
+// TODO: only the fields we fill in have been seen in game,
+// the meaning of the others is still unknown
+export interface OutAchUpdBossRushOptions {
+    bestWave?: number
+    bestClearTime?: number
+    bossesDefeated?: number
+    unk?: number
+    clears?: number
+    unk2?: number
+    unkItems?: OutAchUpdBossRushUnkItem[]
+    unk3?: number
+}
+
 /**
  * sends out the user's updated zombie rush boss data
  */
 export class OutAchievementUpdateBossRush {
-    public static build(outPacket: OutPacketBase): void {
-        outPacket.writeUInt16(1) // id
+    public static build(
+        bossRushId: number,
+        outPacket: OutPacketBase,
+        options: OutAchUpdBossRushOptions = {}
+    ): void {
+        outPacket.writeUInt16(bossRushId)
 
-        const flags = 0xff
+        const flags = this.getFlagsFor(options)
         outPacket.writeUInt32(flags)
 
         if (flags & 0x1) {
-            outPacket.writeUInt16(0)
+            outPacket.writeUInt16(options.bestWave)
         }
 
         if (flags & 0x2) {
-            outPacket.writeUInt32(0)
+            outPacket.writeUInt32(options.bestClearTime) // in seconds
         }
 
         if (flags & 0x4) {
-            outPacket.writeUInt16(0)
+            outPacket.writeUInt16(options.bossesDefeated)
         }
 
         if (flags & 0x8) {
-            outPacket.writeUInt16(0)
+            outPacket.writeUInt16(options.unk)
         }
 
         if (flags & 0x10) {
-            outPacket.writeUInt32(0)
+            outPacket.writeUInt32(options.clears)
         }
 
         if (flags & 0x20) {
-            outPacket.writeUInt32(0)
+            outPacket.writeUInt32(options.unk2)
         }
 
         if (flags & 0x40) {
-            const arrayLen = 0
-            outPacket.writeUInt8(0)
+            outPacket.writeUInt8(options.unkItems.length)
 
-            for (let i = 0; i < arrayLen; i++) {
-                outPacket.writeUInt32(0)
-                outPacket.writeUInt16(0)
-                outPacket.writeUInt16(0)
+            for (const item of options.unkItems) {
+                outPacket.writeUInt32(item.unk)
+                outPacket.writeUInt16(item.unk2)
+                outPacket.writeUInt16(item.unk3)
             }
         }
 
         if (flags & 0x80) {
-            outPacket.writeUInt16(0)
+            outPacket.writeUInt16(options.unk3)
+        }
+    }
+
+    private static getFlagsFor(options: OutAchUpdBossRushOptions): number {
+        let outFlags = 0
+
+        if (options.bestWave != null) {
+            outFlags |= 0x1
+        }
+
+        if (options.bestClearTime != null) {
+            outFlags |= 0x2
+        }
+
+        if (options.bossesDefeated != null) {
+            outFlags |= 0x4
         }
+
+        if (options.unk != null) {
+            outFlags |= 0x8
+        }
+
+        if (options.clears != null) {
+            outFlags |= 0x10
+        }
+
+        if (options.unk2 != null) {
+            outFlags |= 0x20
+        }
+
+        if (options.unkItems != null) {
+            outFlags |= 0x40
+        }
+
+        if (options.unk3 != null) {
+            outFlags |= 0x80
+        }
+
+        return outFlags
     }
 }
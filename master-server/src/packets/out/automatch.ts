@@ -0,0 +1,38 @@
+import { WritableStreamBuffer } from 'stream-buffers'
+
+import { AutomatchPacketType, PacketId } from 'packets/definitions'
+import { OutPacketBase } from 'packets/out/packet'
+
+/**
+ * outgoing ranked matchmaking information
+ * @class OutAutomatchPacket
+ */
+export class OutAutomatchPacket extends OutPacketBase {
+    /**
+     * tells an user if it is waiting for a ranked match
+     * @param isQueued true if the user is in the queue
+     * @param queueSize how many users are waiting in the user's channel
+     */
+    public static status(
+        isQueued: boolean,
+        queueSize: number
+    ): OutAutomatchPacket {
+        const packet: OutAutomatchPacket = new OutAutomatchPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 10,
+            incrementAmount: 5
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(AutomatchPacketType.Status)
+        packet.writeUInt8(isQueued ? 1 : 0)
+        packet.writeUInt16(queueSize)
+
+        return packet
+    }
+
+    constructor() {
+        super(PacketId.Automatch)
+    }
+}
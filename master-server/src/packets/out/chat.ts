@@ -124,6 +124,72 @@ export class OutChatPacket extends OutPacketBase {
         return packet
     }
 
+    public static clanMessage(
+        sender: string,
+        vipLevel: number,
+        isGm: boolean,
+        message: string
+    ): OutChatPacket {
+        const packet: OutChatPacket = new OutChatPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 32,
+            incrementAmount: 64
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(ChatMessageType.Clan)
+        packet.writeUInt8(isGm ? 1 : 0) // is GM?
+
+        OutChatDefaultMsg.build(sender, vipLevel, message, packet)
+
+        return packet
+    }
+
+    public static partyMessage(
+        sender: string,
+        vipLevel: number,
+        isGm: boolean,
+        message: string
+    ): OutChatPacket {
+        const packet: OutChatPacket = new OutChatPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 32,
+            incrementAmount: 64
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(ChatMessageType.Party)
+        packet.writeUInt8(isGm ? 1 : 0) // is GM?
+
+        OutChatDefaultMsg.build(sender, vipLevel, message, packet)
+
+        return packet
+    }
+
+    public static ingamePartyMessage(
+        sender: string,
+        vipLevel: number,
+        isGm: boolean,
+        message: string
+    ): OutChatPacket {
+        const packet: OutChatPacket = new OutChatPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 32,
+            incrementAmount: 64
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(ChatMessageType.IngameParty)
+        packet.writeUInt8(isGm ? 1 : 0) // is GM?
+
+        OutChatDefaultMsg.build(sender, vipLevel, message, packet)
+
+        return packet
+    }
+
     public static systemMessage(
         message: string,
         type: ChatMessageType
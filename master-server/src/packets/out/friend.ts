@@ -0,0 +1,69 @@
+import { WritableStreamBuffer } from 'stream-buffers'
+
+import { FriendPacketType, PacketId } from 'packets/definitions'
+import { OutPacketBase } from 'packets/out/packet'
+
+import { OutFriendEntry } from 'packets/out/friend/entry'
+
+import { FriendInfo } from 'gametypes/friendinfo'
+
+/**
+ * outgoing friend list information
+ * @class OutFriendPacket
+ */
+export class OutFriendPacket extends OutPacketBase {
+    public static list(friends: FriendInfo[]): OutFriendPacket {
+        const packet: OutFriendPacket = new OutFriendPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 40,
+            incrementAmount: 20
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(FriendPacketType.List)
+
+        packet.writeUInt16(friends.length)
+
+        for (const friend of friends) {
+            OutFriendEntry.build(friend, packet)
+        }
+
+        return packet
+    }
+
+    public static update(friend: FriendInfo): OutFriendPacket {
+        const packet: OutFriendPacket = new OutFriendPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 30,
+            incrementAmount: 10
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(FriendPacketType.Update)
+
+        OutFriendEntry.build(friend, packet)
+
+        return packet
+    }
+
+    public static remove(userId: number): OutFriendPacket {
+        const packet: OutFriendPacket = new OutFriendPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 10,
+            incrementAmount: 5
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(FriendPacketType.Remove)
+        packet.writeUInt32(userId)
+
+        return packet
+    }
+
+    constructor() {
+        super(PacketId.Friend)
+    }
+}
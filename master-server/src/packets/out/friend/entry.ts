@@ -0,0 +1,19 @@
+import { OutPacketBase } from 'packets/out/packet'
+
+import { FriendInfo } from 'gametypes/friendinfo'
+
+/**
+ * a friend's status and location
+ * @class OutFriendEntry
+ */
+export class OutFriendEntry {
+    public static build(friend: FriendInfo, outPacket: OutPacketBase): void {
+        outPacket.writeUInt32(friend.userId)
+        outPacket.writeString(friend.playerName)
+        outPacket.writeUInt8(friend.status)
+        outPacket.writeUInt8(friend.isIncoming ? 1 : 0)
+        outPacket.writeUInt8(friend.isOnline ? 1 : 0)
+        outPacket.writeUInt8(friend.channelIndex)
+        outPacket.writeUInt16(friend.roomId)
+    }
+}
@@ -0,0 +1,53 @@
+import { WritableStreamBuffer } from 'stream-buffers'
+
+import { MailPacketType, PacketId } from 'packets/definitions'
+import { OutPacketBase } from 'packets/out/packet'
+
+import { OutMailEntry } from 'packets/out/mail/entry'
+
+import { UserMail } from 'user/usermail'
+
+/**
+ * outgoing mailbox information
+ * @class OutMailPacket
+ */
+export class OutMailPacket extends OutPacketBase {
+    public static unreadCount(count: number): OutMailPacket {
+        const packet: OutMailPacket = new OutMailPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 10,
+            incrementAmount: 5
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(MailPacketType.UnreadCount)
+        packet.writeUInt8(count)
+
+        return packet
+    }
+
+    public static list(mails: UserMail[]): OutMailPacket {
+        const packet: OutMailPacket = new OutMailPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 80,
+            incrementAmount: 40
+        })
+
+        packet.buildHeader()
+        packet.writeUInt8(MailPacketType.List)
+
+        packet.writeUInt16(mails.length)
+
+        for (const mail of mails) {
+            OutMailEntry.build(mail, packet)
+        }
+
+        return packet
+    }
+
+    constructor() {
+        super(PacketId.UnReaded_Message)
+    }
+}
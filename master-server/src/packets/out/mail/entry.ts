@@ -0,0 +1,20 @@
+import { OutPacketBase } from 'packets/out/packet'
+
+import { UserMail } from 'user/usermail'
+
+/**
+ * a mail from an user's mailbox
+ * @class OutMailEntry
+ */
+export class OutMailEntry {
+    public static build(mail: UserMail, outPacket: OutPacketBase): void {
+        outPacket.writeUInt32(mail.id)
+        outPacket.writeString(mail.sender_name)
+        outPacket.writeLongString(mail.message)
+        outPacket.writeUInt32(mail.item_id)
+        outPacket.writeUInt16(mail.item_ammount)
+        outPacket.writeUInt8(mail.is_read ? 1 : 0)
+        // in seconds since the epoch
+        outPacket.writeUInt32(Math.floor(Date.parse(mail.sent_at) / 1000))
+    }
+}
@@ -22,8 +22,8 @@ export class ServerListChannelInfo {
         this.unk00 = 4
         this.unk01 = 0x1f4
         this.unk02 = 1
-        this.ChannelType = ChannelTypes.Free
-        this.ChannelStatus = ChannelStatuses.Normal
+        this.ChannelType = channel.type
+        this.ChannelStatus = channel.getStatus()
     }
 
     public build(outPacket: OutPacketBase): void {
@@ -16,7 +16,7 @@ export class OutChannelServerItem {
     private channels: ServerListChannelInfo[]
 
     constructor(channelServer: ChannelServer) {
-        this.serverIndex = 1
+        this.serverIndex = channelServer.index
         this.serverStatus = 1
         this.serverType = 1
         this.serverName = channelServer.name
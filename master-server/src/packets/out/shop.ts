@@ -1,6 +1,6 @@
 import { WritableStreamBuffer } from 'stream-buffers'
 
-import { PacketId } from 'packets/definitions'
+import { PacketId, ShopPacketType } from 'packets/definitions'
 import { ShopItem } from 'gametypes/shopitem'
 
 import { OutPacketBase } from 'packets/out/packet'
@@ -16,7 +16,7 @@ export class OutShopPacket extends OutPacketBase {
         })
 
         packet.buildHeader()
-        packet.writeUInt8(0)
+        packet.writeUInt8(ShopPacketType.RequestList)
 
         OutShopCreate.build(items, packet)
 
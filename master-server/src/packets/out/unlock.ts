@@ -1,13 +1,27 @@
 import { WritableStreamBuffer } from 'stream-buffers'
 
-import { PacketId } from 'packets/definitions'
+import { PacketId, UnlockPacketType } from 'packets/definitions'
 
 import { OutPacketBase } from 'packets/out/packet'
 import { OutUnlockInfo } from 'packets/out/unlock/info'
 import { OutUnlockKills } from 'packets/out/unlock/killnum'
 
+import { UnlockItem } from 'gametypes/unlockitem'
+
+import { IUserWeaponKills } from 'user/userweaponkills'
+
 export class OutUnlockPacket extends OutPacketBase {
-    public static createUnlockInfo(): OutUnlockPacket {
+    /**
+     * builds the unlockable weapons list with an user's progress
+     * @param unlocks the unlockable weapons
+     * @param weaponKills the user's kills with each weapon
+     * @param unlockedIds the IDs of the unlocks the user has
+     */
+    public static createUnlockInfo(
+        unlocks: UnlockItem[],
+        weaponKills: IUserWeaponKills[],
+        unlockedIds: number[]
+    ): OutUnlockPacket {
         const packet = new OutUnlockPacket()
 
         packet.outStream = new WritableStreamBuffer({
@@ -16,17 +30,21 @@ export class OutUnlockPacket extends OutPacketBase {
         })
 
         packet.buildHeader()
-        packet.writeUInt8(1)        //unk00, type ?
+        packet.writeUInt8(UnlockPacketType.Info)
 
         //build unlock weapons info
-        OutUnlockInfo.build(packet)
+        OutUnlockInfo.build(unlocks, packet)
 
         //build killNum
-        OutUnlockKills.build(packet)
+        OutUnlockKills.build(unlocks, weaponKills, packet)
 
         //build ID list
-        packet.writeUInt16(1)        //ID list array length,to be continued...
-        packet.writeUInt32(1)        //test item id
+        packet.writeUInt16(unlockedIds.length)
+
+        for (const unlockId of unlockedIds) {
+            packet.writeUInt32(unlockId)
+        }
+
         return packet
     }
 
@@ -1,13 +1,16 @@
 import { OutPacketBase } from 'packets/out/packet'
-import { UnlockItemList} from './unlockitem'
+
+import { UnlockItem } from 'gametypes/unlockitem'
 
 export class OutUnlockInfo {
-    public static build(outPacket: OutPacketBase): void {
-        outPacket.writeUInt16(UnlockItemList.length)
+    public static build(unlocks: UnlockItem[], outPacket: OutPacketBase): void {
+        outPacket.writeUInt16(unlocks.length)
 
-        for(const unlockitem of UnlockItemList){
-            unlockitem.build(outPacket)
+        for (const unlock of unlocks) {
+            outPacket.writeUInt32(unlock.itemId)
+            outPacket.writeUInt32(unlock.unlockId)
+            outPacket.writeUInt8(unlock.currency)
+            outPacket.writeUInt32(unlock.price)
         }
     }
 }
-
@@ -1,40 +1,43 @@
 import { OutPacketBase } from 'packets/out/packet'
+import { OutUnlockKillNumItem } from 'packets/out/unlock/killnumitem'
 
-export class OutUnlockKills {
-    public static build(outPacket: OutPacketBase): void {
-        outPacket.writeUInt16(1)        // length of the UnlockKillNum array
+import { UnlockItem } from 'gametypes/unlockitem'
 
-        let testKillnum = new UnlockKillNum(2,1,20,0,0)     // to test the packet 
-        testKillnum.build(outPacket)       //test
-    }
-}
+import { IUserWeaponKills } from 'user/userweaponkills'
 
-class UnlockKillNum{
-    private PreItemID:number        //previous weapon itemid
-    private ItemID:number           //current weapon itemid
-    private kills:number            //current weapon killnum
-    private unk00:number            //unkown size
-    private unk01:number            //unkown size
+export class OutUnlockKills {
+    /**
+     * builds the kills made towards each unlock's kill requirement
+     * @param unlocks the unlockable weapons
+     * @param weaponKills the user's kills with each weapon
+     * @param outPacket the packet where the data will go
+     */
+    public static build(
+        unlocks: UnlockItem[],
+        weaponKills: IUserWeaponKills[],
+        outPacket: OutPacketBase
+    ): void {
+        const killsByWeapon = new Map<number, number>(
+            weaponKills.map((w: IUserWeaponKills) => [w.weapon_id, w.kills])
+        )
+        const unlocksWithKills: UnlockItem[] = unlocks.filter(
+            (u: UnlockItem) => u.previousItemId !== 0
+        )
 
-    constructor(
-        PreItemID:number,
-        ItemID:number,
-        kills:number,
-        unk00:number,
-        unk01:number
-    ) {
-        this.PreItemID = PreItemID
-        this.ItemID = ItemID
-        this.kills = kills
-        this.unk00 = unk00
-        this.unk01 = unk01
-    }
+        outPacket.writeUInt16(unlocksWithKills.length) // length of the UnlockKillNum array
+
+        for (const unlock of unlocksWithKills) {
+            const kills: number = killsByWeapon.has(unlock.previousItemId)
+                ? killsByWeapon.get(unlock.previousItemId)
+                : 0
 
-    public build(outPacket: OutPacketBase):void{
-        outPacket.writeUInt32(this.PreItemID)
-        outPacket.writeUInt32(this.ItemID)
-        outPacket.writeUInt32(this.kills)
-        outPacket.writeUInt32(this.unk00)   //unk,maybe uint32
-        outPacket.writeUInt16(this.unk01)   //unk,maybe uint16
+            new OutUnlockKillNumItem(
+                unlock.previousItemId,
+                unlock.itemId,
+                kills,
+                0,
+                0
+            ).build(outPacket)
+        }
     }
-}
\ No newline at end of file
+}
@@ -61,6 +61,25 @@ export class OutUserInfoPacket extends OutPacketBase {
         return packet
     }
 
+    public static updateUnlockedAvatars(user: User): OutUserInfoPacket {
+        const packet: OutUserInfoPacket = new OutUserInfoPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 150,
+            incrementAmount: 20
+        })
+
+        packet.buildHeader()
+        packet.writeUInt32(user.id)
+
+        UserInfoDynamicUpdate.buildUnlockedAvatars(
+            user.unlocked_avatars,
+            packet
+        )
+
+        return packet
+    }
+
     public static updateSignature(user: User): OutUserInfoPacket {
         const packet: OutUserInfoPacket = new OutUserInfoPacket()
 
@@ -93,6 +112,65 @@ export class OutUserInfoPacket extends OutPacketBase {
         return packet
     }
 
+    public static updateUnlockedTitles(user: User): OutUserInfoPacket {
+        const packet: OutUserInfoPacket = new OutUserInfoPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 150,
+            incrementAmount: 20
+        })
+
+        packet.buildHeader()
+        packet.writeUInt32(user.id)
+
+        UserInfoDynamicUpdate.buildUnlockedTitles(user.unlocked_titles, packet)
+
+        return packet
+    }
+
+    public static updateCurrencies(user: User): OutUserInfoPacket {
+        const packet: OutUserInfoPacket = new OutUserInfoPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 40,
+            incrementAmount: 10
+        })
+
+        packet.buildHeader()
+        packet.writeUInt32(user.id)
+
+        UserInfoDynamicUpdate.buildCurrencies(
+            user.points,
+            user.cash,
+            user.mpoints,
+            packet
+        )
+
+        return packet
+    }
+
+    public static updateProgression(user: User): OutUserInfoPacket {
+        const packet: OutUserInfoPacket = new OutUserInfoPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 40,
+            incrementAmount: 10
+        })
+
+        packet.buildHeader()
+        packet.writeUInt32(user.id)
+
+        UserInfoDynamicUpdate.buildProgression(
+            user.level,
+            user.cur_xp,
+            user.max_xp,
+            user.points,
+            packet
+        )
+
+        return packet
+    }
+
     public static updateGameStats(user: User): OutUserInfoPacket {
         const packet: OutUserInfoPacket = new OutUserInfoPacket()
 
@@ -119,6 +197,45 @@ export class OutUserInfoPacket extends OutPacketBase {
         return packet
     }
 
+    public static updateAchievements(user: User): OutUserInfoPacket {
+        const packet: OutUserInfoPacket = new OutUserInfoPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 150,
+            incrementAmount: 20
+        })
+
+        packet.buildHeader()
+        packet.writeUInt32(user.id)
+
+        UserInfoDynamicUpdate.buildAchievements(
+            user.unlocked_achievements,
+            packet
+        )
+
+        return packet
+    }
+
+    public static updateBestGamemodeAndMap(user: User): OutUserInfoPacket {
+        const packet: OutUserInfoPacket = new OutUserInfoPacket()
+
+        packet.outStream = new WritableStreamBuffer({
+            initialSize: 20,
+            incrementAmount: 10
+        })
+
+        packet.buildHeader()
+        packet.writeUInt32(user.id)
+
+        UserInfoDynamicUpdate.buildBestGamemodeAndMap(
+            user.best_gamemode,
+            user.best_map,
+            packet
+        )
+
+        return packet
+    }
+
     constructor() {
         super(PacketId.UserInfo)
     }
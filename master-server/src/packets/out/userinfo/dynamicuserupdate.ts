@@ -1,3 +1,5 @@
+import { Uint64LE } from 'int64-buffer'
+
 import { OutPacketBase } from 'packets/out/packet'
 
 /**
@@ -56,6 +58,123 @@ export class UserInfoDynamicUpdate {
         outPacket.writeUInt16(newTitle)
     }
 
+    /**
+     * builds an update unlocked titles packet to send to the user
+     * @param unlockedTitles the user's unlocked titles bitset
+     * @param outPacket the packet where the data will go
+     */
+    public static buildUnlockedTitles(
+        unlockedTitles: number[],
+        outPacket: OutPacketBase
+    ): void {
+        outPacket.writeUInt32(0x20000)
+
+        // it must always be 128 bytes long
+        for (const elem of unlockedTitles) {
+            outPacket.writeUInt8(elem)
+        }
+    }
+
+    /**
+     * builds an update unlocked avatars packet to send to the user
+     * @param unlockedAvatars the user's unlocked avatars bitset
+     * @param outPacket the packet where the data will go
+     */
+    public static buildUnlockedAvatars(
+        unlockedAvatars: number[],
+        outPacket: OutPacketBase
+    ): void {
+        outPacket.writeUInt32(0x2000000)
+
+        // it must always be 128 bytes long
+        for (const elem of unlockedAvatars) {
+            outPacket.writeUInt8(elem)
+        }
+    }
+
+    /**
+     * builds an update currencies packet to send to the user
+     * @param points the new user's points amount
+     * @param cash the new user's cash amount
+     * @param mpoints the new user's mileage points amount
+     * @param outPacket the packet where the data will go
+     */
+    public static buildCurrencies(
+        points: number,
+        cash: number,
+        mpoints: number,
+        outPacket: OutPacketBase
+    ): void {
+        // points (0x20), cash (0x100) and mpoints (0x2000)
+        outPacket.writeUInt32(0x2120)
+
+        outPacket.writeUInt64(new Uint64LE(points)) // points
+        outPacket.writeUInt32(cash) // cash
+        outPacket.writeUInt32(0) // unk33
+        outPacket.writeUInt32(mpoints) // mpoints
+        outPacket.writeUInt64(new Uint64LE(0)) // unk47
+    }
+
+    /**
+     * builds an update level, experience and points packet to send to the user
+     * @param level the new user's level
+     * @param curXp the new user's experience in its current level
+     * @param maxXp the experience needed to complete the user's level
+     * @param points the new user's points amount
+     * @param outPacket the packet where the data will go
+     */
+    public static buildProgression(
+        level: number,
+        curXp: number,
+        maxXp: number,
+        points: number,
+        outPacket: OutPacketBase
+    ): void {
+        // level (0x4), experience (0x8) and points (0x20)
+        outPacket.writeUInt32(0x2c)
+
+        outPacket.writeUInt16(level) // level
+        outPacket.writeUInt64(new Uint64LE(curXp)) // curExp
+        outPacket.writeUInt64(new Uint64LE(maxXp)) // maxExp
+        outPacket.writeUInt32(0x313) // unk03
+        outPacket.writeUInt64(new Uint64LE(points)) // points
+    }
+
+    /**
+     * builds an update best gamemode and map packet to send to the user
+     * @param bestGamemode the new user's best gamemode
+     * @param bestMap the new user's best map
+     * @param outPacket the packet where the data will go
+     */
+    public static buildBestGamemodeAndMap(
+        bestGamemode: number,
+        bestMap: number,
+        outPacket: OutPacketBase
+    ): void {
+        outPacket.writeUInt32(0x100000)
+
+        outPacket.writeUInt32(bestGamemode) // best gamemode
+        outPacket.writeUInt32(bestMap) // best map
+    }
+
+    /**
+     * builds an update achievements packet to send to the user
+     * @param unlockedAchievements the user's unlocked achievements bitset
+     * @param outPacket the packet where the data will go
+     */
+    public static buildAchievements(
+        unlockedAchievements: number[],
+        outPacket: OutPacketBase
+    ): void {
+        outPacket.writeUInt32(0x400000)
+
+        // it must always be 128 bytes long
+        for (const elem of unlockedAchievements) {
+            outPacket.writeUInt8(elem)
+        }
+        outPacket.writeUInt32(0xa5c8) // unk60
+    }
+
     /**
      * builds an update game stats packet to send to the user
      * @param played_matches the new user's matches played amount
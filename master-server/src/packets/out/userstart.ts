@@ -13,6 +13,8 @@ import { PacketId } from 'packets/definitions'
  * [userName - the length of the str + 1 byte]
  * [unk00 - 1 byte]
  * [serverUdpPort - 2 bytes]
+ * [holepunchToken - 4 bytes] - only sent to patched clients, the stock client
+ *                               doesn't know about it
  * @class OutUserStartPacket
  */
 export class OutUserStartPacket extends OutPacketBase {
@@ -20,13 +22,14 @@ export class OutUserStartPacket extends OutPacketBase {
         userId: number,
         loginName: string,
         userName: string,
-        holepunchPort: number
+        holepunchPort: number,
+        holepunchToken: number
     ) {
         super(PacketId.UserStart)
 
         this.outStream = new WritableStreamBuffer({
             initialSize: 20,
-            incrementAmount: 4
+            incrementAmount: 8
         })
 
         this.buildHeader()
@@ -35,5 +38,9 @@ export class OutUserStartPacket extends OutPacketBase {
         this.writeString(userName)
         this.writeUInt8(1) // unk00
         this.writeUInt16(holepunchPort)
+
+        if (holepunchToken != null) {
+            this.writeUInt32(holepunchToken)
+        }
     }
 }
@@ -0,0 +1,163 @@
+import { ExtendedSocket } from 'extendedsocket'
+
+import { ChatMessageType } from 'packets/definitions'
+import { OutChatPacket } from 'packets/out/chat'
+
+import { UserSession } from 'user/usersession'
+
+export const PARTY_MAX_MEMBERS = 4
+
+/**
+ * a group of users that chat together and follow their leader into rooms
+ */
+export class Party {
+    /**
+     * remove an user from its current party
+     * if the user isn't in a party then it won't do anything
+     * @param conn the target user's connection
+     * @returns true if successful, false if not in a party
+     */
+    public static cleanUpUser(conn: ExtendedSocket): boolean {
+        const session: UserSession = conn.session
+
+        if (session == null) {
+            return false
+        }
+
+        const party: Party = session.currentParty
+
+        if (party == null) {
+            return false
+        }
+
+        party.removeMember(session.user.id)
+
+        return true
+    }
+
+    public leader: ExtendedSocket
+    // includes the leader
+    public members: ExtendedSocket[]
+
+    private invitedUserIds: Set<number>
+
+    constructor(leaderConn: ExtendedSocket) {
+        this.members = []
+        this.invitedUserIds = new Set<number>()
+
+        this.leader = leaderConn
+        this.addMember(leaderConn)
+    }
+
+    public getLeaderId(): number {
+        return this.leader.session.user.id
+    }
+
+    public isLeader(userId: number): boolean {
+        return this.getLeaderId() === userId
+    }
+
+    public getMember(userId: number): ExtendedSocket {
+        for (const member of this.members) {
+            if (member.session.user.id === userId) {
+                return member
+            }
+        }
+
+        return null
+    }
+
+    public hasMember(userId: number): boolean {
+        return this.getMember(userId) != null
+    }
+
+    public isFull(): boolean {
+        return this.members.length >= PARTY_MAX_MEMBERS
+    }
+
+    /**
+     * allows an user to join the party
+     * @param userId the invited user's ID
+     */
+    public invite(userId: number): void {
+        this.invitedUserIds.add(userId)
+    }
+
+    public isInvited(userId: number): boolean {
+        return this.invitedUserIds.has(userId)
+    }
+
+    /**
+     * add an user to the party
+     * @param conn the new member's connection
+     */
+    public addMember(conn: ExtendedSocket): void {
+        this.invitedUserIds.delete(conn.session.user.id)
+        this.members.push(conn)
+        conn.session.currentParty = this
+    }
+
+    /**
+     * remove an user from the party
+     * the next member becomes the leader if the leader is removed,
+     * and the party is disbanded if only a single member is left
+     * @param userId the member's user ID
+     */
+    public removeMember(userId: number): void {
+        const member: ExtendedSocket = this.getMember(userId)
+
+        if (member == null) {
+            return
+        }
+
+        this.members.splice(this.members.indexOf(member), 1)
+        member.session.currentParty = null
+
+        this.broadcastSystemMessage(
+            `${member.session.user.playername} left the party.`
+        )
+
+        if (this.members.length === 1) {
+            this.disband()
+            return
+        }
+
+        if (this.leader === member && this.members.length !== 0) {
+            this.leader = this.members[0]
+            this.broadcastSystemMessage(
+                `${this.leader.session.user.playername} is the new party leader.`
+            )
+        }
+    }
+
+    /**
+     * remove every member from the party
+     */
+    public disband(): void {
+        this.broadcastSystemMessage('The party was disbanded.')
+
+        for (const member of this.members) {
+            member.session.currentParty = null
+        }
+
+        this.members = []
+        this.invitedUserIds.clear()
+    }
+
+    public recurseMembers(fn: (conn: ExtendedSocket) => void): void {
+        for (const member of this.members) {
+            fn(member)
+        }
+    }
+
+    public broadcastSystemMessage(msg: string): void {
+        const outMsgData: OutChatPacket = OutChatPacket.systemMessage(
+            msg,
+            ChatMessageType.System
+        )
+
+        this.recurseMembers((c: ExtendedSocket) => {
+            c.send(outMsgData)
+        })
+    }
+}
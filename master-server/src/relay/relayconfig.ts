@@ -0,0 +1,156 @@
+import ip from 'ip'
+
+/**
+ * when the matches' traffic goes through the relay
+ */
+export enum RelayMode {
+    // the players always connect to each other
+    Off,
+    // only the pairs of players that can't connect to each other are relayed
+    Fallback,
+    // every pair of players is relayed
+    Always
+}
+
+/**
+ * the relay config file's data
+ */
+interface IRelayFileData {
+    mode?: string
+    publicAddress?: string
+    portRangeStart?: number
+    portRangeEnd?: number
+    roomBytesPerSecond?: number
+    failedJoinSeconds?: number
+}
+
+/**
+ * how the UDP relay works
+ */
+export interface IRelaySettings {
+    mode: RelayMode
+    // the IPv4 address sent to the players, the server's address if null
+    publicAddress: string
+    // the UDP ports the relay can open, two are used by each relayed pair
+    portRangeStart: number
+    portRangeEnd: number
+    // the most bytes a room can relay each second, 0 for no limit
+    roomBytesPerSecond: number
+    // a guest leaving a match before this many seconds is thought to have
+    // failed to connect to the host, and is relayed the next time
+    failedJoinSeconds: number
+}
+
+/**
+ * reads the relay settings from a JSON config file
+ * @class RelayConfig
+ */
+export class RelayConfig {
+    /**
+     * the settings used when there's no config file
+     */
+    public static getDefaults(): IRelaySettings {
+        return {
+            mode: RelayMode.Off,
+            publicAddress: null,
+            portRangeStart: 30003,
+            portRangeEnd: 30099,
+            roomBytesPerSecond: 0,
+            failedJoinSeconds: 30
+        }
+    }
+
+    /**
+     * validate a relay config file's data
+     * the settings missing from the file use their default values
+     * @param fileData the config file's data
+     * @returns the relay settings
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): IRelaySettings {
+        const data = fileData as IRelayFileData
+
+        if (data == null || typeof data !== 'object') {
+            throw new Error('the config must have a JSON object')
+        }
+
+        const settings: IRelaySettings = RelayConfig.getDefaults()
+
+        if (data.mode != null) {
+            const mode = RelayMode[data.mode as keyof typeof RelayMode]
+
+            if (mode == null) {
+                throw new Error(`unknown relay mode "${data.mode}"`)
+            }
+
+            settings.mode = mode
+        }
+
+        if (data.publicAddress != null) {
+            if (
+                typeof data.publicAddress !== 'string' ||
+                ip.isV4Format(data.publicAddress) === false
+            ) {
+                throw new Error('publicAddress must be an IPv4 address')
+            }
+
+            settings.publicAddress = data.publicAddress
+        }
+
+        if (data.portRangeStart != null) {
+            if (RelayConfig.isValidPort(data.portRangeStart) === false) {
+                throw new Error('portRangeStart must be a valid port')
+            }
+
+            settings.portRangeStart = data.portRangeStart
+        }
+
+        if (data.portRangeEnd != null) {
+            if (RelayConfig.isValidPort(data.portRangeEnd) === false) {
+                throw new Error('portRangeEnd must be a valid port')
+            }
+
+            settings.portRangeEnd = data.portRangeEnd
+        }
+
+        if (settings.portRangeEnd <= settings.portRangeStart) {
+            throw new Error(
+                'portRangeEnd must be after portRangeStart, each relayed pair uses two ports'
+            )
+        }
+
+        if (data.roomBytesPerSecond != null) {
+            if (
+                RelayConfig.isValidInteger(data.roomBytesPerSecond, 0) === false
+            ) {
+                throw new Error('roomBytesPerSecond must be 0 or more')
+            }
+
+            settings.roomBytesPerSecond = data.roomBytesPerSecond
+        }
+
+        if (data.failedJoinSeconds != null) {
+            if (
+                RelayConfig.isValidInteger(data.failedJoinSeconds, 0) === false
+            ) {
+                throw new Error('failedJoinSeconds must be 0 or more')
+            }
+
+            settings.failedJoinSeconds = data.failedJoinSeconds
+        }
+
+        return settings
+    }
+
+    private static isValidPort(port: number): boolean {
+        return RelayConfig.isValidInteger(port, 1) && port <= 65535
+    }
+
+    private static isValidInteger(value: number, min: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value >= min
+        )
+    }
+}
@@ -0,0 +1,140 @@
+import dgram from 'dgram'
+import ip from 'ip'
+import net from 'net'
+
+import { RelayTraffic } from 'relay/relaytraffic'
+
+/**
+ * where a relayed player's packets come from and are sent to
+ */
+interface IRelayEndpoint {
+    ipAddress: string
+    // 0 until it's known
+    port: number
+}
+
+/**
+ * relays the UDP packets between a match's host and one of its guests
+ * the guest is told the host is at the guest port, and the host is told
+ * the guest is at the host port
+ * the players' ports are taken from the packets they send, since NATs
+ * that can't be punched through use a new port for each destination
+ * @class RelayLink
+ */
+export class RelayLink {
+    // the ports advertised to the host and the guest
+    public hostPort: number
+    public guestPort: number
+
+    private hostSocket: dgram.Socket
+    private guestSocket: dgram.Socket
+
+    private host: IRelayEndpoint
+    private guest: IRelayEndpoint
+
+    private traffic: RelayTraffic
+    private bytesPerSecond: number
+
+    private onClose: (link: RelayLink) => void
+    private closed: boolean
+
+    constructor(
+        listenAddress: string,
+        basePort: number,
+        host: IRelayEndpoint,
+        guest: IRelayEndpoint,
+        traffic: RelayTraffic,
+        bytesPerSecond: number,
+        onClose: (link: RelayLink) => void
+    ) {
+        this.hostPort = basePort
+        this.guestPort = basePort + 1
+        this.host = host
+        this.guest = guest
+        this.traffic = traffic
+        this.bytesPerSecond = bytesPerSecond
+        this.onClose = onClose
+        this.closed = false
+
+        this.hostSocket = this.createSocket(
+            listenAddress,
+            this.hostPort,
+            this.host,
+            (msg: Buffer) => this.forward(msg, this.guestSocket, this.guest)
+        )
+        this.guestSocket = this.createSocket(
+            listenAddress,
+            this.guestPort,
+            this.guest,
+            (msg: Buffer) => this.forward(msg, this.hostSocket, this.host)
+        )
+    }
+
+    /**
+     * stop relaying and free the link's ports
+     */
+    public close(): void {
+        if (this.closed === true) {
+            return
+        }
+
+        this.closed = true
+        this.hostSocket.close()
+        this.guestSocket.close()
+        this.onClose(this)
+    }
+
+    /**
+     * open one of the link's sockets
+     * @param listenAddress the address to listen on
+     * @param port the port to listen on
+     * @param sender the only player that may send packets to the socket
+     * @param onPacket called with the sender's packets
+     * @returns the socket
+     */
+    private createSocket(
+        listenAddress: string,
+        port: number,
+        sender: IRelayEndpoint,
+        onPacket: (msg: Buffer) => void
+    ): dgram.Socket {
+        const socket: dgram.Socket = dgram.createSocket('udp4')
+
+        socket
+            .on('message', (msg: Buffer, rinfo: net.AddressInfo) => {
+                // don't let anyone else use the relay
+                if (ip.isEqual(rinfo.address, sender.ipAddress) === false) {
+                    return
+                }
+
+                sender.port = rinfo.port
+                onPacket(msg)
+            })
+            .on('error', (err: Error) => {
+                console.error(
+                    `relay port ${port} failed, closing its link: ${err.message}`
+                )
+                this.close()
+            })
+
+        socket.bind(port, listenAddress)
+
+        return socket
+    }
+
+    private forward(
+        msg: Buffer,
+        socket: dgram.Socket,
+        target: IRelayEndpoint
+    ): void {
+        if (this.closed === true || target.port === 0) {
+            return
+        }
+
+        if (this.traffic.consume(msg.length, this.bytesPerSecond) === false) {
+            return
+        }
+
+        socket.send(msg, target.port, target.ipAddress)
+    }
+}
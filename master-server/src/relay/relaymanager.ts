@@ -0,0 +1,152 @@
+import { ConfigFile } from 'config/configfile'
+
+import { IRelaySettings, RelayConfig, RelayMode } from 'relay/relayconfig'
+import { RelayLink } from 'relay/relaylink'
+import { RelayTraffic } from 'relay/relaytraffic'
+
+import { NatType } from 'user/sessionnatinfo'
+import { UserSession } from 'user/usersession'
+
+/**
+ * opens the relay links of the players that can't connect to each other
+ * @class RelayManager
+ */
+export class RelayManager {
+    public static readonly config = new ConfigFile<IRelaySettings>({
+        name: 'relay settings',
+        parse: (fileData: unknown) => RelayConfig.parse(fileData),
+        defaults: RelayConfig.getDefaults(),
+        // the links that are already open keep their bandwidth limit
+        onLoad: (settings: IRelaySettings) =>
+            console.log(`the relay mode is ${RelayMode[settings.mode]}`)
+    })
+
+    /**
+     * set the address the relay ports listen on
+     * it's sent to the players if the config has no public address
+     * @param listenAddress the server's IPv4 address
+     */
+    public static setListenAddress(listenAddress: string): void {
+        this.listenAddress = listenAddress
+    }
+
+    /**
+     * the address the players must send their relayed packets to
+     */
+    public static getPublicAddress(): string {
+        return this.config.get().publicAddress != null
+            ? this.config.get().publicAddress
+            : this.listenAddress
+    }
+
+    /**
+     * how long a guest must stay in a match to have connected to its host
+     * @returns the time in milliseconds
+     */
+    public static getFailedJoinTime(): number {
+        return this.config.get().failedJoinSeconds * 1000
+    }
+
+    /**
+     * should a guest's packets to a host go through the relay?
+     * @param hostSession the host's session
+     * @param guestSession the guest's session
+     * @param failedBefore did the guest fail to connect to the host before?
+     * @returns true if so, false if not
+     */
+    public static shouldRelay(
+        hostSession: UserSession,
+        guestSession: UserSession,
+        failedBefore: boolean
+    ): boolean {
+        switch (this.config.get().mode) {
+            case RelayMode.Off:
+                return false
+            case RelayMode.Always:
+                return true
+        }
+
+        // without the holepunch ports the players can't find each other
+        if (
+            failedBefore === true ||
+            hostSession.externalNet.serverPort === 0 ||
+            guestSession.externalNet.clientPort === 0
+        ) {
+            return true
+        }
+
+        // an unstable guest can still reach a host that doesn't filter it
+        return (
+            hostSession.natInfo.getType() === NatType.Unstable ||
+            (guestSession.natInfo.getType() === NatType.Unstable &&
+                hostSession.natInfo.canHost() === false)
+        )
+    }
+
+    /**
+     * open a relay link between a host and a guest
+     * @param hostSession the host's session
+     * @param guestSession the guest's session
+     * @param traffic the room's relayed traffic
+     * @param onClose called when the link is closed, even by itself
+     * @returns the link, or null if every relay port is in use
+     */
+    public static openLink(
+        hostSession: UserSession,
+        guestSession: UserSession,
+        traffic: RelayTraffic,
+        onClose: (link: RelayLink) => void
+    ): RelayLink {
+        const basePort: number = this.findFreePorts()
+
+        if (basePort == null) {
+            console.warn(
+                'RelayManager: every relay port is in use, the pair will not be relayed'
+            )
+            return null
+        }
+
+        this.usedPorts.add(basePort)
+
+        return new RelayLink(
+            this.listenAddress,
+            basePort,
+            {
+                ipAddress: hostSession.externalNet.ipAddress,
+                port: hostSession.externalNet.serverPort
+            },
+            {
+                ipAddress: guestSession.externalNet.ipAddress,
+                port: guestSession.externalNet.clientPort
+            },
+            traffic,
+            this.config.get().roomBytesPerSecond,
+            (link: RelayLink) => {
+                this.usedPorts.delete(link.hostPort)
+                onClose(link)
+            }
+        )
+    }
+
+    private static listenAddress = '0.0.0.0'
+    // the first port of each open link
+    private static usedPorts: Set<number> = new Set<number>()
+
+    /**
+     * find two free ports in a row
+     * @returns the first port, or null if there are none
+     */
+    private static findFreePorts(): number {
+        for (
+            let port: number = this.config.get().portRangeStart;
+            port < this.config.get().portRangeEnd;
+            port += 2
+        ) {
+            if (this.usedPorts.has(port) === false) {
+                return port
+            }
+        }
+
+        return null
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * counts a room's relayed traffic and enforces its bandwidth limit
+ * @class RelayTraffic
+ */
+export class RelayTraffic {
+    public bytesRelayed: number
+    public packetsRelayed: number
+    // the packets dropped for going over the bandwidth limit
+    public packetsDropped: number
+
+    // when the current one second window started, in milliseconds
+    private windowStart: number
+    private windowBytes: number
+
+    constructor() {
+        this.bytesRelayed = 0
+        this.packetsRelayed = 0
+        this.packetsDropped = 0
+        this.windowStart = 0
+        this.windowBytes = 0
+    }
+
+    /**
+     * count a packet that's about to be relayed
+     * @param length the packet's length in bytes
+     * @param bytesPerSecond the room's bandwidth limit, 0 for no limit
+     * @returns true if it can be relayed, false if it goes over the limit
+     */
+    public consume(length: number, bytesPerSecond: number): boolean {
+        const now: number = Date.now()
+
+        if (now - this.windowStart >= 1000) {
+            this.windowStart = now
+            this.windowBytes = 0
+        }
+
+        if (
+            bytesPerSecond !== 0 &&
+            this.windowBytes + length > bytesPerSecond
+        ) {
+            this.packetsDropped++
+            return false
+        }
+
+        this.windowBytes += length
+        this.bytesRelayed += length
+        this.packetsRelayed++
+        return true
+    }
+
+    /**
+     * has anything gone through the relay?
+     * @returns true if so, false if not
+     */
+    public isUsed(): boolean {
+        return this.packetsRelayed !== 0 || this.packetsDropped !== 0
+    }
+
+    /**
+     * describe the relayed traffic, for logs and GMs
+     * @returns the traffic's description
+     */
+    public toString(): string {
+        return `${this.packetsRelayed} packets (${Math.round(
+            this.bytesRelayed / 1024
+        )} KiB) relayed, ${this.packetsDropped} dropped by the bandwidth limit`
+    }
+}
@@ -25,6 +25,14 @@ export class MatchProgress {
         }
     }
 
+    public GetCtScore(): number {
+        return this.ctRoundsWon
+    }
+
+    public GetTerScore(): number {
+        return this.terRoundsWon
+    }
+
     public ScoreTeam(team: CSTeamNum): void {
         if (this.started === false) {
             console.warn(
@@ -9,14 +9,40 @@ import { RoomSettings } from 'room/roomsettings'
 import { RoomUserEntry } from 'room/roomuserentry'
 
 import { InRoomUpdateSettings } from 'packets/in/room/updatesettings'
+import { ChatMessageType } from 'packets/definitions'
+import { OutChatPacket } from 'packets/out/chat'
 import { OutHostPacket } from 'packets/out/host'
 import { OutRoomPacket } from 'packets/out/room'
 import { OutUdpPacket } from 'packets/out/udp'
 import { OutUserInfoPacket } from 'packets/out/userinfo'
 
+import {
+    RANKED_SCORE_DRAW,
+    RANKED_SCORE_LOSS,
+    RANKED_SCORE_WIN,
+    SkillRating
+} from 'automatch/skillrating'
+
+import { RelayLink } from 'relay/relaylink'
+import { RelayManager } from 'relay/relaymanager'
+import { RelayTraffic } from 'relay/relaytraffic'
+
 import { ActiveConnections } from 'storage/activeconnections'
+import { User } from 'user/user'
+import { IUserMatchPlayer, UserMatches } from 'user/usermatches'
+import { AchievementTracker } from 'user/achievementtracker'
+import { IUserBossRushProgress, UserBossRush } from 'user/userbossrush'
+import { ProfileUnlocks } from 'user/profileunlocks'
+import { IUserBestPlayStats, UserPlayStats } from 'user/userplaystats'
+import { UserUnlocks } from 'user/userunlocks'
+import { IUserWeaponKills, UserWeaponKills } from 'user/userweaponkills'
+import {
+    IMatchReward,
+    MatchResult,
+    UserProgression
+} from 'user/userprogression'
 import { UserSession } from 'user/usersession'
-import { UserService } from 'services/userservice'
+import { UserCurrencies, UserService } from 'services/userservice'
 
 export enum RoomReadyStatus {
     NotReady = 0,
@@ -50,6 +76,13 @@ export enum RoomStatus {
 
 const defaultCountdownNum = 7
 
+// a player rated when a ranked match ends, even if it left before that
+interface IRankedPlayer {
+    user: User
+    conn: ExtendedSocket
+    team: CSTeamNum
+}
+
 export class Room {
     /**
      * remove an user from its current room
@@ -83,6 +116,9 @@ export class Room {
     public host: RoomUserEntry
     public usersInfo: RoomUserEntry[]
 
+    // ranked rooms are created by the automatch queue only
+    public isRanked: boolean
+
     private emptyRoomCallback: (emptyRoom: Room, channel: Channel) => void
     private parentChannel: Channel
 
@@ -90,6 +126,18 @@ export class Room {
     private countdown: number
 
     private ingameMatchProgress: MatchProgress
+    private matchStartedAt: Date
+
+    // the relay links of the guests that can't connect to the host directly
+    private relayLinks: Map<number, RelayLink>
+    private relayTraffic: RelayTraffic
+    // the host user ID each guest last failed to connect to, by guest user ID
+    private failedJoins: Map<number, number>
+
+    // the ranked match's players, keyed by their user ID
+    private rankedPlayers: Map<number, IRankedPlayer>
+    // each team's average rating when the ranked match started
+    private rankedTeamRatings: Map<CSTeamNum, number>
 
     constructor(
         roomId: number,
@@ -107,6 +155,7 @@ export class Room {
         this.emptyRoomCallback = emptyRoomCallback
 
         this.settings = new RoomSettings(options)
+        this.isRanked = false
 
         this.countingDown = false
         this.countdown = defaultCountdownNum
@@ -114,6 +163,14 @@ export class Room {
         this.host = this.addUser(hostUserId, hostConn)
 
         this.ingameMatchProgress = new MatchProgress()
+        this.matchStartedAt = null
+
+        this.relayLinks = new Map<number, RelayLink>()
+        this.relayTraffic = new RelayTraffic()
+        this.failedJoins = new Map<number, number>()
+
+        this.rankedPlayers = new Map<number, IRankedPlayer>()
+        this.rankedTeamRatings = new Map<CSTeamNum, number>()
     }
 
     /**
@@ -186,6 +243,15 @@ export class Room {
     public removeUser(userId: number): void {
         for (const info of this.usersInfo) {
             if (info.userId === userId) {
+                if (info.isIngame === true) {
+                    this.setUserIngame(info, false)
+                    void this.SaveLeavingUserPlayTime(info)
+                }
+
+                if (this.rankedPlayers.has(info.userId) === true) {
+                    void this.PenalizeRankedLeaver(info.userId)
+                }
+
                 this.usersInfo.splice(this.usersInfo.indexOf(info), 1)
                 this.onUserRemoved(info.userId)
                 return
@@ -391,6 +457,30 @@ export class Room {
     public setUserIngame(user: RoomUserEntry, ingame: boolean): void {
         user.isIngame = ingame
         user.ready = ingame ? RoomReadyStatus.Ingame : RoomReadyStatus.NotReady
+
+        const now: number = Date.now()
+
+        if (ingame === true) {
+            user.startPlaying(now)
+        } else {
+            this.onUserLeftMatch(user, now)
+            user.stopPlaying(now)
+        }
+    }
+
+    /**
+     * how many guests are connected to the host through the relay?
+     * @returns the relayed guests count
+     */
+    public getRelayedUsersCount(): number {
+        return this.relayLinks.size
+    }
+
+    /**
+     * the traffic relayed for the room's players since it was created
+     */
+    public getRelayTraffic(): RelayTraffic {
+        return this.relayTraffic
     }
 
     /**
@@ -533,6 +623,10 @@ export class Room {
      * ends a match and sends players to the match results screen
      */
     public async endGame(): Promise<void> {
+        // the players leaving from now on have finished the match
+        const rankedPlayers: Map<number, IRankedPlayer> = this.rankedPlayers
+        this.rankedPlayers = new Map<number, IRankedPlayer>()
+
         this.setStatus(RoomStatus.Waiting)
         this.resetIngameUsersReadyStatus()
 
@@ -546,7 +640,11 @@ export class Room {
         })
 
         this.sendBroadcastReadyStatus()
-        await this.RewardUsers()
+        await Promise.all([this.RewardUsers(), this.SaveMatch()])
+
+        if (this.isRanked === true) {
+            await this.UpdateRankedRatings(rankedPlayers)
+        }
     }
 
     /**
@@ -579,6 +677,7 @@ export class Room {
             case RoomGamemode.stealth:
             case RoomGamemode.teamdeath:
             case RoomGamemode.teamdeath_mutation:
+            case RoomGamemode.rankmatch_original:
                 if (this.getNumOfReadyPlayers() < 2) {
                     return false
                 }
@@ -800,6 +899,13 @@ export class Room {
 
     public onRoundWon(winningTeam: CSTeamNum): void {
         this.ingameMatchProgress.ScoreTeam(winningTeam)
+
+        for (const u of this.usersInfo) {
+            if (u.isIngame === true && u.team === winningTeam) {
+                u.roundsWon++
+            }
+        }
+
         console.debug(
             this.ingameMatchProgress.GetDebugRoundEndMessage(winningTeam)
         )
@@ -863,13 +969,22 @@ export class Room {
 
     public hostGameStart(): void {
         this.stopCountdown()
+
+        this.ingameMatchProgress = new MatchProgress()
+        this.matchStartedAt = new Date()
         this.setStatus(RoomStatus.Ingame)
+
+        this.recurseUsers((u: RoomUserEntry): void => {
+            u.resetMatchStats()
+        })
+
         this.setUserIngame(this.host, true)
 
         this.recurseNonHostUsers((u: RoomUserEntry): void => {
             this.sendRoomStatusTo(u)
             if (u.isReady()) {
                 this.setUserIngame(u, true)
+                this.openRelayLink(u)
                 this.sendConnectHostTo(u, this.host)
                 this.sendGuestDataTo(this.host, u)
             }
@@ -877,6 +992,10 @@ export class Room {
 
         this.sendBroadcastReadyStatus()
 
+        if (this.isRanked === true) {
+            this.StartRankedMatch()
+        }
+
         this.sendStartMatchTo(this.host)
     }
 
@@ -884,12 +1003,19 @@ export class Room {
         const guest: RoomUserEntry = this.getRoomUser(guestUserId)
 
         this.sendRoomStatusTo(guest)
+        guest.resetMatchStats()
         this.setUserIngame(guest, true)
 
+        this.openRelayLink(guest)
         this.sendConnectHostTo(guest, this.host)
         this.sendGuestDataTo(this.host, guest)
 
         this.sendBroadcastReadyStatus()
+
+        // joining late still counts, unless the match isn't rated
+        if (this.isRanked === true && this.rankedTeamRatings.size !== 0) {
+            this.AddRankedPlayer(guest)
+        }
     }
 
     /**
@@ -987,6 +1113,7 @@ export class Room {
 
     /**
      * tell the user to connect to a host
+     * relayed users are given the host's relay port instead
      * @param user the user that will connect to the host
      * @param host the host to connect to
      */
@@ -997,19 +1124,34 @@ export class Room {
             return
         }
 
-        user.conn.send(
-            new OutUdpPacket(
-                true,
-                host.userId,
-                hostSession.externalNet.ipAddress,
-                hostSession.externalNet.serverPort
+        const link: RelayLink = this.relayLinks.get(user.userId)
+
+        if (link != null) {
+            user.conn.send(
+                new OutUdpPacket(
+                    true,
+                    host.userId,
+                    RelayManager.getPublicAddress(),
+                    link.guestPort
+                )
             )
-        )
+        } else {
+            user.conn.send(
+                new OutUdpPacket(
+                    true,
+                    host.userId,
+                    hostSession.externalNet.ipAddress,
+                    hostSession.externalNet.serverPort
+                )
+            )
+        }
+
         user.conn.send(OutHostPacket.joinHost(host.userId))
     }
 
     /**
      * send the host the guest that will connect to it
+     * relayed guests are sent with their relay port instead
      * @param host the user hosting the match
      * @param guest the guest player joining the host's match
      */
@@ -1020,14 +1162,27 @@ export class Room {
             return
         }
 
-        host.conn.send(
-            new OutUdpPacket(
-                false,
-                guest.userId,
-                guestSession.externalNet.ipAddress,
-                guestSession.externalNet.clientPort
+        const link: RelayLink = this.relayLinks.get(guest.userId)
+
+        if (link != null) {
+            host.conn.send(
+                new OutUdpPacket(
+                    false,
+                    guest.userId,
+                    RelayManager.getPublicAddress(),
+                    link.hostPort
+                )
             )
-        )
+        } else {
+            host.conn.send(
+                new OutUdpPacket(
+                    false,
+                    guest.userId,
+                    guestSession.externalNet.ipAddress,
+                    guestSession.externalNet.clientPort
+                )
+            )
+        }
     }
 
     /**
@@ -1166,6 +1321,8 @@ export class Room {
      * @param userId the target user's id
      */
     private onUserRemoved(userId: number): void {
+        this.failedJoins.delete(userId)
+
         if (this.usersInfo.length !== 0) {
             this.sendRemovedUser(userId)
 
@@ -1174,10 +1331,114 @@ export class Room {
                 this.findAndUpdateNewHost()
             }
         } else {
+            if (this.relayTraffic.isUsed() === true) {
+                console.log(
+                    `room ${this.id}'s relay: ${this.relayTraffic.toString()}`
+                )
+            }
+
             this.emptyRoomCallback(this, this.parentChannel)
         }
     }
 
+    /**
+     * relay a guest's packets if it can't connect to the host by itself
+     * @param guest the guest joining the host's match
+     */
+    private openRelayLink(guest: RoomUserEntry): void {
+        const hostSession: UserSession = this.host.conn.session
+        const guestSession: UserSession = guest.conn.session
+
+        if (hostSession == null || guestSession == null) {
+            return
+        }
+
+        const failedBefore: boolean =
+            this.failedJoins.get(guest.userId) === this.host.userId
+
+        if (
+            RelayManager.shouldRelay(
+                hostSession,
+                guestSession,
+                failedBefore
+            ) === false
+        ) {
+            return
+        }
+
+        this.closeRelayLink(guest.userId)
+
+        const link: RelayLink = RelayManager.openLink(
+            hostSession,
+            guestSession,
+            this.relayTraffic,
+            (closedLink: RelayLink) =>
+                this.onRelayLinkClosed(guest.userId, closedLink)
+        )
+
+        if (link == null) {
+            return
+        }
+
+        this.relayLinks.set(guest.userId, link)
+        console.log(
+            `relaying user ID ${guest.userId} to host ${this.host.userId} in room ${this.id} through ports ${link.guestPort} and ${link.hostPort}`
+        )
+    }
+
+    /**
+     * stop relaying a guest's packets
+     * @param guestUserId the guest's user ID
+     */
+    private closeRelayLink(guestUserId: number): void {
+        const link: RelayLink = this.relayLinks.get(guestUserId)
+
+        if (link != null) {
+            link.close()
+            this.relayLinks.delete(guestUserId)
+        }
+    }
+
+    /**
+     * called when a guest's relay link is closed, even after a socket error
+     * forgets the link, so a new one is opened the next time the guest joins
+     * @param guestUserId the guest's user ID
+     * @param link the closed link
+     */
+    private onRelayLinkClosed(guestUserId: number, link: RelayLink): void {
+        // the guest may already have a newer link
+        if (this.relayLinks.get(guestUserId) === link) {
+            this.relayLinks.delete(guestUserId)
+        }
+    }
+
+    /**
+     * called before an user stops being ingame
+     * a guest leaving a running match right after joining it most likely
+     * couldn't connect to the host, so it's relayed the next time
+     * @param user the user leaving the match
+     * @param now the current time in milliseconds
+     */
+    private onUserLeftMatch(user: RoomUserEntry, now: number): void {
+        if (user === this.host) {
+            for (const guestUserId of Array.from(this.relayLinks.keys())) {
+                this.closeRelayLink(guestUserId)
+            }
+
+            return
+        }
+
+        if (
+            this.relayLinks.has(user.userId) === false &&
+            this.getStatus() === RoomStatus.Ingame &&
+            user.getIngameTime(now) < RelayManager.getFailedJoinTime()
+        ) {
+            this.failedJoins.set(user.userId, this.host.userId)
+        }
+
+        this.closeRelayLink(user.userId)
+    }
+
     /**
      * inform the users about an user being removed
      * @param deletedUserId the removed user's ID
@@ -1265,6 +1526,10 @@ export class Room {
         if (damageInfo.killFlags & TDIKillFlags.KilledByHeadshot) {
             attackerEntry.headshots++
         }
+
+        if (damageInfo.attacker.weaponId !== 0) {
+            attackerEntry.addWeaponKill(damageInfo.attacker.weaponId)
+        }
     }
 
     private HandlePlayerDeath(damageInfo: CSO2TakeDamageInfo): void {
@@ -1295,6 +1560,7 @@ export class Room {
         const updatePromises = []
 
         const winnerTeam = this.ingameMatchProgress.GetWinningTeam()
+        const bossRushClearTime: number = this.GetBossRushClearTime()
 
         for (const userInfo of this.usersInfo) {
             const userConn = userInfo.conn
@@ -1321,11 +1587,50 @@ export class Room {
             user.assists += userInfo.assists
 
             user.played_matches++
+            user.seconds_played += userInfo.secondsPlayed
 
             if (userInfo.team === winnerTeam) {
                 user.wins++
             }
 
+            if (userInfo.secondsPlayed !== 0) {
+                updatePromises.push(
+                    this.UpdatePlayStats(
+                        userInfo,
+                        true,
+                        userInfo.team === winnerTeam
+                    )
+                )
+                updatePromises.push(
+                    AchievementTracker.onMatchEnded(
+                        userInfo,
+                        true,
+                        userInfo.team === winnerTeam
+                    )
+                )
+                updatePromises.push(
+                    this.SaveBossRushProgress(userInfo, bossRushClearTime)
+                )
+            }
+
+            updatePromises.push(this.SaveWeaponKills(userInfo))
+
+            let result: MatchResult = MatchResult.Loss
+
+            if (winnerTeam === CSTeamNum.Unknown) {
+                result = MatchResult.Draw
+            } else if (userInfo.team === winnerTeam) {
+                result = MatchResult.Win
+            }
+
+            const reward: IMatchReward = UserProgression.getMatchReward(
+                userInfo,
+                result,
+                this.settings.gameModeId
+            )
+
+            const levelsGained: number = UserProgression.addXp(user, reward.xp)
+
             updatePromises.push(
                 UserService.UpdatePartial(
                     {
@@ -1334,13 +1639,43 @@ export class Room {
                         deaths: user.deaths,
                         assists: user.assists,
                         played_matches: user.played_matches,
-                        wins: user.wins
+                        wins: user.wins,
+                        seconds_played: user.seconds_played,
+                        level: user.level,
+                        cur_xp: user.cur_xp,
+                        max_xp: user.max_xp
                     },
                     user.id
                 )
             )
 
+            if (reward.points !== 0) {
+                updatePromises.push(
+                    this.GiveMatchPoints(userConn, reward.points)
+                )
+            }
+
             userConn.send(OutUserInfoPacket.updateGameStats(user))
+            userConn.send(OutUserInfoPacket.updateProgression(user))
+
+            if (reward.xp !== 0 || reward.points !== 0) {
+                userConn.send(
+                    OutChatPacket.systemMessage(
+                        `You earned ${reward.xp} XP and ${reward.points} points.`,
+                        ChatMessageType.System
+                    )
+                )
+            }
+
+            if (levelsGained > 0) {
+                updatePromises.push(ProfileUnlocks.update(userConn))
+                userConn.send(
+                    OutChatPacket.systemMessage(
+                        `You reached level ${user.level}!`,
+                        ChatMessageType.System
+                    )
+                )
+            }
         }
 
         const updateRes = await Promise.all(updatePromises)
@@ -1351,4 +1686,414 @@ export class Room {
             }
         }
     }
+
+    /**
+     * adds the points earned in a match to an user's balance in a single
+     * query, so the purchases made during the match aren't overwritten
+     * @param userConn the user's connection
+     * @param points the points earned
+     * @returns true if successful, false if not
+     */
+    private async GiveMatchPoints(
+        userConn: ExtendedSocket,
+        points: number
+    ): Promise<boolean> {
+        const user: User = userConn.session.user
+        const currencies: UserCurrencies = await UserService.AddCurrencies(
+            { points },
+            user.id
+        )
+
+        if (currencies == null) {
+            return false
+        }
+
+        Object.assign(user, currencies)
+        userConn.send(OutUserInfoPacket.updateCurrencies(user))
+
+        return true
+    }
+
+    /**
+     * saves the time spent ingame by an user that left before the match ended
+     * @param userInfo the leaving user
+     */
+    private async SaveLeavingUserPlayTime(
+        userInfo: RoomUserEntry
+    ): Promise<void> {
+        const userConn: ExtendedSocket = userInfo.conn
+
+        if (
+            userInfo.secondsPlayed === 0 ||
+            userConn == null ||
+            userConn.session == null
+        ) {
+            return
+        }
+
+        const user: User = userConn.session.user
+        user.seconds_played += userInfo.secondsPlayed
+
+        const [updated] = await Promise.all([
+            UserService.UpdatePartial(
+                { seconds_played: user.seconds_played },
+                user.id
+            ),
+            this.UpdatePlayStats(userInfo, false, false),
+            this.SaveWeaponKills(userInfo),
+            AchievementTracker.onMatchEnded(userInfo, false, false),
+            this.SaveBossRushProgress(userInfo, 0)
+        ])
+
+        if (updated === false) {
+            console.warn(
+                'SaveLeavingUserPlayTime: failed to update an user play time'
+            )
+        }
+
+        userConn.send(OutUserInfoPacket.updateGameStats(user))
+    }
+
+    /**
+     * adds an user's kills with each weapon in a match to its total kills
+     * sends the user its updated unlock progress
+     * @param userInfo the user's room entry
+     * @returns true if successful, false if not
+     */
+    private async SaveWeaponKills(userInfo: RoomUserEntry): Promise<boolean> {
+        if (userInfo.weaponKills.size === 0) {
+            return true
+        }
+
+        const userConn: ExtendedSocket = userInfo.conn
+
+        const weaponKills: IUserWeaponKills[] = await UserWeaponKills.add(
+            userConn.session.user.id,
+            userInfo.weaponKills
+        )
+
+        if (weaponKills == null) {
+            return false
+        }
+
+        return await UserUnlocks.sendUnlockInfoTo(userConn, weaponKills)
+    }
+
+    /**
+     * adds an user's time and results in a match to its gamemode and map stats
+     * updates the user's best gamemode and map if they changed
+     * @param userInfo the user's room entry
+     * @param playedMatch false if the user left before the match ended
+     * @param won true if the user's team won the match
+     * @returns true if successful, false if not
+     */
+    private async UpdatePlayStats(
+        userInfo: RoomUserEntry,
+        playedMatch: boolean,
+        won: boolean
+    ): Promise<boolean> {
+        const userConn: ExtendedSocket = userInfo.conn
+        const user: User = userConn.session.user
+
+        const best: IUserBestPlayStats = await UserPlayStats.add(user.id, {
+            gamemode: this.settings.gameModeId,
+            map: this.settings.mapId,
+            secondsPlayed: userInfo.secondsPlayed,
+            playedMatch,
+            won,
+            kills: userInfo.kills
+        })
+
+        if (best == null) {
+            return false
+        }
+
+        if (
+            best.best_gamemode === user.best_gamemode &&
+            best.best_map === user.best_map
+        ) {
+            return true
+        }
+
+        user.best_gamemode = best.best_gamemode
+        user.best_map = best.best_map
+
+        userConn.send(OutUserInfoPacket.updateBestGamemodeAndMap(user))
+
+        return await UserService.UpdatePartial(
+            {
+                best_gamemode: user.best_gamemode,
+                best_map: user.best_map
+            },
+            user.id
+        )
+    }
+
+    /**
+     * get how long the humans took to clear a boss rush stage
+     * @returns the clear time in seconds, 0 if the stage wasn't cleared
+     */
+    private GetBossRushClearTime(): number {
+        if (
+            UserBossRush.isBossRushGamemode(this.settings.gameModeId) ===
+                false ||
+            this.matchStartedAt == null ||
+            this.ingameMatchProgress.GetWinningTeam() !==
+                CSTeamNum.CounterTerrorist
+        ) {
+            return 0
+        }
+
+        const seconds: number = Math.floor(
+            (Date.now() - this.matchStartedAt.getTime()) / 1000
+        )
+
+        // 0 means not cleared, so round up a clear under a second
+        return Math.max(seconds, 1)
+    }
+
+    /**
+     * adds an user's result in a boss rush stage to its progress
+     * sends the user its updated progress in the stage
+     * @param userInfo the user's room entry
+     * @param clearTime how long the stage took to clear, 0 if it wasn't cleared
+     * @returns true if successful, false if not
+     */
+    private async SaveBossRushProgress(
+        userInfo: RoomUserEntry,
+        clearTime: number
+    ): Promise<boolean> {
+        const gamemode: RoomGamemode = this.settings.gameModeId
+
+        if (UserBossRush.isBossRushGamemode(gamemode) === false) {
+            return true
+        }
+
+        const userConn: ExtendedSocket = userInfo.conn
+
+        // every round played is a wave, and every wave the humans win
+        // means they defeated its boss
+        const progress: IUserBossRushProgress = await UserBossRush.add(
+            userConn.session.user.id,
+            {
+                gamemode,
+                wave:
+                    this.ingameMatchProgress.GetCtScore() +
+                    this.ingameMatchProgress.GetTerScore(),
+                clearTime,
+                bossesDefeated: userInfo.roundsWon
+            }
+        )
+
+        if (progress == null) {
+            return false
+        }
+
+        userConn.send(
+            UserBossRush.buildProgressPacket(
+                UserBossRush.getBossRushId(gamemode),
+                progress
+            )
+        )
+
+        return true
+    }
+
+    /**
+     * saves the match that just ended in the users service
+     * only the players that went ingame are saved
+     */
+    private async SaveMatch(): Promise<void> {
+        if (this.matchStartedAt == null) {
+            return
+        }
+
+        const players: IUserMatchPlayer[] = this.usersInfo
+            .filter(
+                (u: RoomUserEntry) =>
+                    u.secondsPlayed !== 0 &&
+                    (u.team === CSTeamNum.Terrorist ||
+                        u.team === CSTeamNum.CounterTerrorist)
+            )
+            .map((u: RoomUserEntry) => {
+                return {
+                    userId: u.userId,
+                    team: u.team,
+                    kills: u.kills,
+                    deaths: u.deaths,
+                    assists: u.assists,
+                    headshots: u.headshots
+                }
+            })
+
+        const startedAt: Date = this.matchStartedAt
+        this.matchStartedAt = null
+
+        if (players.length === 0) {
+            return
+        }
+
+        const saved: boolean = await UserMatches.create({
+            roomName: this.settings.roomName,
+            gamemode: this.settings.gameModeId,
+            map: this.settings.mapId,
+            startedAt,
+            ctScore: this.ingameMatchProgress.GetCtScore(),
+            terScore: this.ingameMatchProgress.GetTerScore(),
+            winnerTeam: this.ingameMatchProgress.GetWinningTeam(),
+            players
+        })
+
+        if (saved === false) {
+            console.warn(`SaveMatch: failed to save room ${this.id}'s match`)
+        }
+    }
+
+    /**
+     * records the players of a ranked match and their teams' ratings,
+     * so the ones that leave before it ends can still be rated
+     */
+    private StartRankedMatch(): void {
+        this.rankedPlayers.clear()
+        this.rankedTeamRatings.clear()
+
+        for (const userInfo of this.usersInfo) {
+            if (userInfo.isIngame === true) {
+                this.AddRankedPlayer(userInfo)
+            }
+        }
+
+        const players: IRankedPlayer[] = Array.from(this.rankedPlayers.values())
+
+        for (const team of [CSTeamNum.Terrorist, CSTeamNum.CounterTerrorist]) {
+            const teamUsers: User[] = players
+                .filter((p: IRankedPlayer) => p.team === team)
+                .map((p: IRankedPlayer) => p.user)
+
+            if (teamUsers.length === 0) {
+                console.warn(
+                    `StartRankedMatch: ranked room ${this.id} started without two teams`
+                )
+                this.rankedPlayers.clear()
+                this.rankedTeamRatings.clear()
+                return
+            }
+
+            this.rankedTeamRatings.set(
+                team,
+                SkillRating.getAverageRating(teamUsers)
+            )
+        }
+    }
+
+    /**
+     * adds a player to the ranked match's rated players
+     * @param userInfo the player's room entry
+     */
+    private AddRankedPlayer(userInfo: RoomUserEntry): void {
+        if (
+            userInfo.conn == null ||
+            userInfo.conn.session == null ||
+            (userInfo.team !== CSTeamNum.Terrorist &&
+                userInfo.team !== CSTeamNum.CounterTerrorist)
+        ) {
+            return
+        }
+
+        this.rankedPlayers.set(userInfo.userId, {
+            user: userInfo.conn.session.user,
+            conn: userInfo.conn,
+            team: userInfo.team
+        })
+    }
+
+    /**
+     * rates a player that left a ranked match before it ended as a loss
+     * @param userId the leaving player's user ID
+     */
+    private async PenalizeRankedLeaver(userId: number): Promise<void> {
+        const player: IRankedPlayer = this.rankedPlayers.get(userId)
+        this.rankedPlayers.delete(userId)
+
+        if (
+            (await this.UpdateRankedRating(player, RANKED_SCORE_LOSS)) === false
+        ) {
+            console.warn(
+                'PenalizeRankedLeaver: failed to update an user rating'
+            )
+        }
+    }
+
+    /**
+     * updates the skill rating of a ranked match's players
+     * each player wins or loses points by comparing both teams' ratings
+     * @param rankedPlayers the players that didn't leave the match
+     */
+    private async UpdateRankedRatings(
+        rankedPlayers: Map<number, IRankedPlayer>
+    ): Promise<void> {
+        const winnerTeam = this.ingameMatchProgress.GetWinningTeam()
+
+        const getScore = (team: CSTeamNum): number => {
+            if (winnerTeam === CSTeamNum.Unknown) {
+                return RANKED_SCORE_DRAW
+            }
+            return winnerTeam === team ? RANKED_SCORE_WIN : RANKED_SCORE_LOSS
+        }
+
+        const updateRes = await Promise.all(
+            Array.from(rankedPlayers.values()).map((p: IRankedPlayer) =>
+                this.UpdateRankedRating(p, getScore(p.team))
+            )
+        )
+
+        for (const res of updateRes) {
+            if (res === false) {
+                console.warn(
+                    'UpdateRankedRatings: failed to update an user rating'
+                )
+            }
+        }
+    }
+
+    /**
+     * changes a ranked player's rating by its team's match score
+     * @param player the rated player
+     * @param score RANKED_SCORE_WIN, RANKED_SCORE_DRAW or RANKED_SCORE_LOSS
+     * @returns true if successful, false if not
+     */
+    private async UpdateRankedRating(
+        player: IRankedPlayer,
+        score: number
+    ): Promise<boolean> {
+        const enemyTeam: CSTeamNum =
+            player.team === CSTeamNum.Terrorist
+                ? CSTeamNum.CounterTerrorist
+                : CSTeamNum.Terrorist
+        const change: number = SkillRating.getRatingChange(
+            this.rankedTeamRatings.get(player.team),
+            this.rankedTeamRatings.get(enemyTeam),
+            score
+        )
+
+        const user: User = player.user
+        user.ranked_rating = SkillRating.getRating(user) + change
+
+        // the player may have disconnected already
+        if (player.conn.destroyed === false) {
+            player.conn.send(
+                OutChatPacket.systemMessage(
+                    `Your ranked rating is now ${user.ranked_rating} (${
+                        change >= 0 ? '+' : ''
+                    }${change}).`,
+                    ChatMessageType.System
+                )
+            )
+        }
+
+        return await UserService.UpdatePartial(
+            { ranked_rating: user.ranked_rating },
+            user.id
+        )
+    }
 }
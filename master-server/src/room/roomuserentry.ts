@@ -16,6 +16,13 @@ export class RoomUserEntry {
     public headshots: number
     public deaths: number
     public assists: number
+    public secondsPlayed: number
+    public roundsWon: number
+    // the kills made with each weapon, keyed by the weapon's item ID
+    public weaponKills: Map<number, number>
+
+    // when the user went ingame, 0 if it isn't ingame
+    private ingameSince: number
 
     constructor(
         userId: number,
@@ -33,6 +40,64 @@ export class RoomUserEntry {
         this.headshots = 0
         this.deaths = 0
         this.assists = 0
+        this.secondsPlayed = 0
+        this.roundsWon = 0
+        this.weaponKills = new Map<number, number>()
+        this.ingameSince = 0
+    }
+
+    /**
+     * clear the user's stats of the last match
+     */
+    public resetMatchStats(): void {
+        this.kills = 0
+        this.headshots = 0
+        this.deaths = 0
+        this.assists = 0
+        this.secondsPlayed = 0
+        this.roundsWon = 0
+        this.weaponKills.clear()
+    }
+
+    /**
+     * count a kill made with a weapon
+     * @param weaponId the weapon's item ID
+     */
+    public addWeaponKill(weaponId: number): void {
+        const kills: number = this.weaponKills.has(weaponId)
+            ? this.weaponKills.get(weaponId)
+            : 0
+        this.weaponKills.set(weaponId, kills + 1)
+    }
+
+    /**
+     * start counting the time the user spends ingame
+     * @param now the current time in milliseconds
+     */
+    public startPlaying(now: number): void {
+        this.ingameSince = now
+    }
+
+    /**
+     * stop counting the time the user spends ingame
+     * @param now the current time in milliseconds
+     */
+    public stopPlaying(now: number): void {
+        if (this.ingameSince === 0) {
+            return
+        }
+
+        this.secondsPlayed += Math.floor((now - this.ingameSince) / 1000)
+        this.ingameSince = 0
+    }
+
+    /**
+     * how long has the user been ingame?
+     * @param now the current time in milliseconds
+     * @returns the time in milliseconds, 0 if it isn't ingame
+     */
+    public getIngameTime(now: number): number {
+        return this.ingameSince !== 0 ? now - this.ingameSince : 0
     }
 
     /**
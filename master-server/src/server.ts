@@ -8,8 +8,19 @@ import 'app-module-path/register'
 import program from 'commander'
 
 import { UserSvcPing } from 'authorities'
+import { ChannelManager } from 'channel/channelmanager'
+import { IConfigFile } from 'config/configfile'
 import { getNetIntf, getOrAskNetIntf, INetIntf } from 'interfacepicker'
+import { RelayManager } from 'relay/relaymanager'
 import { ServerInstance } from 'serverinstance'
+import { UserService } from 'services/userservice'
+import { ShopCatalog } from 'shop/shopcatalog'
+import { AchievementTracker } from 'user/achievementtracker'
+import { CampaignRewards } from 'user/campaignrewards'
+import { HolepunchGuard } from 'user/holepunchguard'
+import { ProfileUnlocks } from 'user/profileunlocks'
+import { UserProgression } from 'user/userprogression'
+import { UserUnlocks } from 'user/userunlocks'
 
 let masterServer: ServerInstance = null
 
@@ -32,8 +43,97 @@ program
         30002
     )
     .option('-l, --log-packets', 'Log the incoming and outgoing packets')
+    .option(
+        '-c, --channels-config [path]',
+        'The channel servers config file (reloaded on SIGHUP)',
+        'config/channels.json'
+    )
+    .option(
+        '-r, --progression-config [path]',
+        'The experience and match rewards config file (reloaded on SIGHUP)',
+        'config/progression.json'
+    )
+    .option(
+        '-u, --unlocks-config [path]',
+        'The unlockable weapons config file (reloaded on SIGHUP)',
+        'config/unlocks.json'
+    )
+    .option(
+        '-a, --achievements-config [path]',
+        'The achievements definitions config file (reloaded on SIGHUP)',
+        'config/achievements.json'
+    )
+    .option(
+        '-t, --profile-unlocks-config [path]',
+        'The titles and avatars unlock rules config file (reloaded on SIGHUP)',
+        'config/profileunlocks.json'
+    )
+    .option(
+        '-H, --holepunch-config [path]',
+        'The holepunch token and trusted proxies config file (reloaded on SIGHUP)',
+        'config/holepunch.json'
+    )
+    .option(
+        '-R, --relay-config [path]',
+        'The UDP relay config file (reloaded on SIGHUP)',
+        'config/relay.json'
+    )
+    .option(
+        '-s, --shop-config [path]',
+        'The shop items config file (reloaded on SIGHUP)',
+        'config/shopitems.json'
+    )
+    .option(
+        '-C, --campaign-rewards-config [path]',
+        'The campaign rewards config file (reloaded on SIGHUP)',
+        'config/campaignrewards.json'
+    )
     .parse(process.argv)
 
+// the config files, by the command line option with their path
+const configFiles: Map<string, IConfigFile> = new Map<string, IConfigFile>([
+    ['channelsConfig', ChannelManager.config],
+    ['progressionConfig', UserProgression.config],
+    ['unlocksConfig', UserUnlocks.config],
+    ['achievementsConfig', AchievementTracker.config],
+    ['profileUnlocksConfig', ProfileUnlocks.config],
+    ['holepunchConfig', HolepunchGuard.config],
+    ['relayConfig', RelayManager.config],
+    ['shopConfig', ShopCatalog.config],
+    ['campaignRewardsConfig', CampaignRewards.config]
+])
+
+/**
+ * load every config file, exits if one of them can't be loaded
+ */
+function loadConfigFiles(): void {
+    const configPaths = program.opts() as { [option: string]: string }
+
+    for (const [option, file] of configFiles) {
+        const configPath: string = configPaths[option]
+
+        try {
+            file.load(configPath)
+        } catch (error) {
+            console.error(
+                `Could not load the ${file.name} config file ${configPath}\n\n`
+            )
+            console.error(error)
+            process.exit(1)
+        }
+    }
+}
+
+/**
+ * load every config file again
+ * the ones that can't be loaded keep their current settings
+ */
+function reloadConfigFiles(): void {
+    for (const file of configFiles.values()) {
+        file.reload()
+    }
+}
+
 function validateEnvVars(): void {
     if (process.env.USERSERVICE_HOST == null) {
         throw new Error('USERSERVICE_HOST environment variable is not set.')
@@ -96,6 +196,10 @@ async function startServer(): Promise<void> {
         desiredIp = intf.net.address
     }
 
+    loadConfigFiles()
+
+    RelayManager.setListenAddress(desiredIp)
+
     masterServer = new ServerInstance({
         hostname: desiredIp,
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
@@ -106,6 +210,11 @@ async function startServer(): Promise<void> {
         shouldLogPackets: program.logPackets
     })
 
+    // nobody is online yet, so the sessions left by the last run are stale
+    if ((await UserService.ClearOnlineSessions()) === false) {
+        console.warn('Could not clear the online sessions of the last run')
+    }
+
     masterServer.listen()
 }
 
@@ -147,3 +256,6 @@ process
     .on('SIGTERM', () => {
         masterServer.stop()
     })
+    .on('SIGHUP', () => {
+        reloadConfigFiles()
+    })
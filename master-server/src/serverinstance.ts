@@ -8,13 +8,18 @@ import { PacketId } from 'packets/definitions'
 import { InPacketBase } from 'packets/in/packet'
 
 // import { InVersionPacket } from 'packets/in/version'
+import { OutMailPacket } from 'packets/out/mail'
 import { OutVersionPacket } from 'packets/out/version'
 
 import { InHolepunchPacketUdp } from 'packets/holepunch/inholepunch'
 import { OutHolepunchPacketUdp } from 'packets/holepunch/outholepunch'
 
+import { AutomatchQueue } from 'automatch/automatchqueue'
 import { ChannelManager } from 'channel/channelmanager'
+import { Party } from 'party/party'
 import { Room } from 'room/room'
+import { HolepunchGuard } from 'user/holepunchguard'
+import { NatType } from 'user/sessionnatinfo'
 import { UserManager } from 'user/usermanager'
 import { UserSession } from 'user/usersession'
 
@@ -26,8 +31,12 @@ import { ActiveConnections } from 'storage/activeconnections'
 import { PacketLogger } from 'packetlogger'
 
 import { AchievementHandler } from 'handlers/achievementhandler'
+import { BanHandler } from 'handlers/banhandler'
 import { ChatHandler } from 'handlers/chathandler'
+import { FriendHandler } from 'handlers/friendhandler'
 import { HostHandler } from 'handlers/hosthandler'
+import { MailHandler } from 'handlers/mailhandler'
+import { ShopHandler } from 'handlers/shophandler'
 
 /**
  * The welcome message sent to the client
@@ -71,8 +80,12 @@ export class ServerInstance {
     private hostname: string
 
     private achievementHandler: AchievementHandler
+    private banHandler: BanHandler
     private chatHandler: ChatHandler
+    private friendHandler: FriendHandler
     private hostHandler: HostHandler
+    private mailHandler: MailHandler
+    private shopHandler: ShopHandler
 
     private packetLogging: PacketLogger
 
@@ -89,8 +102,12 @@ export class ServerInstance {
         this.holepunchServer = dgram.createSocket('udp4')
 
         this.achievementHandler = new AchievementHandler()
+        this.banHandler = new BanHandler()
         this.chatHandler = new ChatHandler()
+        this.friendHandler = new FriendHandler()
         this.hostHandler = new HostHandler()
+        this.mailHandler = new MailHandler()
+        this.shopHandler = new ShopHandler()
 
         if (options.shouldLogPackets) {
             this.packetLogging = new PacketLogger()
@@ -147,7 +164,7 @@ export class ServerInstance {
         console.debug('new connection created, uuid ' + newConn.uuid)
 
         // setup socket callbacks
-        newConn.on('data', (data: string) => {
+        newConn.on('data', (data: Buffer) => {
             void this.onSocketData(newConn, data)
         })
 
@@ -234,13 +251,14 @@ export class ServerInstance {
             return
         }
 
-        // FIX ME: temporary workaround because Docker sets the NAT IP address when creating a session in usermanager.ts
-        /* if (session.externalNet.ipAddress !== rinfo.address) {
-            console.warn('Holepunch IP address is different from session\'s IP. Is someone spoofing packets?'
-                + 'userId: %i original IP: %s packet IP: %s',
-                packet.userId, session.externalNet.ipAddress, rinfo.address)
+        if (
+            HolepunchGuard.canRegister(session, packet, rinfo.address) === false
+        ) {
+            console.warn(
+                `Refused a holepunch packet for user ID ${packet.userId} from ${rinfo.address}. Is someone spoofing packets?`
+            )
             return
-        }*/
+        }
 
         if (
             session.shouldUpdatePorts(
@@ -265,52 +283,52 @@ export class ServerInstance {
             return
         }
 
+        const oldNatType: NatType = session.natInfo.getType()
+        session.natInfo.addMapping(
+            packet.portId,
+            packet.ipAddress,
+            packet.port,
+            rinfo.address,
+            rinfo.port
+        )
+        const newNatType: NatType = session.natInfo.getType()
+
+        if (newNatType !== oldNatType) {
+            console.log(
+                `user ID ${packet.userId}'s NAT is ${
+                    NatType[newNatType]
+                } (${session.natInfo.describeMappings()})`
+            )
+        }
+
         const reply: Buffer = new OutHolepunchPacketUdp(portIndex).build()
         this.holepunchServer.send(reply, packet.port, packet.ipAddress)
     }
 
     /**
      * Called when a socket receives data
+     * disconnects the client if it sends something that isn't a packet
      * @param conn the client's socket
      * @param data the data received from the client
      */
-    private async onSocketData(conn: ExtendedSocket, data: string) {
-        // the data comes in as a string, so we need to convert it to a buffer
-        const newData: Buffer = Buffer.from(data, 'hex')
-        // process the received data
-        await this.processPackets(newData, conn)
-    }
+    private async onSocketData(conn: ExtendedSocket, data: Buffer) {
+        const packets: InPacketBase[] = conn.readPackets(data)
 
-    private GetPacketLength(data: Buffer): number {
-        try {
-            const pkt = new InPacketBase(data)
-            return pkt.length + InPacketBase.headerLength
-        } catch (error) {
-            return 0
+        if (packets == null) {
+            console.warn(
+                `connection ${conn.uuid} sent an invalid or too big packet, disconnecting it`
+            )
+            conn.destroy()
+            return
         }
-    }
-
-    private async processPackets(packetData: Buffer, conn: ExtendedSocket) {
-        const fullDataLen = packetData.length
-        let nextPktLen = 0
-
-        for (
-            let curOffset = 0;
-            curOffset + InPacketBase.headerLength <= fullDataLen;
-            curOffset += nextPktLen
-        ) {
-            nextPktLen = this.GetPacketLength(packetData.slice(curOffset))
 
-            if (nextPktLen === 0) {
-                console.error('processPackets: got a null length packet')
+        for (const packet of packets) {
+            // kicked, banned or replaced connections can't do anything else
+            if (conn.disconnecting === true) {
                 return
             }
 
-            const curPacket = new InPacketBase(
-                packetData.slice(curOffset, curOffset + nextPktLen)
-            )
-
-            await this.onIncomingPacket(curPacket, conn)
+            await this.onIncomingPacket(packet, conn)
         }
     }
 
@@ -347,25 +365,33 @@ export class ServerInstance {
             case PacketId.Room:
                 return ChannelManager.onRoomRequest(data, connection)
             case PacketId.Chat:
-                return this.chatHandler.OnPacket(data, connection)
+                return await this.chatHandler.OnPacket(data, connection)
             case PacketId.Achievement:
-                return this.achievementHandler.OnPacket(data, connection)
+                return await this.achievementHandler.OnPacket(data, connection)
             case PacketId.RequestChannels:
                 return ChannelManager.onChannelListPacket(connection)
             case PacketId.RequestRoomList:
-                return ChannelManager.onRoomListPacket(data, connection)
+                return await this.onRoomListPacket(data, connection)
+            case PacketId.QuickStart:
+                return ChannelManager.onQuickStartPacket(data, connection)
+            case PacketId.Automatch:
+                return ChannelManager.onAutomatchPacket(data, connection)
             case PacketId.AboutMe:
                 return await UserManager.onAboutmePacket(data, connection)
             case PacketId.Option:
                 return await UserManager.onOptionPacket(data, connection)
             case PacketId.Favorite:
                 return await UserManager.onFavoritePacket(data, connection)
+            case PacketId.Shop:
+                return await this.shopHandler.OnPacket(data, connection)
+            case PacketId.Friend:
+                return await this.friendHandler.OnPacket(data, connection)
+            case PacketId.UnReaded_Message:
+                return await this.mailHandler.OnPacket(data, connection)
+            case PacketId.Ban:
+                return await this.banHandler.OnPacket(data, connection)
             case PacketId.Login:
-                return await UserManager.onLoginPacket(
-                    data,
-                    connection,
-                    this.holepunchPort
-                )
+                return await this.onLoginPacket(data, connection)
             case PacketId.Version:
                 return ServerInstance.onVersionPacket(data, connection)
         }
@@ -374,6 +400,59 @@ export class ServerInstance {
         return false
     }
 
+    /**
+     * logs in an user, lets its friends know about it and
+     * tells the user about its unread mails
+     * @param data the login packet's data
+     * @param connection the user's connection
+     * @returns true if successful, otherwise it failed
+     */
+    private async onLoginPacket(
+        data: Buffer,
+        connection: ExtendedSocket
+    ): Promise<boolean> {
+        const loggedIn = await UserManager.onLoginPacket(
+            data,
+            connection,
+            this.holepunchPort
+        )
+
+        if (loggedIn === false) {
+            return false
+        }
+
+        await this.friendHandler.SendFriendsListTo(connection)
+        await this.friendHandler.NotifyFriendsOf(connection, true)
+
+        connection.send(
+            OutMailPacket.unreadCount(connection.session.user.unreaded_message)
+        )
+
+        return true
+    }
+
+    /**
+     * moves an user to the requested channel
+     * tells the user's friends about its new channel
+     * @param data the room list request packet's data
+     * @param connection the user's connection
+     * @returns true if successful, otherwise it failed
+     */
+    private async onRoomListPacket(
+        data: Buffer,
+        connection: ExtendedSocket
+    ): Promise<boolean> {
+        const moved = ChannelManager.onRoomListPacket(data, connection)
+
+        if (moved === false) {
+            return false
+        }
+
+        await this.friendHandler.NotifyFriendsOf(connection, true)
+
+        return true
+    }
+
     /**
      * Called when a socket closes connection
      * @param conn the client's connection
@@ -388,9 +467,20 @@ export class ServerInstance {
                 hadError ? 'true' : 'false'
             }`
         )
+        AutomatchQueue.cleanUpUser(conn)
         Room.cleanUpUser(conn)
+        Party.cleanUpUser(conn)
         await UserManager.OnSocketClosed(conn)
         ActiveConnections.Singleton().Remove(conn)
+
+        // a replaced connection's user is still online with its new one
+        if (
+            conn.session != null &&
+            ActiveConnections.Singleton().FindByOwnerId(conn.session.user.id) ==
+                null
+        ) {
+            await this.friendHandler.NotifyFriendsOf(conn, false)
+        }
     }
 
     /**
@@ -431,8 +521,6 @@ export class ServerInstance {
             this.packetLogging
         )
 
-        // treat data as hexadecimal
-        newConn.setEncoding('hex')
         // give the connection an unique uuid
         newConn.uuid = uuid()
         // init sequence number
@@ -2,7 +2,22 @@ import LRUCache from 'lru-cache'
 import superagent from 'superagent'
 
 import { UserSvcPing } from 'authorities'
+import { ICampaignRewardItem } from 'user/campaignrewardconfig'
 import { User } from 'user/user'
+import { UserBan } from 'user/userban'
+
+export type UserCurrencies = Pick<User, 'points' | 'cash' | 'mpoints'>
+
+/**
+ * the result of an user's login attempt
+ */
+export interface IUserLogin {
+    // the user's ID if successful, 0 if it failed, -1 if the credentials are
+    // wrong, -2 if the user is banned
+    userId: number
+    // the ban refusing the user, null if it isn't banned
+    ban: UserBan
+}
 
 export class UserService {
     private static baseUrl: string
@@ -19,16 +34,21 @@ export class UserService {
     }
 
     /**
-     * get an user's by its ID
-     * @param userId the user's ID
-     * @returns the user object if found, null otherwise
+     * check an user's credentials and start its online session
+     * @param username the user's name
+     * @param password the user's password
+     * @param ipAddress the address the user logs in from
+     * @param sessionId the new session's ID, replaces the user's old session
+     * @returns the user's ID, along with its ban if it's banned
      */
     public static async Login(
         username: string,
-        password: string
-    ): Promise<number> {
+        password: string,
+        ipAddress: string,
+        sessionId: string
+    ): Promise<IUserLogin> {
         if (UserSvcPing.isAlive() === false) {
-            return 0
+            return { userId: 0, ban: null }
         }
 
         try {
@@ -36,32 +56,45 @@ export class UserService {
                 .post(this.baseUrl + '/users/auth/login')
                 .send({
                     username,
-                    password
+                    password,
+                    ipAddress,
+                    sessionId
                 })
                 .accept('json')
 
             if (res.status === 200) {
                 const typedBody = res.body as { userId: number }
-                return typedBody.userId
+                return { userId: typedBody.userId, ban: null }
             }
         } catch (error) {
-            const typedError = error as { status: number }
+            const typedError = error as {
+                status: number
+                response: { body: UserBan }
+            }
             if (typedError.status === 401) {
-                return -1
+                return { userId: -1, ban: null }
+            }
+            // the account or its IP address are banned
+            if (typedError.status === 403) {
+                return { userId: -2, ban: typedError.response.body }
             }
             console.error(error)
             await UserSvcPing.checkNow()
         }
 
-        return 0
+        return { userId: 0, ban: null }
     }
 
     /**
-     * get an user's by its ID
+     * end an user's online session
      * @param userId the user's ID
-     * @returns the user object if found, null otherwise
+     * @param sessionId the session's ID, nothing happens if it was replaced
+     * @returns true if successful, false if not
      */
-    public static async Logout(userId: number): Promise<boolean> {
+    public static async Logout(
+        userId: number,
+        sessionId: string
+    ): Promise<boolean> {
         if (UserSvcPing.isAlive() === false) {
             return false
         }
@@ -70,7 +103,8 @@ export class UserService {
             const res: superagent.Response = await superagent
                 .post(this.baseUrl + '/users/auth/logout')
                 .send({
-                    userId
+                    userId,
+                    sessionId
                 })
                 .accept('json')
 
@@ -85,6 +119,31 @@ export class UserService {
         return false
     }
 
+    /**
+     * end every online session, such as the ones left by a crash
+     * @returns true if successful, false if not
+     */
+    public static async ClearOnlineSessions(): Promise<boolean> {
+        if (UserSvcPing.isAlive() === false) {
+            return false
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .delete(this.baseUrl + '/sessions')
+                .accept('json')
+
+            if (res.status === 200) {
+                return true
+            }
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+        }
+
+        return false
+    }
+
     /**
      * get an user's by its ID
      * @param userId the user's ID
@@ -120,6 +179,41 @@ export class UserService {
         }
     }
 
+    /**
+     * get an user by its ingame player name
+     * @param playerName the user's player name
+     * @returns the user object if found, null otherwise
+     */
+    public static async GetUserByPlayerName(playerName: string): Promise<User> {
+        try {
+            if (UserSvcPing.isAlive() === false) {
+                return null
+            }
+
+            const res: superagent.Response = await superagent
+                .get(
+                    this.baseUrl +
+                        `/users/byplayername/${encodeURIComponent(playerName)}`
+                )
+                .accept('json')
+            if (res.status === 200) {
+                // HACK to get methods working
+                const user = new User()
+                Object.assign(user, res.body)
+                return user
+            }
+            return null
+        } catch (error) {
+            const typedError = error as { status: number }
+            if (typedError.status === 404) {
+                return null
+            }
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
     /**
      * update an user
      * @param targetUser the user containing the data to be updated
@@ -177,4 +271,102 @@ export class UserService {
 
         return false
     }
+
+    /**
+     * add amounts to an user's currencies in a single query,
+     * so concurrent charges can't spend the same balance twice
+     * @param amounts the amount to add to each currency, negative to charge
+     * @param targetUserId the user's ID
+     * @returns the user's new currencies if successful,
+     * null if the user can't afford the charge or the request failed
+     */
+    public static async AddCurrencies(
+        amounts: Partial<UserCurrencies>,
+        targetUserId: number
+    ): Promise<UserCurrencies> {
+        try {
+            const res: superagent.Response = await superagent
+                .post(this.baseUrl + `/users/${targetUserId}/currencies`)
+                .send(amounts)
+                .accept('json')
+
+            if (res.status === 200) {
+                const currencies = res.body as UserCurrencies
+
+                if (this.userCache.has(targetUserId) === true) {
+                    const cachedUser = this.userCache.get(targetUserId)
+                    Object.assign(cachedUser, currencies)
+                    this.userCache.set(targetUserId, cachedUser)
+                }
+
+                return currencies
+            }
+        } catch (error) {
+            const typedError = error as { status: number }
+            // the user can't afford it
+            if (typedError.status === 409) {
+                return null
+            }
+
+            console.error(error)
+            await UserSvcPing.checkNow()
+        }
+
+        return null
+    }
+
+    /**
+     * set an user's finished campaign flag and give it the campaign's
+     * rewards in a single request, so a campaign can't be rewarded twice
+     * @param campaignId the finished campaign's flag
+     * @param points the points to give
+     * @param items the items to add to the user's inventory
+     * @param updatedMembers the user's new progression, titles and avatars
+     * @param targetUserId the user's ID
+     * @returns the user's new currencies if successful,
+     * null if the user already finished the campaign or the request failed
+     */
+    public static async FinishCampaign(
+        campaignId: number,
+        points: number,
+        items: ICampaignRewardItem[],
+        updatedMembers: Omit<Partial<User>, 'id'>,
+        targetUserId: number
+    ): Promise<UserCurrencies> {
+        try {
+            const res: superagent.Response = await superagent
+                .post(this.baseUrl + `/users/${targetUserId}/campaigns`)
+                .send({
+                    campaignId,
+                    points,
+                    items,
+                    ...updatedMembers
+                })
+                .accept('json')
+
+            if (res.status === 200) {
+                const currencies = res.body as UserCurrencies
+
+                if (this.userCache.has(targetUserId) === true) {
+                    const cachedUser = this.userCache.get(targetUserId)
+                    Object.assign(cachedUser, updatedMembers, currencies)
+                    cachedUser.campaign_flags |= campaignId
+                    this.userCache.set(targetUserId, cachedUser)
+                }
+
+                return currencies
+            }
+        } catch (error) {
+            const typedError = error as { status: number }
+            // the user already finished the campaign
+            if (typedError.status === 409) {
+                return null
+            }
+
+            console.error(error)
+            await UserSvcPing.checkNow()
+        }
+
+        return null
+    }
 }
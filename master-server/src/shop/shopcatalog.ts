@@ -0,0 +1,64 @@
+import { ConfigFile } from 'config/configfile'
+
+import { ShopItem, ShopPaymentOption } from 'gametypes/shopitem'
+
+import { ShopConfig } from 'shop/shopconfig'
+
+/**
+ * a payment option along with the item it buys
+ */
+export interface IShopPaymentEntry {
+    item: ShopItem
+    option: ShopPaymentOption
+}
+
+/**
+ * stores the items sold in the shop
+ * @class ShopCatalog
+ */
+export class ShopCatalog {
+    public static readonly config = new ConfigFile<ShopItem[]>({
+        name: 'shop items',
+        parse: (fileData: unknown) => ShopConfig.parse(fileData),
+        defaults: [],
+        onLoad: (items: ShopItem[]) => ShopCatalog.mapPayOptions(items)
+    })
+
+    /**
+     * the items sold in the shop
+     */
+    public static getItems(): ShopItem[] {
+        return this.config.get()
+    }
+
+    /**
+     * get a payment option by the ID sent to the game client
+     * @param payOptionId the payment option's ID
+     * @returns the payment option and its item, or null if it doesn't exist
+     */
+    public static getPayOption(payOptionId: number): IShopPaymentEntry {
+        const entry = this.payOptions.get(payOptionId)
+        return entry != null ? entry : null
+    }
+
+    // maps payment option IDs to their items
+    private static payOptions: Map<number, IShopPaymentEntry> = new Map<
+        number,
+        IShopPaymentEntry
+    >()
+
+    private static mapPayOptions(items: ShopItem[]): void {
+        const payOptions = new Map<number, IShopPaymentEntry>()
+
+        // the IDs must be numbered the same way OutShopCreate does it
+        let nextOptIndex = 1
+
+        for (const item of items) {
+            for (const option of item.payOptions) {
+                payOptions.set(nextOptIndex++, { item, option })
+            }
+        }
+
+        this.payOptions = payOptions
+    }
+}
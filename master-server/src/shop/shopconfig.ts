@@ -0,0 +1,136 @@
+import {
+    ShopCurrency,
+    ShopItem,
+    ShopItemFlags,
+    ShopPaymentOption
+} from 'gametypes/shopitem'
+
+/**
+ * a payment option as written in the config file
+ */
+interface IShopOptionFileEntry {
+    quantity: number
+    previousPrice: number
+    price: number
+    discountPercent?: number
+    mileageReward?: number
+    flags?: string[]
+}
+
+/**
+ * a shop item as written in the config file
+ */
+interface IShopItemFileEntry {
+    itemId: number
+    currency: string
+    options: IShopOptionFileEntry[]
+}
+
+/**
+ * reads the items sold in the shop from a JSON config file
+ * @class ShopConfig
+ */
+export class ShopConfig {
+    /**
+     * validate a shop config file's data
+     * @param fileData the config file's data
+     * @returns the shop's items
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): ShopItem[] {
+        const data = fileData as {
+            items: IShopItemFileEntry[]
+        }
+
+        if (data == null || Array.isArray(data.items) === false) {
+            throw new Error('the config must have an items array')
+        }
+
+        return data.items.map((entry: IShopItemFileEntry) =>
+            ShopConfig.parseItem(entry)
+        )
+    }
+
+    private static parseItem(entry: IShopItemFileEntry): ShopItem {
+        if (ShopConfig.isValidAmount(entry.itemId) === false) {
+            throw new Error('every shop item must have an itemId')
+        }
+
+        const payCurrency =
+            ShopCurrency[entry.currency as keyof typeof ShopCurrency]
+
+        if (payCurrency == null) {
+            throw new Error(
+                `the shop item ${entry.itemId} has an unknown currency "${entry.currency}"`
+            )
+        }
+
+        if (
+            Array.isArray(entry.options) === false ||
+            entry.options.length === 0
+        ) {
+            throw new Error(
+                `the shop item ${entry.itemId} must have at least one option`
+            )
+        }
+
+        return {
+            itemId: entry.itemId,
+            payCurrency,
+            payOptions: entry.options.map((option: IShopOptionFileEntry) =>
+                ShopConfig.parseOption(entry.itemId, option)
+            )
+        }
+    }
+
+    private static parseOption(
+        itemId: number,
+        entry: IShopOptionFileEntry
+    ): ShopPaymentOption {
+        const discountPercent: number =
+            entry.discountPercent != null ? entry.discountPercent : 0
+        const mileageReward: number =
+            entry.mileageReward != null ? entry.mileageReward : 0
+
+        if (
+            ShopConfig.isValidAmount(entry.quantity) === false ||
+            ShopConfig.isValidAmount(entry.previousPrice) === false ||
+            ShopConfig.isValidAmount(entry.price) === false ||
+            ShopConfig.isValidAmount(discountPercent) === false ||
+            ShopConfig.isValidAmount(mileageReward) === false
+        ) {
+            throw new Error(`the shop item ${itemId} has an invalid option`)
+        }
+
+        let flags = 0
+
+        for (const name of entry.flags != null ? entry.flags : []) {
+            const flag = ShopItemFlags[name as keyof typeof ShopItemFlags]
+
+            if (flag == null) {
+                throw new Error(
+                    `the shop item ${itemId} has an unknown flag "${name}"`
+                )
+            }
+
+            flags |= flag
+        }
+
+        return {
+            quantity: entry.quantity,
+            previousPrice: entry.previousPrice,
+            price: entry.price,
+            discountPercent,
+            mileageReward,
+            flags
+        }
+    }
+
+    private static isValidAmount(value: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value >= 0
+        )
+    }
+}
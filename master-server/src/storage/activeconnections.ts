@@ -37,11 +37,28 @@ export class ActiveConnections {
         return null
     }
 
+    public FindAllByAddress(address: string): ExtendedSocket[] {
+        return this.connections.filter(
+            (conn: ExtendedSocket) => conn.remoteAddress === address
+        )
+    }
+
+    public Recurse(fn: (conn: ExtendedSocket) => void): void {
+        for (const conn of this.connections) {
+            fn(conn)
+        }
+    }
+
     public Add(conn: ExtendedSocket): void {
         this.connections.push(conn)
     }
 
     public Remove(conn: ExtendedSocket): void {
-        this.connections.splice(this.connections.indexOf(conn), 1)
+        const index: number = this.connections.indexOf(conn)
+
+        // replaced sessions are removed before their socket closes
+        if (index !== -1) {
+            this.connections.splice(index, 1)
+        }
     }
 }
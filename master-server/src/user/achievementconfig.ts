@@ -0,0 +1,134 @@
+// the unlocked achievements are sent as a 1024 bits long bitset
+export const MAX_ACHIEVEMENT_ID = 1023
+
+/**
+ * the gameplay events that make progress towards achievements
+ */
+export enum AchievementEvent {
+    Kills,
+    Headshots,
+    RoundsWon,
+    MatchesPlayed,
+    MatchesWon,
+    // the target is the campaign's ID
+    CampaignFinished,
+    // the target is the weapon's item ID
+    WeaponKills
+}
+
+/**
+ * an achievement's rules
+ */
+export interface IAchievementDefinition {
+    id: number
+    name: string
+    event: AchievementEvent
+    // how many times the event must happen
+    goal: number
+    // the campaign or weapon the event must be about, 0 for any
+    target: number
+}
+
+/**
+ * an achievement as written in the config file
+ */
+interface IAchievementFileEntry {
+    id: number
+    name: string
+    event: string
+    goal: number
+    target?: number
+}
+
+/**
+ * reads the achievements definitions from a JSON config file
+ * @class AchievementConfig
+ */
+export class AchievementConfig {
+    /**
+     * validate an achievements config file's data
+     * @param fileData the config file's data
+     * @returns the achievements definitions
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): IAchievementDefinition[] {
+        const data = fileData as {
+            achievements: IAchievementFileEntry[]
+        }
+
+        if (data == null || Array.isArray(data.achievements) === false) {
+            throw new Error('the config must have an achievements array')
+        }
+
+        const definitions: IAchievementDefinition[] = data.achievements.map(
+            (entry: IAchievementFileEntry) =>
+                AchievementConfig.parseAchievement(entry)
+        )
+
+        const ids = new Set<number>()
+
+        for (const definition of definitions) {
+            if (ids.has(definition.id)) {
+                throw new Error(
+                    `the achievement ID ${definition.id} is used more than once`
+                )
+            }
+
+            ids.add(definition.id)
+        }
+
+        return definitions
+    }
+
+    private static parseAchievement(
+        entry: IAchievementFileEntry
+    ): IAchievementDefinition {
+        if (
+            AchievementConfig.isValidInteger(entry.id, 0) === false ||
+            entry.id > MAX_ACHIEVEMENT_ID
+        ) {
+            throw new Error(
+                `every achievement must have an id between 0 and ${MAX_ACHIEVEMENT_ID}`
+            )
+        }
+
+        if (typeof entry.name !== 'string' || entry.name.length === 0) {
+            throw new Error(`the achievement ${entry.id} must have a name`)
+        }
+
+        const event =
+            AchievementEvent[entry.event as keyof typeof AchievementEvent]
+
+        if (event == null) {
+            throw new Error(
+                `the achievement ${entry.id} has an unknown event "${entry.event}"`
+            )
+        }
+
+        if (AchievementConfig.isValidInteger(entry.goal, 1) === false) {
+            throw new Error(`the achievement ${entry.id} has an invalid goal`)
+        }
+
+        const target: number = entry.target != null ? entry.target : 0
+
+        if (AchievementConfig.isValidInteger(target, 0) === false) {
+            throw new Error(`the achievement ${entry.id} has an invalid target`)
+        }
+
+        return {
+            id: entry.id,
+            name: entry.name,
+            event,
+            goal: entry.goal,
+            target
+        }
+    }
+
+    private static isValidInteger(value: number, min: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value >= min
+        )
+    }
+}
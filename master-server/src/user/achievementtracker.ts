@@ -0,0 +1,220 @@
+import { ConfigFile } from 'config/configfile'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { ChatMessageType } from 'packets/definitions'
+import { OutChatPacket } from 'packets/out/chat'
+import { OutUserInfoPacket } from 'packets/out/userinfo'
+
+import { RoomUserEntry } from 'room/roomuserentry'
+
+import {
+    AchievementConfig,
+    AchievementEvent,
+    IAchievementDefinition
+} from 'user/achievementconfig'
+import { ProfileUnlocks } from 'user/profileunlocks'
+import { User } from 'user/user'
+import {
+    IUserAchievementProgress,
+    UserAchievements
+} from 'user/userachievements'
+
+import { UserService } from 'services/userservice'
+
+/**
+ * something an user did that may count towards achievements
+ */
+export interface IAchievementEventData {
+    event: AchievementEvent
+    amount: number
+    // the campaign or weapon the event is about, 0 if none
+    target: number
+}
+
+/**
+ * watches the users' gameplay events and unlocks their achievements
+ * @class AchievementTracker
+ */
+export class AchievementTracker {
+    public static readonly config = new ConfigFile<IAchievementDefinition[]>({
+        name: 'achievements',
+        parse: (fileData: unknown) => AchievementConfig.parse(fileData),
+        defaults: []
+    })
+
+    /**
+     * is an achievement unlocked by an user?
+     * @param user the target user
+     * @param achievementId the achievement's ID
+     * @returns true if so, false if not
+     */
+    public static isUnlocked(user: User, achievementId: number): boolean {
+        const bits: number = user.unlocked_achievements[achievementId >> 3]
+        return (bits & (1 << (achievementId & 7))) !== 0
+    }
+
+    /**
+     * count an user's stats of a match towards its achievements
+     * @param entry the user's room entry with its match stats
+     * @param playedMatch false if the user left before the match ended
+     * @param won true if the user's team won the match
+     * @returns true if successful, false if not
+     */
+    public static async onMatchEnded(
+        entry: RoomUserEntry,
+        playedMatch: boolean,
+        won: boolean
+    ): Promise<boolean> {
+        const events: IAchievementEventData[] = [
+            { event: AchievementEvent.Kills, amount: entry.kills, target: 0 },
+            {
+                event: AchievementEvent.Headshots,
+                amount: entry.headshots,
+                target: 0
+            },
+            {
+                event: AchievementEvent.RoundsWon,
+                amount: entry.roundsWon,
+                target: 0
+            },
+            {
+                event: AchievementEvent.MatchesPlayed,
+                amount: playedMatch ? 1 : 0,
+                target: 0
+            },
+            {
+                event: AchievementEvent.MatchesWon,
+                amount: playedMatch && won ? 1 : 0,
+                target: 0
+            }
+        ]
+
+        for (const [weaponId, kills] of entry.weaponKills) {
+            events.push({
+                event: AchievementEvent.WeaponKills,
+                amount: kills,
+                target: weaponId
+            })
+        }
+
+        return await this.track(entry.conn, events)
+    }
+
+    /**
+     * count a finished campaign towards an user's achievements
+     * @param conn the user's connection
+     * @param campaignId the finished campaign's ID
+     * @returns true if successful, false if not
+     */
+    public static async onCampaignFinished(
+        conn: ExtendedSocket,
+        campaignId: number
+    ): Promise<boolean> {
+        return await this.track(conn, [
+            {
+                event: AchievementEvent.CampaignFinished,
+                amount: 1,
+                target: campaignId
+            }
+        ])
+    }
+
+    /**
+     * add the events' progress to the achievements an user hasn't unlocked yet
+     * unlocks and notifies the user of the achievements that reached their goal
+     * @param conn the user's connection
+     * @param events the events that happened
+     * @returns true if successful, false if not
+     */
+    private static async track(
+        conn: ExtendedSocket,
+        events: IAchievementEventData[]
+    ): Promise<boolean> {
+        const user: User = conn.session.user
+        const newProgress = new Map<number, number>()
+
+        for (const definition of this.config.get()) {
+            if (this.isUnlocked(user, definition.id) === true) {
+                continue
+            }
+
+            let amount = 0
+
+            for (const e of events) {
+                if (
+                    e.event === definition.event &&
+                    (definition.target === 0 || definition.target === e.target)
+                ) {
+                    amount += e.amount
+                }
+            }
+
+            if (amount !== 0) {
+                newProgress.set(definition.id, amount)
+            }
+        }
+
+        if (newProgress.size === 0) {
+            return true
+        }
+
+        const progress: IUserAchievementProgress[] = await UserAchievements.addProgress(
+            user.id,
+            newProgress
+        )
+
+        if (progress == null) {
+            return false
+        }
+
+        const earned: IAchievementDefinition[] = this.config
+            .get()
+            .filter(
+                (d: IAchievementDefinition) =>
+                    progress.find(
+                        (p: IUserAchievementProgress) =>
+                            p.achievement_id === d.id && p.progress >= d.goal
+                    ) != null
+            )
+
+        if (earned.length === 0) {
+            return true
+        }
+
+        const unlocked: number[] = user.unlocked_achievements.slice()
+
+        for (const definition of earned) {
+            unlocked[definition.id >> 3] |= 1 << (definition.id & 7)
+        }
+
+        if (
+            (await UserService.UpdatePartial(
+                { unlocked_achievements: unlocked },
+                user.id
+            )) === false
+        ) {
+            console.warn(
+                `AchievementTracker: failed to unlock user ${user.id}'s achievements`
+            )
+            return false
+        }
+
+        user.unlocked_achievements = unlocked
+        conn.send(OutUserInfoPacket.updateAchievements(user))
+
+        for (const definition of earned) {
+            conn.send(
+                OutChatPacket.systemMessage(
+                    `Achievement unlocked: ${definition.name}`,
+                    ChatMessageType.System
+                )
+            )
+            console.log(
+                `user ${user.id} unlocked the achievement ${definition.id}`
+            )
+        }
+
+        return await ProfileUnlocks.update(conn)
+    }
+}
@@ -0,0 +1,165 @@
+import {
+    IsMissionCampaignIdValid,
+    MissionCampaignIds
+} from 'packets/definitions'
+
+import { MAX_PROFILE_UNLOCK_ID } from 'user/profileunlockconfig'
+
+/**
+ * an item given by a campaign
+ */
+export interface ICampaignRewardItem {
+    itemId: number
+    ammount: number
+}
+
+/**
+ * what an user gets the first time it finishes a campaign
+ */
+export interface ICampaignReward {
+    xp?: number
+    points?: number
+    title?: number
+    avatar?: number
+    items?: ICampaignRewardItem[]
+}
+
+/**
+ * a campaign's rewards as written in the config file
+ */
+interface ICampaignRewardFileEntry extends ICampaignReward {
+    campaignId: number
+}
+
+/**
+ * reads the campaigns' rewards from a JSON config file
+ * @class CampaignRewardConfig
+ */
+export class CampaignRewardConfig {
+    /**
+     * validate a campaign rewards config file's data
+     * @param fileData the config file's data
+     * @returns the rewards of each campaign
+     * @throws Error if the data is invalid
+     */
+    public static parse(
+        fileData: unknown
+    ): Map<MissionCampaignIds, ICampaignReward> {
+        const data = fileData as {
+            campaigns: ICampaignRewardFileEntry[]
+        }
+
+        if (data == null || Array.isArray(data.campaigns) === false) {
+            throw new Error('the config must have a campaigns array')
+        }
+
+        const rewards = new Map<MissionCampaignIds, ICampaignReward>()
+
+        for (const entry of data.campaigns) {
+            if (IsMissionCampaignIdValid(entry.campaignId) === false) {
+                throw new Error(
+                    `unknown campaign ID ${entry.campaignId} in the rewards`
+                )
+            }
+
+            if (rewards.has(entry.campaignId)) {
+                throw new Error(
+                    `the campaign ${entry.campaignId} has more than one reward`
+                )
+            }
+
+            rewards.set(
+                entry.campaignId,
+                CampaignRewardConfig.parseReward(entry)
+            )
+        }
+
+        return rewards
+    }
+
+    private static parseReward(
+        entry: ICampaignRewardFileEntry
+    ): ICampaignReward {
+        const reward: ICampaignReward = {}
+
+        if (entry.xp != null) {
+            if (CampaignRewardConfig.isValidInteger(entry.xp, 1) === false) {
+                throw new Error(
+                    `the campaign ${entry.campaignId} has an invalid xp reward`
+                )
+            }
+
+            reward.xp = entry.xp
+        }
+
+        if (entry.points != null) {
+            if (
+                CampaignRewardConfig.isValidInteger(entry.points, 1) === false
+            ) {
+                throw new Error(
+                    `the campaign ${entry.campaignId} has an invalid points reward`
+                )
+            }
+
+            reward.points = entry.points
+        }
+
+        if (entry.title != null) {
+            if (CampaignRewardConfig.isValidProfileId(entry.title) === false) {
+                throw new Error(
+                    `the campaign ${entry.campaignId} has an invalid title reward`
+                )
+            }
+
+            reward.title = entry.title
+        }
+
+        if (entry.avatar != null) {
+            if (CampaignRewardConfig.isValidProfileId(entry.avatar) === false) {
+                throw new Error(
+                    `the campaign ${entry.campaignId} has an invalid avatar reward`
+                )
+            }
+
+            reward.avatar = entry.avatar
+        }
+
+        if (entry.items != null) {
+            if (
+                Array.isArray(entry.items) === false ||
+                entry.items.some(
+                    (item: ICampaignRewardItem) =>
+                        CampaignRewardConfig.isValidInteger(item.itemId, 1) ===
+                            false ||
+                        CampaignRewardConfig.isValidInteger(item.ammount, 1) ===
+                            false
+                )
+            ) {
+                throw new Error(
+                    `the campaign ${entry.campaignId} has an invalid item reward`
+                )
+            }
+
+            reward.items = entry.items.map((item: ICampaignRewardItem) => {
+                return { itemId: item.itemId, ammount: item.ammount }
+            })
+        }
+
+        return reward
+    }
+
+    private static isValidProfileId(value: number): boolean {
+        return (
+            CampaignRewardConfig.isValidInteger(value, 0) &&
+            value <= MAX_PROFILE_UNLOCK_ID
+        )
+    }
+
+    private static isValidInteger(value: number, min: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value >= min
+        )
+    }
+}
@@ -0,0 +1,289 @@
+import { ConfigFile } from 'config/configfile'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { ChatMessageType, MissionCampaignIds } from 'packets/definitions'
+
+import { OutAchievementPacket } from 'packets/out/achievement'
+import { OutAchUpdCampaignOptions } from 'packets/out/achievement/updatecampaign'
+import { OutChatPacket } from 'packets/out/chat'
+import { OutInventoryPacket } from 'packets/out/inventory'
+import { OutUserInfoPacket } from 'packets/out/userinfo'
+
+import {
+    CampaignRewardConfig,
+    ICampaignReward,
+    ICampaignRewardItem
+} from 'user/campaignrewardconfig'
+import { ProfileUnlocks } from 'user/profileunlocks'
+import { User } from 'user/user'
+import { UserInventory } from 'user/userinventory'
+import { UserInventoryItem } from 'user/userinventoryitem'
+import { UserProgression } from 'user/userprogression'
+
+import { UserCurrencies, UserService } from 'services/userservice'
+
+/**
+ * shows and gives out the campaigns' rewards
+ * @class CampaignRewards
+ */
+export class CampaignRewards {
+    public static readonly config = new ConfigFile<
+        Map<MissionCampaignIds, ICampaignReward>
+    >({
+        name: 'campaign rewards',
+        parse: (fileData: unknown) => CampaignRewardConfig.parse(fileData),
+        defaults: new Map<MissionCampaignIds, ICampaignReward>()
+    })
+
+    /**
+     * get a campaign's rewards
+     * the campaigns missing from the config have no rewards to show nor give
+     * @param campaignId the campaign's ID
+     * @returns the campaign's rewards, or null if it has none
+     */
+    public static getReward(campaignId: MissionCampaignIds): ICampaignReward {
+        const reward: ICampaignReward = this.config.get().get(campaignId)
+        return reward != null ? reward : null
+    }
+
+    /**
+     * build the packet that shows a campaign's rewards to the client
+     * @param campaignId the campaign's ID
+     * @returns the campaign packet, or null if the campaign has no rewards
+     */
+    public static buildRewardPacket(
+        campaignId: MissionCampaignIds
+    ): OutAchievementPacket {
+        const reward: ICampaignReward = this.getReward(campaignId)
+
+        if (reward == null) {
+            return null
+        }
+
+        const options: OutAchUpdCampaignOptions = {}
+
+        if (reward.title != null) {
+            options.rewardTitle = reward.title
+        }
+
+        if (reward.avatar != null) {
+            options.rewardIcon = reward.avatar
+        }
+
+        if (reward.points != null) {
+            options.rewardPoints = reward.points
+        }
+
+        if (reward.xp != null) {
+            options.rewardXp = reward.xp
+        }
+
+        if (reward.items != null) {
+            options.rewardItems = reward.items.map(
+                (item: ICampaignRewardItem) => {
+                    return {
+                        itemId: item.itemId,
+                        ammount: item.ammount,
+                        timeLimited: false
+                    }
+                }
+            )
+        }
+
+        return OutAchievementPacket.UpdateCampaign(campaignId, options)
+    }
+
+    /**
+     * mark a campaign as finished by an user and give it the campaign's rewards
+     * the campaign flag is saved along with the rewards in a single request,
+     * so the rewards are either given once or not at all
+     * @param conn the user's connection
+     * @param campaignId the finished campaign's ID
+     * @returns true if successful, false if not
+     */
+    public static async grant(
+        conn: ExtendedSocket,
+        campaignId: MissionCampaignIds
+    ): Promise<boolean> {
+        const user: User = conn.session.user
+
+        if ((user.campaign_flags & campaignId) !== 0) {
+            console.warn(
+                `user ${user.id} already got the rewards of campaign ${campaignId}`
+            )
+            return false
+        }
+
+        const reward: ICampaignReward = this.getReward(campaignId)
+        const oldProgress: Partial<User> = {
+            level: user.level,
+            cur_xp: user.cur_xp,
+            max_xp: user.max_xp
+        }
+
+        const updatedMembers: Omit<Partial<User>, 'id'> = {}
+        let levelsGained = 0
+
+        if (reward != null && reward.xp != null) {
+            levelsGained = UserProgression.addXp(user, reward.xp)
+            updatedMembers.level = user.level
+            updatedMembers.cur_xp = user.cur_xp
+            updatedMembers.max_xp = user.max_xp
+        }
+
+        if (reward != null && reward.title != null) {
+            updatedMembers.unlocked_titles = this.withBitSet(
+                user.unlocked_titles,
+                reward.title
+            )
+        }
+
+        if (reward != null && reward.avatar != null) {
+            updatedMembers.unlocked_avatars = this.withBitSet(
+                user.unlocked_avatars,
+                reward.avatar
+            )
+        }
+
+        const items: ICampaignRewardItem[] =
+            reward != null && reward.items != null ? reward.items : []
+
+        const currencies: UserCurrencies = await UserService.FinishCampaign(
+            campaignId,
+            reward != null && reward.points != null ? reward.points : 0,
+            items,
+            updatedMembers,
+            user.id
+        )
+
+        if (currencies == null) {
+            console.warn(
+                `Failed to give user ${user.id} the rewards of campaign ${campaignId}`
+            )
+            Object.assign(user, oldProgress)
+            return false
+        }
+
+        Object.assign(user, updatedMembers, currencies)
+        user.campaign_flags |= campaignId
+
+        conn.send(OutUserInfoPacket.updateCampaignFlags(user))
+
+        if (reward != null) {
+            this.sendRewards(conn, reward, levelsGained)
+        }
+
+        console.log(`user ${user.id} got the rewards of campaign ${campaignId}`)
+
+        return await ProfileUnlocks.update(conn)
+    }
+
+    /**
+     * send an user the campaign rewards it was just given
+     * @param conn the user's connection
+     * @param reward the campaign's rewards
+     * @param levelsGained how many levels the reward's XP gave
+     */
+    private static sendRewards(
+        conn: ExtendedSocket,
+        reward: ICampaignReward,
+        levelsGained: number
+    ): void {
+        const user: User = conn.session.user
+
+        if (reward.points != null) {
+            conn.send(OutUserInfoPacket.updateCurrencies(user))
+        }
+
+        if (reward.xp != null) {
+            conn.send(OutUserInfoPacket.updateProgression(user))
+        }
+
+        if (reward.title != null) {
+            conn.send(OutUserInfoPacket.updateUnlockedTitles(user))
+        }
+
+        if (reward.avatar != null) {
+            conn.send(OutUserInfoPacket.updateUnlockedAvatars(user))
+        }
+
+        if (reward.items != null && reward.items.length !== 0) {
+            UserInventory.clearInventoryCache(user.id)
+            conn.send(
+                OutInventoryPacket.addInventory(
+                    reward.items.map(
+                        (item: ICampaignRewardItem) =>
+                            new UserInventoryItem(item.itemId, item.ammount)
+                    )
+                )
+            )
+        }
+
+        this.sendRewardMessage(conn, reward, levelsGained)
+    }
+
+    /**
+     * tell an user what it got from a campaign
+     * @param conn the user's connection
+     * @param reward the campaign's rewards
+     * @param levelsGained how many levels the reward's XP gave
+     */
+    private static sendRewardMessage(
+        conn: ExtendedSocket,
+        reward: ICampaignReward,
+        levelsGained: number
+    ): void {
+        const parts: string[] = []
+
+        if (reward.xp != null) {
+            parts.push(`${reward.xp} XP`)
+        }
+
+        if (reward.points != null) {
+            parts.push(`${reward.points} points`)
+        }
+
+        if (reward.title != null) {
+            parts.push('a new title')
+        }
+
+        if (reward.avatar != null) {
+            parts.push('a new avatar')
+        }
+
+        if (reward.items != null) {
+            parts.push(`${reward.items.length} items`)
+        }
+
+        if (parts.length !== 0) {
+            conn.send(
+                OutChatPacket.systemMessage(
+                    `Campaign rewards: ${parts.join(', ')}.`,
+                    ChatMessageType.System
+                )
+            )
+        }
+
+        if (levelsGained > 0) {
+            conn.send(
+                OutChatPacket.systemMessage(
+                    `You reached level ${conn.session.user.level}!`,
+                    ChatMessageType.System
+                )
+            )
+        }
+    }
+
+    /**
+     * copy a bitset with a bit set
+     * @param bits the bitset to copy
+     * @param bit the bit to set
+     * @returns the new bitset
+     */
+    private static withBitSet(bits: number[], bit: number): number[] {
+        const newBits: number[] = bits.slice()
+        newBits[bit >> 3] |= 1 << (bit & 7)
+        return newBits
+    }
+}
@@ -0,0 +1,98 @@
+import ip from 'ip'
+
+/**
+ * the holepunch config file's data
+ */
+interface IHolepunchFileData {
+    requireToken?: boolean
+    trustedProxies?: string[]
+}
+
+/**
+ * how the holepunch registrations are checked
+ */
+export interface IHolepunchSettings {
+    // send the session's token on login and refuse the holepunch packets
+    // without it, the stock client needs a patched build to send it back
+    requireToken: boolean
+    // the addresses (or CIDR ranges) of the proxies or NATs in front of
+    // the server, such as Docker's, their TCP connections don't have the
+    // player's real address
+    trustedProxies: string[]
+}
+
+/**
+ * reads the holepunch settings from a JSON config file
+ * @class HolepunchConfig
+ */
+export class HolepunchConfig {
+    /**
+     * the settings used when there's no config file
+     */
+    public static getDefaults(): IHolepunchSettings {
+        return {
+            requireToken: true,
+            trustedProxies: []
+        }
+    }
+
+    /**
+     * validate a holepunch config file's data
+     * the settings missing from the file use their default values
+     * @param fileData the config file's data
+     * @returns the holepunch settings
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): IHolepunchSettings {
+        const data = fileData as IHolepunchFileData
+
+        if (data == null || typeof data !== 'object') {
+            throw new Error('the config must have a JSON object')
+        }
+
+        const settings: IHolepunchSettings = HolepunchConfig.getDefaults()
+
+        if (data.requireToken != null) {
+            if (typeof data.requireToken !== 'boolean') {
+                throw new Error('requireToken must be true or false')
+            }
+
+            settings.requireToken = data.requireToken
+        }
+
+        if (data.trustedProxies != null) {
+            if (Array.isArray(data.trustedProxies) === false) {
+                throw new Error('trustedProxies must be an array')
+            }
+
+            for (const proxy of data.trustedProxies) {
+                if (HolepunchConfig.isValidAddress(proxy) === false) {
+                    throw new Error(
+                        `the trusted proxy "${proxy}" isn't an IP address or a CIDR range`
+                    )
+                }
+            }
+
+            settings.trustedProxies = data.trustedProxies
+        }
+
+        return settings
+    }
+
+    private static isValidAddress(address: string): boolean {
+        if (typeof address !== 'string') {
+            return false
+        }
+
+        if (address.includes('/') === false) {
+            return ip.isV4Format(address) || ip.isV6Format(address)
+        }
+
+        try {
+            ip.cidrSubnet(address)
+            return true
+        } catch (error) {
+            return false
+        }
+    }
+}
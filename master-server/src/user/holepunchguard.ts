@@ -0,0 +1,91 @@
+import crypto from 'crypto'
+import ip from 'ip'
+
+import { ConfigFile } from 'config/configfile'
+
+import { InHolepunchPacketUdp } from 'packets/holepunch/inholepunch'
+
+import { HolepunchConfig, IHolepunchSettings } from 'user/holepunchconfig'
+import { UserSession } from 'user/usersession'
+
+/**
+ * stops holepunch packets from overwriting other users' ports
+ * @class HolepunchGuard
+ */
+export class HolepunchGuard {
+    public static readonly config = new ConfigFile<IHolepunchSettings>({
+        name: 'holepunch settings',
+        parse: (fileData: unknown) => HolepunchConfig.parse(fileData),
+        defaults: HolepunchConfig.getDefaults()
+    })
+
+    /**
+     * give a new session its holepunch token
+     * @param session the new session
+     */
+    public static createToken(session: UserSession): void {
+        session.holepunchToken = crypto.randomBytes(4).readUInt32LE(0)
+    }
+
+    /**
+     * get the holepunch token to send on login
+     * the stock client doesn't know about it, so it's only sent when the
+     * holepunch packets must bring it back
+     * @param session the logged in session
+     * @returns the session's token, or null if it shouldn't be sent
+     */
+    public static getClientToken(session: UserSession): number {
+        return this.config.get().requireToken === true
+            ? session.holepunchToken
+            : null
+    }
+
+    /**
+     * can a holepunch packet update a session's ports?
+     * the packets must come from the address the session logged in from,
+     * unless it logged in through a trusted proxy, as then only the token
+     * can tell who sent them
+     * @param session the session the packet is for
+     * @param packet the holepunch packet
+     * @param address the address the packet came from
+     * @returns true if so, false if not
+     */
+    public static canRegister(
+        session: UserSession,
+        packet: InHolepunchPacketUdp,
+        address: string
+    ): boolean {
+        const requireToken: boolean = this.config.get().requireToken
+
+        if (requireToken === true && packet.token !== session.holepunchToken) {
+            return false
+        }
+
+        if (this.isTrustedProxy(session.loginAddress) === true) {
+            // every player behind the proxy shares its address
+            return requireToken === true
+        }
+
+        return ip.isEqual(session.loginAddress, address)
+    }
+
+    /**
+     * is an address one of the proxies or NATs in front of the server?
+     * many players may share it, so it doesn't identify any of them
+     * @param address the address to check
+     * @returns true if so, false if not
+     */
+    public static isTrustedProxy(address: string): boolean {
+        for (const proxy of this.config.get().trustedProxies) {
+            if (proxy.includes('/') === true) {
+                if (ip.cidrSubnet(proxy).contains(address) === true) {
+                    return true
+                }
+            } else if (ip.isEqual(proxy, address) === true) {
+                return true
+            }
+        }
+
+        return false
+    }
+}
@@ -0,0 +1,176 @@
+// the unlocked titles and avatars are sent as 1024 bits long bitsets
+export const MAX_PROFILE_UNLOCK_ID = 1023
+
+/**
+ * what an user must do to unlock a title or an avatar
+ */
+export enum ProfileUnlockRule {
+    // unlocked by everyone
+    Default,
+    // the value is the level to reach
+    Level,
+    // the value is the achievement's ID
+    Achievement,
+    // the value is the campaign's ID
+    Campaign,
+    // unlocked by logging in or playing between the start and end dates
+    Event
+}
+
+/**
+ * how a title or an avatar is unlocked
+ */
+export interface IProfileUnlock {
+    id: number
+    rule: ProfileUnlockRule
+    value: number
+    // only used by event rules
+    start: Date
+    end: Date
+}
+
+/**
+ * the titles and avatars unlock rules
+ */
+export interface IProfileUnlockRules {
+    titles: IProfileUnlock[]
+    avatars: IProfileUnlock[]
+}
+
+/**
+ * a title or an avatar unlock as written in the config file
+ */
+interface IProfileUnlockFileEntry {
+    id: number
+    rule: string
+    value?: number
+    start?: string
+    end?: string
+}
+
+/**
+ * reads the titles and avatars unlock rules from a JSON config file
+ * @class ProfileUnlockConfig
+ */
+export class ProfileUnlockConfig {
+    /**
+     * validate a titles and avatars unlock rules config file's data
+     * @param fileData the config file's data
+     * @returns the unlock rules
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): IProfileUnlockRules {
+        const data = fileData as {
+            titles: IProfileUnlockFileEntry[]
+            avatars: IProfileUnlockFileEntry[]
+        }
+
+        if (
+            data == null ||
+            Array.isArray(data.titles) === false ||
+            Array.isArray(data.avatars) === false
+        ) {
+            throw new Error(
+                'the config must have a titles and an avatars array'
+            )
+        }
+
+        return {
+            titles: ProfileUnlockConfig.parseList(data.titles, 'title'),
+            avatars: ProfileUnlockConfig.parseList(data.avatars, 'avatar')
+        }
+    }
+
+    private static parseList(
+        entries: IProfileUnlockFileEntry[],
+        kind: string
+    ): IProfileUnlock[] {
+        const unlocks: IProfileUnlock[] = entries.map(
+            (entry: IProfileUnlockFileEntry) =>
+                ProfileUnlockConfig.parseUnlock(entry, kind)
+        )
+
+        const ids = new Set<number>()
+
+        for (const unlock of unlocks) {
+            if (ids.has(unlock.id)) {
+                throw new Error(
+                    `the ${kind} ID ${unlock.id} is used more than once`
+                )
+            }
+
+            ids.add(unlock.id)
+        }
+
+        return unlocks
+    }
+
+    private static parseUnlock(
+        entry: IProfileUnlockFileEntry,
+        kind: string
+    ): IProfileUnlock {
+        if (
+            ProfileUnlockConfig.isValidInteger(entry.id, 0) === false ||
+            entry.id > MAX_PROFILE_UNLOCK_ID
+        ) {
+            throw new Error(
+                `every ${kind} must have an id between 0 and ${MAX_PROFILE_UNLOCK_ID}`
+            )
+        }
+
+        const rule =
+            ProfileUnlockRule[entry.rule as keyof typeof ProfileUnlockRule]
+
+        if (rule == null) {
+            throw new Error(
+                `the ${kind} ${entry.id} has an unknown rule "${entry.rule}"`
+            )
+        }
+
+        const value: number = entry.value != null ? entry.value : 0
+
+        if (
+            (rule === ProfileUnlockRule.Level ||
+                rule === ProfileUnlockRule.Achievement ||
+                rule === ProfileUnlockRule.Campaign) &&
+            (entry.value == null ||
+                ProfileUnlockConfig.isValidInteger(value, 0) === false)
+        ) {
+            throw new Error(`the ${kind} ${entry.id} has an invalid value`)
+        }
+
+        let start: Date = null
+        let end: Date = null
+
+        if (rule === ProfileUnlockRule.Event) {
+            start = new Date(entry.start)
+            end = new Date(entry.end)
+
+            if (
+                isNaN(start.getTime()) ||
+                isNaN(end.getTime()) ||
+                start >= end
+            ) {
+                throw new Error(
+                    `the ${kind} ${entry.id} must have a start date before its end date`
+                )
+            }
+        }
+
+        return {
+            id: entry.id,
+            rule,
+            value,
+            start,
+            end
+        }
+    }
+
+    private static isValidInteger(value: number, min: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value >= min
+        )
+    }
+}
@@ -0,0 +1,170 @@
+import { ConfigFile } from 'config/configfile'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { OutUserInfoPacket } from 'packets/out/userinfo'
+
+import { AchievementTracker } from 'user/achievementtracker'
+import {
+    IProfileUnlock,
+    IProfileUnlockRules,
+    ProfileUnlockConfig,
+    ProfileUnlockRule
+} from 'user/profileunlockconfig'
+import { User } from 'user/user'
+
+import { UserService } from 'services/userservice'
+
+/**
+ * decides which titles and avatars the users have earned
+ * the earned ones are kept in the user service's bitsets
+ * @class ProfileUnlocks
+ */
+export class ProfileUnlocks {
+    public static readonly config = new ConfigFile<IProfileUnlockRules>({
+        name: 'titles and avatars unlock rules',
+        parse: (fileData: unknown) => ProfileUnlockConfig.parse(fileData),
+        defaults: { titles: [], avatars: [] }
+    })
+
+    /**
+     * has an user unlocked a title?
+     * @param user the target user
+     * @param titleId the title's ID
+     * @returns true if so, false if not
+     */
+    public static isTitleUnlocked(user: User, titleId: number): boolean {
+        return this.isBitSet(user.unlocked_titles, titleId)
+    }
+
+    /**
+     * has an user unlocked an avatar?
+     * @param user the target user
+     * @param avatarId the avatar's ID
+     * @returns true if so, false if not
+     */
+    public static isAvatarUnlocked(user: User, avatarId: number): boolean {
+        return this.isBitSet(user.unlocked_avatars, avatarId)
+    }
+
+    /**
+     * unlock the titles and avatars an user has earned since the last check
+     * the unlocks are never taken away, even if their rules are removed
+     * @param conn the user's connection
+     * @param sendUpdates false to not send the new bitsets to the user
+     * @returns true if successful, false if not
+     */
+    public static async update(
+        conn: ExtendedSocket,
+        sendUpdates = true
+    ): Promise<boolean> {
+        const user: User = conn.session.user
+
+        const titles: number[] = this.withEarnedBits(
+            user,
+            user.unlocked_titles,
+            this.config.get().titles
+        )
+        const avatars: number[] = this.withEarnedBits(
+            user,
+            user.unlocked_avatars,
+            this.config.get().avatars
+        )
+
+        const titlesChanged: boolean = titles != null
+        const avatarsChanged: boolean = avatars != null
+
+        if (titlesChanged === false && avatarsChanged === false) {
+            return true
+        }
+
+        const updatedMembers: Omit<Partial<User>, 'id'> = {}
+
+        if (titlesChanged === true) {
+            updatedMembers.unlocked_titles = titles
+        }
+
+        if (avatarsChanged === true) {
+            updatedMembers.unlocked_avatars = avatars
+        }
+
+        if (
+            (await UserService.UpdatePartial(updatedMembers, user.id)) === false
+        ) {
+            console.warn(
+                `ProfileUnlocks: failed to save user ${user.id}'s titles and avatars`
+            )
+            return false
+        }
+
+        Object.assign(user, updatedMembers)
+
+        if (sendUpdates === true && titlesChanged === true) {
+            conn.send(OutUserInfoPacket.updateUnlockedTitles(user))
+        }
+
+        if (sendUpdates === true && avatarsChanged === true) {
+            conn.send(OutUserInfoPacket.updateUnlockedAvatars(user))
+        }
+
+        return true
+    }
+
+    /**
+     * copy a bitset with the bits of the unlocks an user has earned set
+     * @param user the target user
+     * @param bits the user's current bitset
+     * @param unlocks the unlock rules of the bitset
+     * @returns the new bitset, or null if no new bit was set
+     */
+    private static withEarnedBits(
+        user: User,
+        bits: number[],
+        unlocks: IProfileUnlock[]
+    ): number[] {
+        const now = new Date()
+        let newBits: number[] = null
+
+        for (const unlock of unlocks) {
+            if (
+                this.isBitSet(bits, unlock.id) === true ||
+                this.hasEarned(user, unlock, now) === false
+            ) {
+                continue
+            }
+
+            if (newBits == null) {
+                newBits = bits.slice()
+            }
+
+            newBits[unlock.id >> 3] |= 1 << (unlock.id & 7)
+        }
+
+        return newBits
+    }
+
+    private static hasEarned(
+        user: User,
+        unlock: IProfileUnlock,
+        now: Date
+    ): boolean {
+        switch (unlock.rule) {
+            case ProfileUnlockRule.Default:
+                return true
+            case ProfileUnlockRule.Level:
+                return user.level >= unlock.value
+            case ProfileUnlockRule.Achievement:
+                return AchievementTracker.isUnlocked(user, unlock.value)
+            case ProfileUnlockRule.Campaign:
+                return (user.campaign_flags & unlock.value) !== 0
+            case ProfileUnlockRule.Event:
+                return now >= unlock.start && now < unlock.end
+        }
+
+        return false
+    }
+
+    private static isBitSet(bits: number[], id: number): boolean {
+        return (bits[id >> 3] & (1 << (id & 7))) !== 0
+    }
+}
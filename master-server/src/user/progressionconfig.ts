@@ -0,0 +1,185 @@
+import { RoomGamemode } from 'gametypes/shareddefs'
+
+import { USER_MAX_LEVEL } from 'user/user'
+
+/**
+ * how much XP or points a match is worth
+ */
+export interface IMatchRewardRates {
+    kill: number
+    headshot: number
+    assist: number
+    // for each minute spent ingame
+    perMinute: number
+    win: number
+    draw: number
+    loss: number
+}
+
+/**
+ * the progression settings, with the defaults already applied
+ */
+export interface IProgressionSettings {
+    // the highest level an user can reach
+    maxLevel: number
+    // a level's max XP is maxXpBase * level ^ maxXpExponent
+    maxXpBase: number
+    maxXpExponent: number
+    xp: IMatchRewardRates
+    points: IMatchRewardRates
+    // rewards multipliers, 1.0 in the gamemodes that aren't listed
+    gamemodeMultipliers: Map<RoomGamemode, number>
+}
+
+/**
+ * the progression settings as written in the config file
+ */
+interface IProgressionFileData {
+    maxLevel?: number
+    maxXpBase?: number
+    maxXpExponent?: number
+    xp?: Partial<IMatchRewardRates>
+    points?: Partial<IMatchRewardRates>
+    gamemodeMultipliers?: { [gamemode: string]: number }
+}
+
+const DEFAULT_XP_RATES: IMatchRewardRates = {
+    kill: 20,
+    headshot: 10,
+    assist: 10,
+    perMinute: 10,
+    win: 150,
+    draw: 100,
+    loss: 50
+}
+
+const DEFAULT_POINTS_RATES: IMatchRewardRates = {
+    kill: 10,
+    headshot: 5,
+    assist: 5,
+    perMinute: 5,
+    win: 300,
+    draw: 200,
+    loss: 100
+}
+
+/**
+ * reads the experience, level and points rewards from a JSON config file
+ * @class ProgressionConfig
+ */
+export class ProgressionConfig {
+    /**
+     * the settings used when there's no config file
+     */
+    public static getDefaults(): IProgressionSettings {
+        return {
+            maxLevel: USER_MAX_LEVEL,
+            maxXpBase: 1000,
+            maxXpExponent: 1.5,
+            xp: { ...DEFAULT_XP_RATES },
+            points: { ...DEFAULT_POINTS_RATES },
+            gamemodeMultipliers: new Map<RoomGamemode, number>()
+        }
+    }
+
+    /**
+     * validate a progression config file's data
+     * the settings missing from the file use their default values
+     * @param fileData the config file's data
+     * @returns the progression settings
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): IProgressionSettings {
+        const data = fileData as IProgressionFileData
+
+        if (data == null || typeof data !== 'object') {
+            throw new Error('the config must have a JSON object')
+        }
+
+        const settings: IProgressionSettings = ProgressionConfig.getDefaults()
+
+        if (data.maxLevel != null) {
+            settings.maxLevel = data.maxLevel
+        }
+
+        if (data.maxXpBase != null) {
+            settings.maxXpBase = data.maxXpBase
+        }
+
+        if (data.maxXpExponent != null) {
+            settings.maxXpExponent = data.maxXpExponent
+        }
+
+        if (
+            ProgressionConfig.isValidNumber(settings.maxLevel) === false ||
+            Math.floor(settings.maxLevel) !== settings.maxLevel ||
+            settings.maxLevel < 1 ||
+            settings.maxLevel > USER_MAX_LEVEL
+        ) {
+            throw new Error(`maxLevel must be between 1 and ${USER_MAX_LEVEL}`)
+        }
+
+        if (
+            ProgressionConfig.isValidNumber(settings.maxXpBase) === false ||
+            settings.maxXpBase < 1
+        ) {
+            throw new Error('maxXpBase must be at least 1')
+        }
+
+        if (ProgressionConfig.isValidNumber(settings.maxXpExponent) === false) {
+            throw new Error('maxXpExponent must be a positive number')
+        }
+
+        settings.xp = ProgressionConfig.parseRates(data.xp, settings.xp, 'xp')
+        settings.points = ProgressionConfig.parseRates(
+            data.points,
+            settings.points,
+            'points'
+        )
+
+        if (data.gamemodeMultipliers != null) {
+            for (const gamemodeName of Object.keys(data.gamemodeMultipliers)) {
+                const gamemode =
+                    RoomGamemode[gamemodeName as keyof typeof RoomGamemode]
+                const multiplier: number =
+                    data.gamemodeMultipliers[gamemodeName]
+
+                if (gamemode == null) {
+                    throw new Error(`unknown gamemode "${gamemodeName}"`)
+                }
+
+                if (ProgressionConfig.isValidNumber(multiplier) === false) {
+                    throw new Error(
+                        `the gamemode "${gamemodeName}" has an invalid multiplier`
+                    )
+                }
+
+                settings.gamemodeMultipliers.set(gamemode, multiplier)
+            }
+        }
+
+        return settings
+    }
+
+    private static parseRates(
+        fileRates: Partial<IMatchRewardRates>,
+        defaults: IMatchRewardRates,
+        sectionName: string
+    ): IMatchRewardRates {
+        const rates: IMatchRewardRates = { ...defaults, ...fileRates }
+
+        for (const key of Object.keys(rates) as (keyof IMatchRewardRates)[]) {
+            if (ProgressionConfig.isValidNumber(rates[key]) === false) {
+                throw new Error(
+                    `${sectionName}.${key} must be a positive number or zero`
+                )
+            }
+        }
+
+        return rates
+    }
+
+    private static isValidNumber(value: number): boolean {
+        return typeof value === 'number' && isFinite(value) && value >= 0
+    }
+}
@@ -0,0 +1,165 @@
+import ip from 'ip'
+
+import { HolepunchType } from 'packets/holepunch/inholepunch'
+
+/**
+ * how an user's NAT maps its ports, as seen by the holepunch server
+ */
+export enum NatType {
+    // no holepunch packet was received yet
+    Unknown,
+    // the internal and external addresses are the same
+    None,
+    // the external ports are the same as the local ones
+    PortPreserving,
+    // the external ports are moved by the same offset
+    PortTranslating,
+    // each local port gets an unrelated external port
+    PortRandomizing,
+    // a local port got a new external port, so the other players can't
+    // rely on the address the server sends them
+    Unstable
+}
+
+/**
+ * a local port and the external port the NAT mapped it to
+ */
+interface IPortMapping {
+    localPort: number
+    externalPort: number
+}
+
+/**
+ * classifies an user's NAT from its holepunch packets
+ * @class SessionNatInfo
+ */
+export class SessionNatInfo {
+    public internalAddress: string
+    public externalAddress: string
+    // how many times a local port got a different external port
+    public mappingChanges: number
+
+    // the last mapping of each holepunch type
+    private mappings: Map<HolepunchType, IPortMapping>
+
+    constructor() {
+        this.internalAddress = null
+        this.externalAddress = null
+        this.mappingChanges = 0
+        this.mappings = new Map<HolepunchType, IPortMapping>()
+    }
+
+    /**
+     * record a holepunch packet's mapping
+     * @param portId the holepunch packet's type
+     * @param internalAddress the address the user sees itself on
+     * @param localPort the port the user sees itself on
+     * @param externalAddress the address the packet came from
+     * @param externalPort the port the packet came from
+     */
+    public addMapping(
+        portId: HolepunchType,
+        internalAddress: string,
+        localPort: number,
+        externalAddress: string,
+        externalPort: number
+    ): void {
+        const previous: IPortMapping = this.mappings.get(portId)
+
+        if (
+            previous != null &&
+            previous.localPort === localPort &&
+            previous.externalPort !== externalPort
+        ) {
+            this.mappingChanges++
+        }
+
+        this.internalAddress = internalAddress
+        this.externalAddress = externalAddress
+        this.mappings.set(portId, { localPort, externalPort })
+    }
+
+    /**
+     * classify the NAT from the mappings seen so far
+     * @returns the NAT's type
+     */
+    public getType(): NatType {
+        if (this.mappings.size === 0) {
+            return NatType.Unknown
+        }
+
+        if (this.mappingChanges !== 0) {
+            return NatType.Unstable
+        }
+
+        if (ip.isEqual(this.internalAddress, this.externalAddress) === true) {
+            return NatType.None
+        }
+
+        const offsets: number[] = Array.from(this.mappings.values()).map(
+            (m: IPortMapping) => m.externalPort - m.localPort
+        )
+
+        if (offsets.every((offset: number) => offset === 0)) {
+            return NatType.PortPreserving
+        }
+
+        if (offsets.every((offset: number) => offset === offsets[0])) {
+            return NatType.PortTranslating
+        }
+
+        return NatType.PortRandomizing
+    }
+
+    /**
+     * can the user host matches without forwarding its ports?
+     * @returns true if it most likely can, false if not
+     */
+    public canHost(): boolean {
+        const type: NatType = this.getType()
+        return type === NatType.None || type === NatType.PortPreserving
+    }
+
+    /**
+     * explain the NAT's type to a player or a GM
+     * @returns the explanation
+     */
+    public describeType(): string {
+        switch (this.getType()) {
+            case NatType.Unknown:
+                return 'unknown, the game has not sent its holepunch packets yet'
+            case NatType.None:
+                return 'no NAT, other players can connect directly'
+            case NatType.PortPreserving:
+                return 'port preserving NAT, other players should be able to connect'
+            case NatType.PortTranslating:
+                return 'port translating NAT, other players may fail to connect unless the ports are forwarded'
+            case NatType.PortRandomizing:
+                return 'port randomizing NAT, hosting will likely fail unless the ports are forwarded'
+            case NatType.Unstable:
+                return 'unstable NAT mappings (symmetric NAT), other players cannot connect without a relay'
+        }
+
+        return 'unknown'
+    }
+
+    /**
+     * list the mappings of each holepunch type
+     * @returns the mappings' description
+     */
+    public describeMappings(): string {
+        const mappings: string[] = []
+
+        for (const [portId, mapping] of this.mappings) {
+            mappings.push(
+                `${HolepunchType[portId]} ${mapping.localPort} -> ${mapping.externalPort}`
+            )
+        }
+
+        return `internal ${this.internalAddress}, external ${
+            this.externalAddress
+        }, ports: ${mappings.join(', ')}, ${
+            this.mappingChanges
+        } mapping changes`
+    }
+}
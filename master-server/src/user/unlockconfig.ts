@@ -0,0 +1,121 @@
+import { UnlockCurrency, UnlockItem } from 'gametypes/unlockitem'
+
+/**
+ * an unlock as written in the config file
+ */
+interface IUnlockFileEntry {
+    unlockId: number
+    itemId: number
+    currency: string
+    price: number
+    previousItemId?: number
+    requiredKills?: number
+}
+
+/**
+ * reads the unlockable weapons from a JSON config file
+ * @class UnlockConfig
+ */
+export class UnlockConfig {
+    /**
+     * validate an unlocks config file's data
+     * @param fileData the config file's data
+     * @returns the unlockable weapons
+     * @throws Error if the data is invalid
+     */
+    public static parse(fileData: unknown): UnlockItem[] {
+        const data = fileData as {
+            unlocks: IUnlockFileEntry[]
+        }
+
+        if (data == null || Array.isArray(data.unlocks) === false) {
+            throw new Error('the config must have an unlocks array')
+        }
+
+        const unlocks: UnlockItem[] = data.unlocks.map(
+            (entry: IUnlockFileEntry) => UnlockConfig.parseUnlock(entry)
+        )
+
+        const unlockIds = new Set<number>()
+
+        for (const unlock of unlocks) {
+            if (unlockIds.has(unlock.unlockId)) {
+                throw new Error(
+                    `the unlock ID ${unlock.unlockId} is used more than once`
+                )
+            }
+
+            unlockIds.add(unlock.unlockId)
+        }
+
+        return unlocks
+    }
+
+    private static parseUnlock(entry: IUnlockFileEntry): UnlockItem {
+        if (
+            UnlockConfig.isValidId(entry.unlockId) === false ||
+            UnlockConfig.isValidId(entry.itemId) === false
+        ) {
+            throw new Error('every unlock must have an unlockId and an itemId')
+        }
+
+        const currency =
+            UnlockCurrency[entry.currency as keyof typeof UnlockCurrency]
+
+        if (currency == null) {
+            throw new Error(
+                `the unlock ${entry.unlockId} has an unknown currency "${entry.currency}"`
+            )
+        }
+
+        if (UnlockConfig.isValidAmount(entry.price) === false) {
+            throw new Error(`the unlock ${entry.unlockId} has an invalid price`)
+        }
+
+        const previousItemId: number =
+            entry.previousItemId != null ? entry.previousItemId : 0
+        const requiredKills: number =
+            entry.requiredKills != null ? entry.requiredKills : 0
+
+        if (
+            (previousItemId !== 0 &&
+                UnlockConfig.isValidId(previousItemId) === false) ||
+            UnlockConfig.isValidAmount(requiredKills) === false
+        ) {
+            throw new Error(
+                `the unlock ${entry.unlockId} has an invalid kill requirement`
+            )
+        }
+
+        if (requiredKills !== 0 && previousItemId === 0) {
+            throw new Error(
+                `the unlock ${entry.unlockId} requires kills without a previousItemId`
+            )
+        }
+
+        return {
+            unlockId: entry.unlockId,
+            itemId: entry.itemId,
+            currency,
+            price: entry.price,
+            previousItemId,
+            requiredKills
+        }
+    }
+
+    private static isValidId(value: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value > 0
+        )
+    }
+
+    private static isValidAmount(value: number): boolean {
+        return (
+            typeof value === 'number' &&
+            Math.floor(value) === value &&
+            value >= 0
+        )
+    }
+}
@@ -1,3 +1,14 @@
+export const USER_MAX_LEVEL = 99
+
+/**
+ * which GM commands an user can use
+ */
+export enum GmLevel {
+    Player = 0,
+    Moderator = 1,
+    Admin = 2
+}
+
 /**
  * represents an user account
  */
@@ -7,14 +18,15 @@ export class User {
     public playername: string
 
     public gm: boolean
+    public gm_level: GmLevel
 
     public points: number
     public cash: number
     public mpoints: number
 
     public level: number
-    public cur_xp: BigInt
-    public max_xp: BigInt
+    public cur_xp: number
+    public max_xp: number
     public vip_level: number
     public vip_xp: number
 
@@ -50,6 +62,7 @@ export class User {
     public clan_mark: number
 
     public world_rank: number
+    public ranked_rating: number
 
     public best_gamemode: number
     public best_map: number
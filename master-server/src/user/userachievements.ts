@@ -0,0 +1,54 @@
+import superagent from 'superagent'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * an user's progress towards an achievement
+ */
+export interface IUserAchievementProgress {
+    achievement_id: number
+    progress: number
+}
+
+/**
+ * keeps the users' progress towards achievements through the user service
+ */
+export class UserAchievements {
+    /**
+     * add progress to an user's achievements
+     * @param userId the user's ID
+     * @param newProgress the progress made, keyed by the achievement's ID
+     * @returns the updated progress of those achievements, or null if it failed
+     */
+    public static async addProgress(
+        userId: number,
+        newProgress: Map<number, number>
+    ): Promise<IUserAchievementProgress[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        const achievements = Array.from(newProgress.entries()).map(
+            ([achievementId, amount]) => {
+                return { achievementId, amount }
+            }
+        )
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/achievements/${userId}`)
+                .send({ achievements })
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as IUserAchievementProgress[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+}
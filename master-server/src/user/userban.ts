@@ -0,0 +1,13 @@
+/**
+ * an account or IP address ban, as stored in the user service
+ */
+export class UserBan {
+    public id: number
+    public user_id: number
+    public ip_address: string
+    public reason: string
+    public issuer_id: number
+    public created_at: string
+    // null if the ban is permanent
+    public expires_at: string
+}
@@ -0,0 +1,54 @@
+import superagent from 'superagent'
+
+import { UserBan } from 'user/userban'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * bans accounts and IP addresses through the user service
+ */
+export class UserBans {
+    /**
+     * ban an account, an IP address or both
+     * @param userId the banned user's ID, or null to ban the IP address only
+     * @param ipAddress the banned IP address, or null to ban the account only
+     * @param reason why the ban is given
+     * @param issuerId the ID of the user giving the ban
+     * @param durationMinutes how long the ban lasts, or null for a permanent ban
+     * @returns the created ban, or null if it failed
+     */
+    public static async create(
+        userId: number,
+        ipAddress: string,
+        reason: string,
+        issuerId: number,
+        durationMinutes: number
+    ): Promise<UserBan> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/bans`)
+                .send({
+                    userId,
+                    ipAddress,
+                    reason,
+                    issuerId,
+                    durationMinutes
+                })
+                .accept('json')
+
+            if (res.status === 201) {
+                return res.body as UserBan
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+}
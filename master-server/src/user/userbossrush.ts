@@ -0,0 +1,164 @@
+import superagent from 'superagent'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+import { RoomGamemode } from 'gametypes/shareddefs'
+
+import { OutAchievementPacket } from 'packets/out/achievement'
+
+/**
+ * the zombie boss rush stages, in the order their IDs are sent to the client
+ */
+const BOSS_RUSH_GAMEMODES: RoomGamemode[] = [
+    RoomGamemode.zd_boss1,
+    RoomGamemode.zd_boss2,
+    RoomGamemode.zd_boss3
+]
+
+/**
+ * an user's progress in a zombie boss rush stage
+ */
+export interface IUserBossRushProgress {
+    gamemode: number
+    played_matches: number
+    best_wave: number
+    // in seconds, 0 if the user never cleared the stage
+    best_clear_time: number
+    clears: number
+    bosses_defeated: number
+}
+
+/**
+ * the result of a boss rush match for an user
+ */
+export interface IUserBossRushResult {
+    gamemode: number
+    wave: number
+    // in seconds, 0 if the stage wasn't cleared
+    clearTime: number
+    bossesDefeated: number
+}
+
+/**
+ * keeps the users' zombie boss rush progress through the user service
+ */
+export class UserBossRush {
+    /**
+     * is a gamemode a zombie boss rush stage?
+     * @param gamemode the gamemode to check
+     * @returns true if so, false if not
+     */
+    public static isBossRushGamemode(gamemode: RoomGamemode): boolean {
+        return BOSS_RUSH_GAMEMODES.indexOf(gamemode) !== -1
+    }
+
+    /**
+     * get the boss rush ID the client uses for a gamemode
+     * @param gamemode the boss rush stage's gamemode
+     * @returns the boss rush ID, or 0 if the gamemode isn't a boss rush stage
+     */
+    public static getBossRushId(gamemode: RoomGamemode): number {
+        return BOSS_RUSH_GAMEMODES.indexOf(gamemode) + 1
+    }
+
+    /**
+     * get the gamemode of a boss rush ID sent by the client
+     * @param bossRushId the boss rush ID
+     * @returns the stage's gamemode, or null if the ID is unknown
+     */
+    public static getGamemode(bossRushId: number): RoomGamemode {
+        if (bossRushId < 1 || bossRushId > BOSS_RUSH_GAMEMODES.length) {
+            return null
+        }
+
+        return BOSS_RUSH_GAMEMODES[bossRushId - 1]
+    }
+
+    /**
+     * build the boss rush packet with an user's progress in a stage
+     * @param bossRushId the stage's boss rush ID
+     * @param progress the user's progress, null if it never played the stage
+     * @returns the boss rush packet
+     */
+    public static buildProgressPacket(
+        bossRushId: number,
+        progress: IUserBossRushProgress
+    ): OutAchievementPacket {
+        if (progress == null) {
+            return OutAchievementPacket.UpdateBossRush(bossRushId, {
+                bestWave: 0,
+                bestClearTime: 0,
+                bossesDefeated: 0,
+                clears: 0
+            })
+        }
+
+        return OutAchievementPacket.UpdateBossRush(bossRushId, {
+            bestWave: progress.best_wave,
+            bestClearTime: progress.best_clear_time,
+            bossesDefeated: progress.bosses_defeated,
+            clears: progress.clears
+        })
+    }
+
+    /**
+     * get an user's progress in every boss rush stage it played
+     * @param userId the user's ID
+     * @returns the user's boss rush progress, or null if it failed
+     */
+    public static async getByUser(
+        userId: number
+    ): Promise<IUserBossRushProgress[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/bossrush/${userId}`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as IUserBossRushProgress[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * add a boss rush match's result to an user's progress
+     * @param userId the user's ID
+     * @param result the user's result in the match
+     * @returns the user's updated progress in the stage, or null if it failed
+     */
+    public static async add(
+        userId: number,
+        result: IUserBossRushResult
+    ): Promise<IUserBossRushProgress> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/bossrush/${userId}`)
+                .send(result)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as IUserBossRushProgress
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+}
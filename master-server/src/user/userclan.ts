@@ -0,0 +1,9 @@
+/**
+ * a clan, as stored in the user service
+ */
+export class UserClan {
+    public id: number
+    public name: string
+    public mark: number
+    public created_at: string
+}
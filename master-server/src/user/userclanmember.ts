@@ -0,0 +1,16 @@
+export enum ClanRole {
+    Member = 0,
+    Officer = 1,
+    Master = 2
+}
+
+/**
+ * an user's membership in a clan, as stored in the user service
+ */
+export class UserClanMember {
+    public user_id: number
+    public clan_id: number
+    public role: ClanRole
+    public joined_at: string
+    public playername: string
+}
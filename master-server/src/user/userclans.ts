@@ -0,0 +1,69 @@
+import superagent from 'superagent'
+
+import { UserClan } from 'user/userclan'
+import { UserClanMember } from 'user/userclanmember'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * gets the clans of users through the user service
+ */
+export class UserClans {
+    /**
+     * get the clan an user is in
+     * @param userId the user's ID
+     * @returns the user's clan, or null if it isn't in one or it failed
+     */
+    public static async getByUser(userId: number): Promise<UserClan> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/clans/byuser/${userId}`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as UserClan
+            }
+
+            return null
+        } catch (error) {
+            const typedError = error as { status: number }
+            if (typedError.status === 404) {
+                return null
+            }
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * get a clan's members
+     * @param clanId the clan's ID
+     * @returns the clan's members, or null if it failed
+     */
+    public static async getMembers(clanId: number): Promise<UserClanMember[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/clans/${clanId}/members`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as UserClanMember[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+}
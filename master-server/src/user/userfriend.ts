@@ -0,0 +1,11 @@
+import { FriendStatus } from 'gametypes/friendinfo'
+
+/**
+ * a relationship from an user to another, as stored in the user service
+ */
+export class UserFriend {
+    public user_id: number
+    public friend_id: number
+    public status: FriendStatus
+    public playername: string
+}
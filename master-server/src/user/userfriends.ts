@@ -0,0 +1,200 @@
+import superagent from 'superagent'
+
+import { FriendStatus } from 'gametypes/friendinfo'
+
+import { UserFriend } from 'user/userfriend'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+export enum FriendRequestResult {
+    Failed,
+    Sent,
+    Accepted,
+    AlreadyExists,
+    Blocked
+}
+
+/**
+ * manages the friends of an user through the user service
+ */
+export class UserFriends {
+    /**
+     * get an user's friends, blocked users and friend requests
+     * @param userId the user's ID
+     * @returns the user's relationships, or null if it failed
+     */
+    public static async getAll(userId: number): Promise<UserFriend[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/friends/${userId}`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as UserFriend[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * checks if an user has blocked another user
+     * @param userId the possible blocker's user ID
+     * @param targetId the possibly blocked user's ID
+     * @returns true if blocked, false if not, null if it failed
+     */
+    public static async hasBlocked(
+        userId: number,
+        targetId: number
+    ): Promise<boolean> {
+        const friends = await UserFriends.getAll(userId)
+
+        if (friends == null) {
+            return null
+        }
+
+        return friends.some(
+            (f) =>
+                f.user_id === userId &&
+                f.friend_id === targetId &&
+                f.status === FriendStatus.Blocked
+        )
+    }
+
+    /**
+     * send a friend request to another user
+     * @param userId the requester's user ID
+     * @param friendId the requested user's ID
+     * @returns the request's result
+     */
+    public static async request(
+        userId: number,
+        friendId: number
+    ): Promise<FriendRequestResult> {
+        if (UserSvcPing.isAlive() === false) {
+            return FriendRequestResult.Failed
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/friends/${userId}/request`)
+                .send({ friendId })
+                .accept('json')
+
+            if (res.status === 201) {
+                return FriendRequestResult.Sent
+            } else if (res.status === 200) {
+                return FriendRequestResult.Accepted
+            }
+        } catch (error) {
+            const typedError = error as { status: number }
+            if (typedError.status === 403) {
+                return FriendRequestResult.Blocked
+            } else if (typedError.status === 409) {
+                return FriendRequestResult.AlreadyExists
+            }
+            console.error(error)
+            await UserSvcPing.checkNow()
+        }
+
+        return FriendRequestResult.Failed
+    }
+
+    /**
+     * accept a friend request
+     * @param userId the requested user's ID
+     * @param requesterId the requester's user ID
+     * @returns true if successful, false if not
+     */
+    public static async accept(
+        userId: number,
+        requesterId: number
+    ): Promise<boolean> {
+        return UserFriends.postAction('accept', userId, requesterId)
+    }
+
+    /**
+     * decline a friend request
+     * @param userId the requested user's ID
+     * @param requesterId the requester's user ID
+     * @returns true if successful, false if not
+     */
+    public static async decline(
+        userId: number,
+        requesterId: number
+    ): Promise<boolean> {
+        return UserFriends.postAction('decline', userId, requesterId)
+    }
+
+    /**
+     * remove a friend or cancel a friend request
+     * @param userId the user's ID
+     * @param friendId the friend's user ID
+     * @returns true if successful, false if not
+     */
+    public static async remove(
+        userId: number,
+        friendId: number
+    ): Promise<boolean> {
+        return UserFriends.postAction('remove', userId, friendId)
+    }
+
+    /**
+     * block an user
+     * @param userId the blocker's user ID
+     * @param targetId the blocked user's ID
+     * @returns true if successful, false if not
+     */
+    public static async block(
+        userId: number,
+        targetId: number
+    ): Promise<boolean> {
+        return UserFriends.postAction('block', userId, targetId)
+    }
+
+    /**
+     * unblock an user
+     * @param userId the blocker's user ID
+     * @param targetId the blocked user's ID
+     * @returns true if successful, false if not
+     */
+    public static async unblock(
+        userId: number,
+        targetId: number
+    ): Promise<boolean> {
+        return UserFriends.postAction('unblock', userId, targetId)
+    }
+
+    private static async postAction(
+        action: string,
+        userId: number,
+        friendId: number
+    ): Promise<boolean> {
+        if (UserSvcPing.isAlive() === false) {
+            return false
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/friends/${userId}/${action}`)
+                .send({ friendId })
+                .accept('json')
+            return res.status === 200
+        } catch (error) {
+            const typedError = error as { status: number }
+            if (typedError.status !== 404) {
+                console.error(error)
+                await UserSvcPing.checkNow()
+            }
+            return false
+        }
+    }
+}
@@ -261,6 +261,48 @@ export class UserInventory {
         }
     }
 
+    /**
+     * forgets an user's cached inventory, after its items were added elsewhere
+     * @param ownerId the inventory owner's user ID
+     */
+    public static clearInventoryCache(ownerId: number): void {
+        inventoryCache.del(ownerId)
+    }
+
+    /**
+     * adds an item to an user's inventory
+     * @param ownerId the inventory owner's user ID
+     * @param itemId the new item's ID
+     * @param ammount the ammount of items to add
+     * @returns true if successful, false if not
+     */
+    public static async addItem(
+        ownerId: number,
+        itemId: number,
+        ammount = 1
+    ): Promise<boolean> {
+        try {
+            const res: superagent.Response = await superagent
+                .put(`${userSvcAuthority()}/inventory/${ownerId}/item`)
+                .send({
+                    itemId,
+                    ammount
+                })
+                .accept('json')
+
+            if (res.status === 200) {
+                inventoryCache.del(ownerId)
+                console.log('Added inventory item successfully')
+                return true
+            }
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+        }
+
+        return false
+    }
+
     /**
      * sets an user's cosmetic slot with a new item
      * @param ownerId the cosmetics owner's user ID
@@ -0,0 +1,14 @@
+/**
+ * a mail in an user's mailbox, as stored in the user service
+ */
+export class UserMail {
+    public id: number
+    public owner_id: number
+    public sender_id: number
+    public sender_name: string
+    public message: string
+    public item_id: number
+    public item_ammount: number
+    public is_read: boolean
+    public sent_at: string
+}
@@ -0,0 +1,168 @@
+import superagent from 'superagent'
+
+import { UserMail } from 'user/usermail'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * manages an user's mailbox through the user service
+ */
+export class UserMailbox {
+    /**
+     * get every mail in an user's mailbox
+     * @param ownerId the mailbox owner's user ID
+     * @returns the user's mails, or null if it failed
+     */
+    public static async getAll(ownerId: number): Promise<UserMail[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/mailbox/${ownerId}`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as UserMail[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * send a mail to an user
+     * @param ownerId the receiver's user ID
+     * @param senderId the sender's user ID, null if sent by the system
+     * @param senderName the sender's name
+     * @param message the mail's message
+     * @param itemId the attached item's ID, if any
+     * @param ammount the attached item's ammount
+     * @returns the sent mail, or null if it failed
+     */
+    public static async send(
+        ownerId: number,
+        senderId: number,
+        senderName: string,
+        message: string,
+        itemId: number = null,
+        ammount = 1
+    ): Promise<UserMail> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/mailbox/${ownerId}`)
+                .send({
+                    senderId,
+                    senderName,
+                    message,
+                    itemId,
+                    ammount: itemId != null ? ammount : null
+                })
+                .accept('json')
+
+            if (res.status === 201) {
+                return res.body as UserMail
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * mark a mail as read
+     * @param ownerId the mailbox owner's user ID
+     * @param mailId the mail's ID
+     * @returns true if successful, false if not
+     */
+    public static async markRead(
+        ownerId: number,
+        mailId: number
+    ): Promise<boolean> {
+        if (UserSvcPing.isAlive() === false) {
+            return false
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .put(`${userSvcAuthority()}/mailbox/${ownerId}/${mailId}/read`)
+                .accept('json')
+            return res.status === 200
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return false
+        }
+    }
+
+    /**
+     * move a mail's attached item to the owner's inventory
+     * @param ownerId the mailbox owner's user ID
+     * @param mailId the mail's ID
+     * @returns the mail as it was before being claimed, or null if it failed
+     */
+    public static async claimItem(
+        ownerId: number,
+        mailId: number
+    ): Promise<UserMail> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(
+                    `${userSvcAuthority()}/mailbox/${ownerId}/${mailId}/claim`
+                )
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as UserMail
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * delete a mail
+     * @param ownerId the mailbox owner's user ID
+     * @param mailId the mail's ID
+     * @returns true if successful, false if not
+     */
+    public static async remove(
+        ownerId: number,
+        mailId: number
+    ): Promise<boolean> {
+        if (UserSvcPing.isAlive() === false) {
+            return false
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .delete(`${userSvcAuthority()}/mailbox/${ownerId}/${mailId}`)
+                .accept('json')
+            return res.status === 200
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return false
+        }
+    }
+}
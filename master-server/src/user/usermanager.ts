@@ -1,12 +1,19 @@
-import net from 'net'
-
 import { ExtendedSocket } from 'extendedsocket'
 
+import { AutomatchQueue } from 'automatch/automatchqueue'
 import { Channel } from 'channel/channel'
+import { Party } from 'party/party'
+import { Room } from 'room/room'
 
+import { HolepunchGuard } from 'user/holepunchguard'
+import { ProfileUnlocks } from 'user/profileunlocks'
 import { User } from 'user/user'
 import { UserInventory } from 'user/userinventory'
+import { UserMute } from 'user/usermute'
+import { UserMutes } from 'user/usermutes'
+import { UserUnlocks } from 'user/userunlocks'
 import { UserSession } from 'user/usersession'
+import { UserWeaponKills } from 'user/userweaponkills'
 
 import { ChannelManager } from 'channel/channelmanager'
 
@@ -25,13 +32,15 @@ import { OutChatPacket } from 'packets/out/chat'
 import { OutFavoritePacket } from 'packets/out/favorite'
 import { OutInventoryPacket } from 'packets/out/inventory'
 import { OutOptionPacket } from 'packets/out/option'
+import { OutShopPacket } from 'packets/out/shop'
 import { OutUserInfoPacket } from 'packets/out/userinfo'
 import { OutUserStartPacket } from 'packets/out/userstart'
-import { OutUnlockPacket } from 'packets/out/unlock'
 
 import { AboutMeHandler } from 'handlers/aboutmehandler'
+import { BANNED_MESSAGE, BanHandler } from 'handlers/banhandler'
 
-import { UserService } from 'services/userservice'
+import { IUserLogin, UserService } from 'services/userservice'
+import { ShopCatalog } from 'shop/shopcatalog'
 import { ActiveConnections } from 'storage/activeconnections'
 
 import {
@@ -43,6 +52,9 @@ import {
 // TODO: move this to UserManager, make UserManager not static
 const aboutMeHandler = new AboutMeHandler()
 
+const REPLACED_SESSION_MESSAGE =
+    'Your account was logged in from somewhere else.'
+
 /**
  * handles the user logic
  */
@@ -60,7 +72,7 @@ export class UserManager {
             curChannel.OnUserLeft(conn)
         }
 
-        await UserService.Logout(session.user.id)
+        await UserService.Logout(session.user.id, conn.uuid)
     }
 
     /**
@@ -76,10 +88,13 @@ export class UserManager {
     ): Promise<boolean> {
         const loginPacket: InLoginPacket = new InLoginPacket(loginData)
 
-        const loggedUserId = await UserService.Login(
+        const login: IUserLogin = await UserService.Login(
             loginPacket.gameUsername,
-            loginPacket.password
+            loginPacket.password,
+            connection.remoteAddress,
+            connection.uuid
         )
+        const loggedUserId: number = login.userId
 
         if (loggedUserId === 0) {
             this.SendUserDialogBox(connection, GAME_LOGIN_BAD_USERNAME)
@@ -100,6 +115,20 @@ export class UserManager {
             return false
         }
 
+        if (loggedUserId === -2) {
+            this.SendUserDialogBoxExit(
+                connection,
+                login.ban != null
+                    ? BanHandler.getBanMessage(login.ban)
+                    : BANNED_MESSAGE
+            )
+
+            console.warn(
+                `Banned user ${loginPacket.gameUsername} tried to log in`
+            )
+            return false
+        }
+
         // clear plain password right away, we don't need it anymore
         loginPacket.password = null
 
@@ -109,13 +138,23 @@ export class UserManager {
             this.SendUserDialogBox(connection, GAME_LOGIN_INVALID_USERINFO)
 
             console.error(`Couldn't get user ID ${loggedUserId}'s information`)
+            await UserService.Logout(loggedUserId, connection.uuid)
             return false
         }
 
+        const oldConn: ExtendedSocket = ActiveConnections.Singleton().FindByOwnerId(
+            user.id
+        )
+
+        if (oldConn != null && oldConn !== connection) {
+            UserManager.closeReplacedSession(oldConn)
+        }
+
         const newSession: UserSession = new UserSession(
             user,
-            connection.address() as net.AddressInfo
+            connection.remoteAddress
         )
+        HolepunchGuard.createToken(newSession)
         connection.session = newSession
 
         console.log(
@@ -124,8 +163,33 @@ export class UserManager {
 
         ActiveConnections.Singleton().Add(connection)
 
+        // the mutes given by GMs last after logging out
+        const mute: UserMute = await UserMutes.getActive(user.id)
+
+        if (mute != null) {
+            newSession.mutedUntil = new Date(mute.expires_at).getTime()
+        }
+
+        // the full user update sends the bitsets, so don't send them twice
+        if ((await ProfileUnlocks.update(connection, false)) === false) {
+            console.error(`Couldn't update user ID ${user.id}'s unlocks`)
+            await UserManager.abortLogin(connection)
+            return false
+        }
+
         UserManager.sendUserInfoToSelf(user, connection, holepunchPort)
-        await UserManager.sendInventory(newSession.user.id, connection)
+
+        if (
+            (await UserManager.sendInventory(
+                newSession.user.id,
+                connection
+            )) === false
+        ) {
+            console.error(`Couldn't get user ID ${user.id}'s inventory`)
+            await UserManager.abortLogin(connection)
+            return false
+        }
+
         ChannelManager.sendChannelListTo(connection)
 
         return true
@@ -297,7 +361,8 @@ export class UserManager {
                 user.id,
                 user.username,
                 user.playername,
-                holepunchPort
+                holepunchPort,
+                HolepunchGuard.getClientToken(conn.session)
             )
         )
 
@@ -308,25 +373,34 @@ export class UserManager {
      * sends an user's inventory to itself
      * @param userId the target user's ID
      * @param conn the target user's connection
+     * @returns true if sent, false if the inventory couldn't be retrieved
      */
     private static async sendInventory(
         userId: number,
         conn: ExtendedSocket
-    ): Promise<void> {
-        const [inventory, cosmetics, loadouts, buyMenu] = await Promise.all([
+    ): Promise<boolean> {
+        const [
+            inventory,
+            cosmetics,
+            loadouts,
+            buyMenu,
+            weaponKills
+        ] = await Promise.all([
             UserInventory.getInventory(userId),
             UserInventory.getCosmetics(userId),
             UserInventory.getAllLoadouts(userId),
-            UserInventory.getBuyMenu(userId)
+            UserInventory.getBuyMenu(userId),
+            UserWeaponKills.getByUser(userId)
         ])
 
         if (
             inventory == null ||
             cosmetics == null ||
             loadouts == null ||
-            buyMenu == null
+            buyMenu == null ||
+            weaponKills == null
         ) {
-            return
+            return false
         }
 
         conn.send(OutInventoryPacket.createInventory(inventory.items))
@@ -1734,7 +1808,7 @@ export class UserManager {
             0x00,
             0x00
         ]) */
-        conn.send(OutUnlockPacket.createUnlockInfo())
+        conn.send(UserUnlocks.buildUnlockInfo(weaponKills, inventory.items))
         conn.send(
             OutFavoritePacket.setCosmetics(
                 cosmetics.ct_item,
@@ -1749,6 +1823,54 @@ export class UserManager {
         )
         conn.send(OutFavoritePacket.setLoadout(loadouts))
         conn.send(OutOptionPacket.setBuyMenu(buyMenu))
+        conn.send(OutShopPacket.createShop(ShopCatalog.getItems()))
+
+        return true
+    }
+
+    /**
+     * undo a login that failed after its online session was started,
+     * so the account isn't left with a stale session
+     * @param conn the user's connection
+     */
+    private static async abortLogin(conn: ExtendedSocket): Promise<void> {
+        const session: UserSession = conn.session
+
+        ActiveConnections.Singleton().Remove(conn)
+        conn.session = null
+
+        UserManager.SendUserDialogBox(conn, GAME_LOGIN_INVALID_USERINFO)
+
+        await UserService.Logout(session.user.id, conn.uuid)
+    }
+
+    /**
+     * disconnect the old connection of an user that logged in again
+     * it's removed from everywhere right away, so its socket closing later
+     * can't log out the new session
+     * the old connection keeps its session until its socket closes, since
+     * the match results being saved for it may still need the user
+     * @param oldConn the user's old connection
+     */
+    private static closeReplacedSession(oldConn: ExtendedSocket): void {
+        const session: UserSession = oldConn.session
+
+        console.log(
+            `user ID ${session.user.id} logged in again, closing its old connection ${oldConn.uuid}`
+        )
+
+        AutomatchQueue.cleanUpUser(oldConn)
+        Room.cleanUpUser(oldConn)
+        Party.cleanUpUser(oldConn)
+
+        if (session.currentChannel != null) {
+            session.currentChannel.OnUserLeft(oldConn)
+            session.currentChannel = null
+        }
+
+        ActiveConnections.Singleton().Remove(oldConn)
+
+        BanHandler.disconnectUser(oldConn, REPLACED_SESSION_MESSAGE)
     }
 
     private static SendUserDialogBox(userConn: ExtendedSocket, msg: string) {
@@ -1758,4 +1880,15 @@ export class UserManager {
         )
         userConn.send(badDialogData)
     }
+
+    private static SendUserDialogBoxExit(
+        userConn: ExtendedSocket,
+        msg: string
+    ) {
+        const exitDialogData: OutChatPacket = OutChatPacket.systemMessage(
+            msg,
+            ChatMessageType.DialogBoxExit
+        )
+        userConn.send(exitDialogData)
+    }
 }
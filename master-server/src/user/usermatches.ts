@@ -0,0 +1,67 @@
+import superagent from 'superagent'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * a player's scoreboard in a finished match
+ */
+export interface IUserMatchPlayer {
+    userId: number
+    team: number
+    kills: number
+    deaths: number
+    assists: number
+    headshots: number
+}
+
+/**
+ * a finished match, as sent to the user service
+ */
+export interface INewUserMatch {
+    roomName: string
+    gamemode: number
+    map: number
+    startedAt: Date
+    ctScore: number
+    terScore: number
+    winnerTeam: number
+    players: IUserMatchPlayer[]
+}
+
+/**
+ * saves the finished matches through the user service
+ */
+export class UserMatches {
+    /**
+     * save a finished match and its players' scoreboards
+     * @param match the match's data
+     * @returns true if saved successfully, false if not
+     */
+    public static async create(match: INewUserMatch): Promise<boolean> {
+        if (UserSvcPing.isAlive() === false) {
+            return false
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/matches`)
+                .send({
+                    roomName: match.roomName,
+                    gamemode: match.gamemode,
+                    map: match.map,
+                    startedAt: match.startedAt.toISOString(),
+                    ctScore: match.ctScore,
+                    terScore: match.terScore,
+                    winnerTeam: match.winnerTeam,
+                    players: match.players
+                })
+                .accept('json')
+
+            return res.status === 201
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return false
+        }
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * an user's chat mute, as stored in the user service
+ */
+export class UserMute {
+    public id: number
+    public user_id: number
+    public issuer_id: number
+    public created_at: string
+    public expires_at: string
+}
@@ -0,0 +1,108 @@
+import superagent from 'superagent'
+
+import { UserMute } from 'user/usermute'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * mutes users through the user service
+ */
+export class UserMutes {
+    /**
+     * get an user's active mute
+     * @param userId the user's ID
+     * @returns the mute, or null if the user isn't muted or it failed
+     */
+    public static async getActive(userId: number): Promise<UserMute> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/mutes/byuser/${userId}`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as UserMute
+            }
+
+            return null
+        } catch (error) {
+            const typedError = error as { status: number }
+            // the user isn't muted
+            if (typedError.status === 404) {
+                return null
+            }
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * mute an user for a while
+     * @param userId the muted user's ID
+     * @param issuerId the ID of the user giving the mute
+     * @param durationMinutes how long the mute lasts
+     * @returns the created mute, or null if it failed
+     */
+    public static async create(
+        userId: number,
+        issuerId: number,
+        durationMinutes: number
+    ): Promise<UserMute> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/mutes`)
+                .send({
+                    userId,
+                    issuerId,
+                    durationMinutes
+                })
+                .accept('json')
+
+            if (res.status === 201) {
+                return res.body as UserMute
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * lift an user's active mutes
+     * @param userId the muted user's ID
+     * @returns true if lifted or the user wasn't muted, false if it failed
+     */
+    public static async lift(userId: number): Promise<boolean> {
+        if (UserSvcPing.isAlive() === false) {
+            return false
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .delete(`${userSvcAuthority()}/mutes/byuser/${userId}`)
+                .accept('json')
+
+            return res.status === 200
+        } catch (error) {
+            const typedError = error as { status: number }
+            // the user wasn't muted
+            if (typedError.status === 404) {
+                return true
+            }
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return false
+        }
+    }
+}
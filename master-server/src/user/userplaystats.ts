@@ -0,0 +1,61 @@
+import superagent from 'superagent'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * an user's time and results in a match
+ */
+export interface IUserMatchPlayStats {
+    gamemode: number
+    map: number
+    secondsPlayed: number
+    // false if the user left before the match ended
+    playedMatch: boolean
+    won: boolean
+    kills: number
+}
+
+/**
+ * the gamemode and the map an user does best in
+ */
+export interface IUserBestPlayStats {
+    best_gamemode: number
+    best_map: number
+}
+
+/**
+ * keeps the users' stats in each gamemode and map through the user service
+ */
+export class UserPlayStats {
+    /**
+     * add the time and the results of a match to an user's stats
+     * @param userId the user's ID
+     * @param stats the user's stats in the match
+     * @returns the user's best gamemode and map, or null if it failed
+     */
+    public static async add(
+        userId: number,
+        stats: IUserMatchPlayStats
+    ): Promise<IUserBestPlayStats> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/playstats/${userId}`)
+                .send(stats)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as IUserBestPlayStats
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+}
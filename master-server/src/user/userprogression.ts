@@ -0,0 +1,144 @@
+import { ConfigFile } from 'config/configfile'
+
+import { RoomGamemode } from 'gametypes/shareddefs'
+
+import { RoomUserEntry } from 'room/roomuserentry'
+
+import {
+    IMatchRewardRates,
+    IProgressionSettings,
+    ProgressionConfig
+} from 'user/progressionconfig'
+import { User } from 'user/user'
+
+export enum MatchResult {
+    Win,
+    Draw,
+    Loss
+}
+
+/**
+ * the experience and points earned in a match
+ */
+export interface IMatchReward {
+    xp: number
+    points: number
+}
+
+/**
+ * calculates the experience, levels and points given to users after a match
+ * @class UserProgression
+ */
+export class UserProgression {
+    public static readonly config = new ConfigFile<IProgressionSettings>({
+        name: 'progression settings',
+        parse: (fileData: unknown) => ProgressionConfig.parse(fileData),
+        defaults: ProgressionConfig.getDefaults()
+    })
+
+    /**
+     * the experience needed to complete a level
+     * @param level the level
+     */
+    public static getMaxXp(level: number): number {
+        return Math.round(
+            this.config.get().maxXpBase *
+                Math.pow(level, this.config.get().maxXpExponent)
+        )
+    }
+
+    /**
+     * calculate what an user earned in a match
+     * users that weren't ingame don't earn anything
+     * @param entry the user's room entry with its match stats
+     * @param result the match's result for the user's team
+     * @param gamemode the match's gamemode
+     * @returns the earned experience and points
+     */
+    public static getMatchReward(
+        entry: RoomUserEntry,
+        result: MatchResult,
+        gamemode: RoomGamemode
+    ): IMatchReward {
+        if (entry.secondsPlayed === 0) {
+            return { xp: 0, points: 0 }
+        }
+
+        const multiplier: number = this.config
+            .get()
+            .gamemodeMultipliers.has(gamemode)
+            ? this.config.get().gamemodeMultipliers.get(gamemode)
+            : 1.0
+
+        return {
+            xp: Math.floor(
+                this.getRatesTotal(this.config.get().xp, entry, result) *
+                    multiplier
+            ),
+            points: Math.floor(
+                this.getRatesTotal(this.config.get().points, entry, result) *
+                    multiplier
+            )
+        }
+    }
+
+    /**
+     * give experience to an user, leveling it up if it has enough
+     * the experience stops at the level's max XP once the level cap is reached
+     * @param user the target user
+     * @param xp the experience to give
+     * @returns the amount of levels gained
+     */
+    public static addXp(user: User, xp: number): number {
+        const maxLevel: number = this.config.get().maxLevel
+
+        let level: number = Math.max(user.level, 1)
+        // the users service sends bigint columns as strings
+        let curXp: number = Number(user.cur_xp) + xp
+
+        while (level < maxLevel && curXp >= this.getMaxXp(level)) {
+            curXp -= this.getMaxXp(level)
+            level++
+        }
+
+        const maxXp: number = this.getMaxXp(level)
+
+        if (level >= maxLevel) {
+            curXp = Math.min(curXp, maxXp)
+        }
+
+        const levelsGained: number = level - user.level
+
+        user.level = level
+        user.cur_xp = curXp
+        user.max_xp = maxXp
+
+        return levelsGained
+    }
+
+    private static getRatesTotal(
+        rates: IMatchRewardRates,
+        entry: RoomUserEntry,
+        result: MatchResult
+    ): number {
+        let total: number =
+            entry.kills * rates.kill +
+            entry.headshots * rates.headshot +
+            entry.assists * rates.assist +
+            Math.floor(entry.secondsPlayed / 60) * rates.perMinute
+
+        switch (result) {
+            case MatchResult.Win:
+                total += rates.win
+                break
+            case MatchResult.Draw:
+                total += rates.draw
+                break
+            case MatchResult.Loss:
+                total += rates.loss
+                break
+        }
+
+        return total
+    }
+}
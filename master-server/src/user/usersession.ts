@@ -1,9 +1,9 @@
-import net from 'net'
-
 import { HolepunchType } from 'packets/holepunch/inholepunch'
 
 import { Channel } from 'channel/channel'
+import { Party } from 'party/party'
 import { Room } from 'room/room'
+import { SessionNatInfo } from 'user/sessionnatinfo'
 import { SessionNetworkInfo } from 'user/sessionnetworkinfo'
 import { User } from 'user/user'
 
@@ -15,15 +15,38 @@ export class UserSession {
 
     public externalNet: SessionNetworkInfo
     public internalNet: SessionNetworkInfo
+    // how the user's NAT behaves during the holepunch exchanges
+    public natInfo: SessionNatInfo
 
     public currentChannel: Channel
     public currentRoom: Room
+    public currentParty: Party
+
+    // the time (in milliseconds) when the user can chat again
+    public mutedUntil: number
 
-    constructor(user: User, addr: net.AddressInfo) {
+    // the address the user logged in from
+    public loginAddress: string
+    // sent to the user on login, so its holepunch packets can prove who sent them
+    public holepunchToken: number
+
+    constructor(user: User, address: string) {
         this.externalNet = new SessionNetworkInfo()
         this.internalNet = new SessionNetworkInfo()
+        this.natInfo = new SessionNatInfo()
         this.user = user
-        this.externalNet.ipAddress = addr.address
+        this.externalNet.ipAddress = address
+        this.mutedUntil = 0
+        this.loginAddress = address
+        this.holepunchToken = 0
+    }
+
+    /**
+     * was the user muted by a GM?
+     * @returns true if so, false if not
+     */
+    public isMuted(): boolean {
+        return this.mutedUntil > Date.now()
     }
 
     /**
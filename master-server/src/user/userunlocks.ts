@@ -0,0 +1,84 @@
+import { ConfigFile } from 'config/configfile'
+
+import { ExtendedSocket } from 'extendedsocket'
+
+import { UnlockItem } from 'gametypes/unlockitem'
+
+import { OutUnlockPacket } from 'packets/out/unlock'
+
+import { UnlockConfig } from 'user/unlockconfig'
+import { UserInventory } from 'user/userinventory'
+import { UserInventoryItem } from 'user/userinventoryitem'
+import { IUserWeaponKills, UserWeaponKills } from 'user/userweaponkills'
+
+/**
+ * stores the unlockable weapons and tracks the ones an user has unlocked
+ * @class UserUnlocks
+ */
+export class UserUnlocks {
+    public static readonly config = new ConfigFile<UnlockItem[]>({
+        name: 'unlockable weapons',
+        parse: (fileData: unknown) => UnlockConfig.parse(fileData),
+        defaults: []
+    })
+
+    /**
+     * get the unlocks whose weapon is in an user's inventory
+     * @param items the user's inventory items
+     * @returns the unlocked unlocks' IDs
+     */
+    public static getUnlockedIds(items: UserInventoryItem[]): number[] {
+        const itemIds = new Set<number>(
+            items.map((item: UserInventoryItem) => item.item_id)
+        )
+
+        return this.config
+            .get()
+            .filter((unlock: UnlockItem) => itemIds.has(unlock.itemId))
+            .map((unlock: UnlockItem) => unlock.unlockId)
+    }
+
+    /**
+     * builds the unlock info packet of an user
+     * @param weaponKills the user's kills with each weapon
+     * @param items the user's inventory items
+     */
+    public static buildUnlockInfo(
+        weaponKills: IUserWeaponKills[],
+        items: UserInventoryItem[]
+    ): OutUnlockPacket {
+        return OutUnlockPacket.createUnlockInfo(
+            this.config.get(),
+            weaponKills,
+            this.getUnlockedIds(items)
+        )
+    }
+
+    /**
+     * send an user its unlock progress
+     * @param conn the user's connection
+     * @param weaponKills the user's kills with each weapon, fetched if null
+     * @returns true if successful, false if not
+     */
+    public static async sendUnlockInfoTo(
+        conn: ExtendedSocket,
+        weaponKills: IUserWeaponKills[] = null
+    ): Promise<boolean> {
+        const userId: number = conn.session.user.id
+
+        const [inventory, kills] = await Promise.all([
+            UserInventory.getInventory(userId),
+            weaponKills != null
+                ? Promise.resolve(weaponKills)
+                : UserWeaponKills.getByUser(userId)
+        ])
+
+        if (inventory == null || kills == null) {
+            return false
+        }
+
+        conn.send(this.buildUnlockInfo(kills, inventory.items))
+
+        return true
+    }
+}
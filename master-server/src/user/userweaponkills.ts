@@ -0,0 +1,81 @@
+import superagent from 'superagent'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+
+/**
+ * the kills an user made with a weapon
+ */
+export interface IUserWeaponKills {
+    weapon_id: number
+    kills: number
+}
+
+/**
+ * keeps the users' kills with each weapon through the user service
+ */
+export class UserWeaponKills {
+    /**
+     * get an user's kills with each weapon
+     * @param userId the user's ID
+     * @returns the user's kills with each weapon it used, or null if it failed
+     */
+    public static async getByUser(userId: number): Promise<IUserWeaponKills[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        try {
+            const res: superagent.Response = await superagent
+                .get(`${userSvcAuthority()}/weaponkills/${userId}`)
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as IUserWeaponKills[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+
+    /**
+     * add kills to an user's weapons
+     * @param userId the user's ID
+     * @param newKills the kills made with each weapon, keyed by the weapon's item ID
+     * @returns the user's updated kills with each weapon, or null if it failed
+     */
+    public static async add(
+        userId: number,
+        newKills: Map<number, number>
+    ): Promise<IUserWeaponKills[]> {
+        if (UserSvcPing.isAlive() === false) {
+            return null
+        }
+
+        const weapons = Array.from(newKills.entries()).map(
+            ([weaponId, kills]) => {
+                return { weaponId, kills }
+            }
+        )
+
+        try {
+            const res: superagent.Response = await superagent
+                .post(`${userSvcAuthority()}/weaponkills/${userId}`)
+                .send({ weapons })
+                .accept('json')
+
+            if (res.status === 200) {
+                return res.body as IUserWeaponKills[]
+            }
+
+            return null
+        } catch (error) {
+            console.error(error)
+            await UserSvcPing.checkNow()
+            return null
+        }
+    }
+}
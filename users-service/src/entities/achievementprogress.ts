@@ -0,0 +1,67 @@
+import { sql } from 'db'
+
+// the unlocked achievements are stored as a 1024 bits long bitset
+export const MAX_ACHIEVEMENT_ID = 1023
+
+export type AddAchievementProgressBody = {
+    achievementId: number
+    amount: number
+}
+
+/**
+ * represents an user's progress towards an achievement
+ */
+export class AchievementProgress {
+    /**
+     * get an user's progress towards every achievement it has worked on
+     * @param userId the user's ID
+     * @returns a promise to the user's achievements progress
+     */
+    public static async getByUser(
+        userId: number
+    ): Promise<AchievementProgress[]> {
+        return await sql<AchievementProgress[]>`
+            SELECT achievement_id, progress FROM user_achievements
+            WHERE user_id = ${userId}
+            ORDER BY achievement_id ASC;
+        `
+    }
+
+    /**
+     * add progress to an user's achievements
+     * @param userId the user's ID
+     * @param newProgress the progress made towards each achievement
+     * @returns a promise to the user's updated progress of those achievements
+     */
+    public static async add(
+        userId: number,
+        newProgress: AddAchievementProgressBody[]
+    ): Promise<AchievementProgress[]> {
+        await sql.begin(async (tx) => {
+            for (const achievement of newProgress) {
+                await tx`
+                    INSERT INTO user_achievements (user_id, achievement_id,
+                        progress)
+                    VALUES (${userId}, ${achievement.achievementId},
+                        ${achievement.amount})
+                    ON CONFLICT (user_id, achievement_id) DO UPDATE SET
+                        progress = user_achievements.progress
+                            + EXCLUDED.progress;
+                `
+            }
+        })
+
+        const achievementIds: number[] = newProgress.map(
+            (a: AddAchievementProgressBody) => a.achievementId
+        )
+
+        return await sql<AchievementProgress[]>`
+            SELECT achievement_id, progress FROM user_achievements
+            WHERE user_id = ${userId} AND achievement_id IN (${achievementIds})
+            ORDER BY achievement_id ASC;
+        `
+    }
+
+    public achievement_id: number
+    public progress: number
+}
@@ -0,0 +1,114 @@
+import { sql } from 'db'
+
+export type CreateBanBody = {
+    userId?: number
+    ipAddress?: string
+    reason?: string
+    issuerId?: number
+    // the ban is permanent if there's no duration
+    durationMinutes?: number
+}
+
+/**
+ * represents an account or IP address ban
+ */
+export class Ban {
+    /**
+     * get a ban by its ID
+     * @param banId the ban's ID
+     * @returns a promise to the ban if found, null if not
+     */
+    public static async getById(banId: number): Promise<Ban> {
+        const resRows = await sql<Ban>`
+            SELECT * FROM bans WHERE id = ${banId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return resRows[0]
+        } else {
+            throw new Error('getById: got more than one row for a ban')
+        }
+    }
+
+    /**
+     * get every ban given to an user's account, newest first
+     * @param userId the user's ID
+     * @returns a promise to the user's bans
+     */
+    public static async getAllByUser(userId: number): Promise<Ban[]> {
+        return await sql<Ban[]>`
+            SELECT * FROM bans
+            WHERE user_id = ${userId}
+            ORDER BY created_at DESC;
+        `
+    }
+
+    /**
+     * get the ban that lasts the longest of an account or an IP address
+     * @param userId the user's ID, or null to check the IP address only
+     * @param ipAddress the IP address, or null to check the account only
+     * @returns a promise to the ban if found, null if not banned
+     */
+    public static async getActive(
+        userId: number,
+        ipAddress: string
+    ): Promise<Ban> {
+        const resRows = await sql<Ban>`
+            SELECT * FROM bans
+            WHERE (user_id = ${userId} OR ip_address = ${ipAddress})
+                AND (expires_at IS NULL OR expires_at > now())
+            ORDER BY expires_at DESC NULLS FIRST
+            LIMIT 1;
+        `
+        return resRows.count !== 0 ? resRows[0] : null
+    }
+
+    /**
+     * ban an account, an IP address or both
+     * @param newBan the ban's data
+     * @returns a promise to the created ban
+     */
+    public static async create(newBan: CreateBanBody): Promise<Ban> {
+        const userId = newBan.userId != null ? newBan.userId : null
+        const ipAddress = newBan.ipAddress != null ? newBan.ipAddress : null
+        const reason = newBan.reason != null ? newBan.reason : ''
+        const issuerId = newBan.issuerId != null ? newBan.issuerId : null
+        const duration =
+            newBan.durationMinutes != null ? newBan.durationMinutes : null
+
+        const res = await sql<Ban>`
+            INSERT INTO bans (user_id, ip_address, reason, issuer_id, expires_at)
+            VALUES (${userId}, ${ipAddress}, ${reason}, ${issuerId},
+                now() + ${duration}::integer * interval '1 minute')
+            RETURNING *;
+        `
+
+        if (res.count !== 1) {
+            throw new Error('INSERT query did not return a single row')
+        }
+
+        return res[0]
+    }
+
+    /**
+     * lift a ban
+     * @param banId the ban's ID
+     * @returns true if lifted, false if the ban doesn't exist
+     */
+    public static async remove(banId: number): Promise<boolean> {
+        const res = await sql`
+            DELETE FROM bans WHERE id = ${banId};
+        `
+        return res.count !== 0
+    }
+
+    public id: number
+    public user_id: number
+    public ip_address: string
+    public reason: string
+    public issuer_id: number
+    public created_at: Date
+    public expires_at: Date
+}
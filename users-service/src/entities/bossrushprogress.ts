@@ -0,0 +1,76 @@
+import { sql } from 'db'
+
+export type AddBossRushResultBody = {
+    gamemode: number
+    // the last wave the user reached
+    wave: number
+    // how long the stage took to clear in seconds, 0 if it wasn't cleared
+    clearTime: number
+    bossesDefeated: number
+}
+
+/**
+ * represents an user's progress in a zombie boss rush stage
+ */
+export class BossRushProgress {
+    /**
+     * get an user's progress in every boss rush stage it played
+     * @param userId the user's ID
+     * @returns a promise to the user's boss rush progress
+     */
+    public static async getByUser(userId: number): Promise<BossRushProgress[]> {
+        return await sql<BossRushProgress[]>`
+            SELECT gamemode, played_matches, best_wave, best_clear_time,
+                clears, bosses_defeated
+            FROM user_boss_rush
+            WHERE user_id = ${userId}
+            ORDER BY gamemode ASC;
+        `
+    }
+
+    /**
+     * add a boss rush match's result to an user's progress
+     * keeps the best wave and the fastest clear time
+     * @param userId the user's ID
+     * @param result the match's result
+     * @returns a promise to the user's updated progress in the stage
+     */
+    public static async add(
+        userId: number,
+        result: AddBossRushResultBody
+    ): Promise<BossRushProgress> {
+        const clears = result.clearTime !== 0 ? 1 : 0
+
+        const res = await sql<BossRushProgress>`
+            INSERT INTO user_boss_rush (user_id, gamemode, played_matches,
+                best_wave, best_clear_time, clears, bosses_defeated)
+            VALUES (${userId}, ${result.gamemode}, 1, ${result.wave},
+                ${result.clearTime}, ${clears}, ${result.bossesDefeated})
+            ON CONFLICT (user_id, gamemode) DO UPDATE SET
+                played_matches = user_boss_rush.played_matches + 1,
+                best_wave = GREATEST(user_boss_rush.best_wave,
+                    EXCLUDED.best_wave),
+                best_clear_time = CASE
+                    WHEN EXCLUDED.best_clear_time = 0
+                        THEN user_boss_rush.best_clear_time
+                    WHEN user_boss_rush.best_clear_time = 0
+                        THEN EXCLUDED.best_clear_time
+                    ELSE LEAST(user_boss_rush.best_clear_time,
+                        EXCLUDED.best_clear_time)
+                END,
+                clears = user_boss_rush.clears + EXCLUDED.clears,
+                bosses_defeated = user_boss_rush.bosses_defeated
+                    + EXCLUDED.bosses_defeated
+            RETURNING gamemode, played_matches, best_wave, best_clear_time,
+                clears, bosses_defeated;
+        `
+        return res[0]
+    }
+
+    public gamemode: number
+    public played_matches: number
+    public best_wave: number
+    public best_clear_time: number
+    public clears: number
+    public bosses_defeated: number
+}
@@ -0,0 +1,279 @@
+import postgres from 'postgres'
+
+import { sql } from 'db'
+
+import { DB_POSTGRES_CUSTOM_TYPES } from 'config/db'
+
+import { ClanRole } from 'entities/clanmember'
+
+export const CLAN_MAX_MARK = 10
+
+/**
+ * sets the clan name and mark shown in an user's profile
+ * @param tx the transaction to run the query in
+ * @param userId the user's ID
+ * @param name the clan's name, an empty string if the user left its clan
+ * @param mark the clan's mark, 0 if the user left its clan
+ */
+async function SetUserClanInfo(
+    tx: postgres.TransactionSql<DB_POSTGRES_CUSTOM_TYPES>,
+    userId: number,
+    name: string,
+    mark: number
+): Promise<void> {
+    await tx`
+        UPDATE users SET clan_name = ${name}, clan_mark = ${mark}
+        WHERE id = ${userId};
+    `
+}
+
+/**
+ * represents a clan
+ */
+export class Clan {
+    /**
+     * get a clan by its ID
+     * @param clanId the clan's ID
+     * @returns a promise to the clan if found, null if not
+     */
+    public static async getById(clanId: number): Promise<Clan> {
+        const resRows = await sql<Clan>`
+            SELECT * FROM clans WHERE id = ${clanId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return resRows[0]
+        } else {
+            throw new Error('getById: got more than one row for a clan')
+        }
+    }
+
+    /**
+     * get the clan an user is in
+     * @param userId the member's user ID
+     * @returns a promise to the clan if the user is in one, null if not
+     */
+    public static async getByMember(userId: number): Promise<Clan> {
+        const resRows = await sql<Clan>`
+            SELECT c.* FROM clans c
+            JOIN clan_members m ON m.clan_id = c.id
+            WHERE m.user_id = ${userId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return resRows[0]
+        } else {
+            throw new Error('getByMember: got more than one row for a clan')
+        }
+    }
+
+    /**
+     * creates a new clan, with its creator as the clan master
+     * @param name the clan's name
+     * @param ownerId the creator's user ID
+     * @param mark the clan's mark
+     * @returns a promise to the new clan
+     */
+    public static async create(
+        name: string,
+        ownerId: number,
+        mark = 0
+    ): Promise<Clan> {
+        return await sql.begin(async (tx) => {
+            const res = await tx<Clan>`
+                INSERT INTO clans (name, mark)
+                VALUES (${name}, ${mark})
+                RETURNING *;
+            `
+
+            if (res.count !== 1) {
+                throw new Error('INSERT query did not return a single row')
+            }
+
+            const newClan = res[0]
+
+            await tx`
+                INSERT INTO clan_members (user_id, clan_id, role)
+                VALUES (${ownerId}, ${newClan.id}, ${ClanRole.Master});
+            `
+            await tx`
+                DELETE FROM clan_invites WHERE user_id = ${ownerId};
+            `
+            await SetUserClanInfo(tx, ownerId, newClan.name, newClan.mark)
+
+            return newClan
+        })
+    }
+
+    /**
+     * invites an user to a clan
+     * @param clanId the clan's ID
+     * @param userId the invited user's ID
+     */
+    public static async invite(clanId: number, userId: number): Promise<void> {
+        await sql`
+            INSERT INTO clan_invites (clan_id, user_id)
+            VALUES (${clanId}, ${userId});
+        `
+    }
+
+    /**
+     * makes an user join a clan it was invited to
+     * @param clanId the clan's ID
+     * @param userId the user's ID
+     * @returns true if joined, false if the user wasn't invited
+     */
+    public static async join(clanId: number, userId: number): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            const invite = await tx`
+                DELETE FROM clan_invites
+                WHERE clan_id = ${clanId} AND user_id = ${userId};
+            `
+
+            if (invite.count === 0) {
+                return false
+            }
+
+            await tx`
+                INSERT INTO clan_members (user_id, clan_id, role)
+                VALUES (${userId}, ${clanId}, ${ClanRole.Member});
+            `
+
+            const clanRes = await tx<Clan>`
+                SELECT * FROM clans WHERE id = ${clanId};
+            `
+            const clan = clanRes[0]
+
+            // the user can't be invited by other clans anymore
+            await tx`
+                DELETE FROM clan_invites WHERE user_id = ${userId};
+            `
+            await SetUserClanInfo(tx, userId, clan.name, clan.mark)
+
+            return true
+        })
+    }
+
+    /**
+     * removes a member from a clan, be it by leaving or by being kicked
+     * @param clanId the clan's ID
+     * @param userId the member's user ID
+     * @returns true if removed, false if the user isn't in the clan
+     */
+    public static async removeMember(
+        clanId: number,
+        userId: number
+    ): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            const res = await tx`
+                DELETE FROM clan_members
+                WHERE clan_id = ${clanId} AND user_id = ${userId};
+            `
+
+            if (res.count === 0) {
+                return false
+            }
+
+            await SetUserClanInfo(tx, userId, '', 0)
+            return true
+        })
+    }
+
+    /**
+     * changes a clan member's role
+     * giving away the master role makes the current master an officer
+     * @param clanId the clan's ID
+     * @param masterId the clan master's user ID
+     * @param userId the member's user ID
+     * @param role the member's new role
+     * @returns true if changed, false if the user isn't in the clan
+     */
+    public static async setRole(
+        clanId: number,
+        masterId: number,
+        userId: number,
+        role: ClanRole
+    ): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            const res = await tx`
+                UPDATE clan_members SET role = ${role}
+                WHERE clan_id = ${clanId} AND user_id = ${userId};
+            `
+
+            if (res.count === 0) {
+                return false
+            }
+
+            if (role === ClanRole.Master) {
+                await tx`
+                    UPDATE clan_members SET role = ${ClanRole.Officer}
+                    WHERE clan_id = ${clanId} AND user_id = ${masterId};
+                `
+            }
+
+            return true
+        })
+    }
+
+    /**
+     * changes a clan's mark, including in its members' profiles
+     * @param clanId the clan's ID
+     * @param mark the new mark
+     * @returns true if changed, false if the clan doesn't exist
+     */
+    public static async setMark(
+        clanId: number,
+        mark: number
+    ): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            const res = await tx`
+                UPDATE clans SET mark = ${mark} WHERE id = ${clanId};
+            `
+
+            if (res.count === 0) {
+                return false
+            }
+
+            await tx`
+                UPDATE users SET clan_mark = ${mark}
+                WHERE id IN (
+                    SELECT user_id FROM clan_members WHERE clan_id = ${clanId}
+                );
+            `
+
+            return true
+        })
+    }
+
+    /**
+     * disbands a clan, removing every member from it
+     * @param clanId the clan's ID
+     * @returns true if disbanded, false if the clan doesn't exist
+     */
+    public static async disband(clanId: number): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            await tx`
+                UPDATE users SET clan_name = '', clan_mark = 0
+                WHERE id IN (
+                    SELECT user_id FROM clan_members WHERE clan_id = ${clanId}
+                );
+            `
+
+            // the members and invites are deleted along with the clan
+            const res = await tx`
+                DELETE FROM clans WHERE id = ${clanId};
+            `
+
+            return res.count !== 0
+        })
+    }
+
+    public id: number
+    public name: string
+    public mark: number
+    public created_at: Date
+}
@@ -0,0 +1,68 @@
+import { sql } from 'db'
+
+export enum ClanRole {
+    Member = 0,
+    Officer = 1,
+    Master = 2
+}
+
+/**
+ * represents an user's membership in a clan
+ */
+export class ClanMember {
+    /**
+     * checks if a number is a valid clan role
+     * @param role the role to check
+     * @returns true if valid, false if not
+     */
+    public static isValidRole(role: number): boolean {
+        return (
+            role === ClanRole.Member ||
+            role === ClanRole.Officer ||
+            role === ClanRole.Master
+        )
+    }
+
+    /**
+     * get every member of a clan, sorted by their role
+     * @param clanId the clan's ID
+     * @returns a promise to the clan's members
+     */
+    public static async getAllByClan(clanId: number): Promise<ClanMember[]> {
+        return await sql<ClanMember[]>`
+            SELECT m.user_id, m.clan_id, m.role, m.joined_at, u.playername
+            FROM clan_members m
+            JOIN users u ON u.id = m.user_id
+            WHERE m.clan_id = ${clanId}
+            ORDER BY m.role DESC, m.joined_at ASC;
+        `
+    }
+
+    /**
+     * get an user's clan membership
+     * @param userId the user's ID
+     * @returns a promise to the membership if the user is in a clan, null if not
+     */
+    public static async getByUser(userId: number): Promise<ClanMember> {
+        const resRows = await sql<ClanMember>`
+            SELECT m.user_id, m.clan_id, m.role, m.joined_at, u.playername
+            FROM clan_members m
+            JOIN users u ON u.id = m.user_id
+            WHERE m.user_id = ${userId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return resRows[0]
+        } else {
+            throw new Error('getByUser: got more than one row for a member')
+        }
+    }
+
+    public user_id: number
+    public clan_id: number
+    public role: ClanRole
+    public joined_at: Date
+    public playername: string
+}
@@ -0,0 +1,252 @@
+import { sql } from 'db'
+
+export enum FriendStatus {
+    Pending = 0,
+    Accepted = 1,
+    Blocked = 2
+}
+
+/**
+ * the result of a friend request
+ */
+export enum FriendRequestResult {
+    Sent,
+    Accepted,
+    AlreadyExists,
+    Blocked
+}
+
+/**
+ * represents a relationship between two users
+ * each row goes from user_id to friend_id, so accepted friendships have two rows
+ */
+export class Friend {
+    /**
+     * get every relationship an user has, including incoming requests
+     * @param userId the user's ID
+     * @returns a promise to the user's relationships
+     */
+    public static async getAllByUser(userId: number): Promise<Friend[]> {
+        return await sql<Friend[]>`
+            SELECT f.user_id, f.friend_id, f.status, u.playername
+            FROM friends f
+            JOIN users u ON u.id = CASE WHEN f.user_id = ${userId}
+                THEN f.friend_id ELSE f.user_id END
+            WHERE f.user_id = ${userId}
+                OR (f.friend_id = ${userId} AND f.status = ${FriendStatus.Pending});
+        `
+    }
+
+    /**
+     * get a relationship from an user to another
+     * @param userId the relationship owner's user ID
+     * @param friendId the other user's ID
+     * @returns a promise to the relationship if it exists, null if not
+     */
+    public static async get(userId: number, friendId: number): Promise<Friend> {
+        const resRows = await sql<Friend>`
+            SELECT * FROM friends
+            WHERE user_id = ${userId} AND friend_id = ${friendId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return resRows[0]
+        } else {
+            throw new Error('get: got more than one row for a relationship')
+        }
+    }
+
+    /**
+     * sends a friend request to another user
+     * accepts the request right away if the other user had already sent one
+     * @param userId the requester's user ID
+     * @param friendId the requested user's ID
+     * @returns a promise to the request's result
+     */
+    public static async request(
+        userId: number,
+        friendId: number
+    ): Promise<FriendRequestResult> {
+        return await sql.begin(async (tx) => {
+            // lock both users, so requests between them wait for this one
+            // even when neither has a relationship row yet
+            await tx`
+                SELECT 1 FROM users
+                WHERE id IN (${userId}, ${friendId})
+                ORDER BY id
+                FOR UPDATE;
+            `
+
+            const relRows = await tx<Friend>`
+                SELECT * FROM friends
+                WHERE (user_id = ${userId} AND friend_id = ${friendId})
+                    OR (user_id = ${friendId} AND friend_id = ${userId})
+                FOR UPDATE;
+            `
+
+            let ownRel: Friend = null
+            let otherRel: Friend = null
+
+            for (const rel of relRows) {
+                if (rel.user_id === userId) {
+                    ownRel = rel
+                } else {
+                    otherRel = rel
+                }
+            }
+
+            if (
+                (ownRel != null && ownRel.status === FriendStatus.Blocked) ||
+                (otherRel != null && otherRel.status === FriendStatus.Blocked)
+            ) {
+                return FriendRequestResult.Blocked
+            }
+
+            if (ownRel != null) {
+                return FriendRequestResult.AlreadyExists
+            }
+
+            if (otherRel != null && otherRel.status === FriendStatus.Pending) {
+                await tx`
+                    UPDATE friends SET status = ${FriendStatus.Accepted}
+                    WHERE user_id = ${friendId} AND friend_id = ${userId};
+                `
+                await tx`
+                    INSERT INTO friends (user_id, friend_id, status)
+                    VALUES (${userId}, ${friendId}, ${FriendStatus.Accepted});
+                `
+                return FriendRequestResult.Accepted
+            }
+
+            await tx`
+                INSERT INTO friends (user_id, friend_id, status)
+                VALUES (${userId}, ${friendId}, ${FriendStatus.Pending});
+            `
+
+            return FriendRequestResult.Sent
+        })
+    }
+
+    /**
+     * accepts a pending friend request
+     * @param userId the requested user's ID
+     * @param requesterId the requester's user ID
+     * @returns true if accepted, false if there was no pending request
+     */
+    public static async accept(
+        userId: number,
+        requesterId: number
+    ): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            // lock both users in the same order as request does,
+            // so accepting can't deadlock with a request between them
+            await tx`
+                SELECT 1 FROM users
+                WHERE id IN (${userId}, ${requesterId})
+                ORDER BY id
+                FOR UPDATE;
+            `
+
+            const updated = await tx`
+                UPDATE friends SET status = ${FriendStatus.Accepted}
+                WHERE user_id = ${requesterId} AND friend_id = ${userId}
+                    AND status = ${FriendStatus.Pending};
+            `
+
+            if (updated.count === 0) {
+                return false
+            }
+
+            await tx`
+                INSERT INTO friends (user_id, friend_id, status)
+                VALUES (${userId}, ${requesterId}, ${FriendStatus.Accepted});
+            `
+
+            return true
+        })
+    }
+
+    /**
+     * declines a pending friend request
+     * @param userId the requested user's ID
+     * @param requesterId the requester's user ID
+     * @returns true if declined, false if there was no pending request
+     */
+    public static async decline(
+        userId: number,
+        requesterId: number
+    ): Promise<boolean> {
+        const res = await sql`
+            DELETE FROM friends
+            WHERE user_id = ${requesterId} AND friend_id = ${userId}
+                AND status = ${FriendStatus.Pending};
+        `
+        return res.count !== 0
+    }
+
+    /**
+     * removes a friend, or cancels a sent friend request
+     * @param userId the user's ID
+     * @param friendId the friend's user ID
+     * @returns true if removed, false if they weren't friends
+     */
+    public static async remove(
+        userId: number,
+        friendId: number
+    ): Promise<boolean> {
+        const res = await sql`
+            DELETE FROM friends
+            WHERE status <> ${FriendStatus.Blocked}
+                AND ((user_id = ${userId} AND friend_id = ${friendId})
+                OR (user_id = ${friendId} AND friend_id = ${userId}
+                    AND status = ${FriendStatus.Accepted}));
+        `
+        return res.count !== 0
+    }
+
+    /**
+     * blocks another user, removing any friendship between both users
+     * @param userId the blocker's user ID
+     * @param targetId the blocked user's ID
+     */
+    public static async block(userId: number, targetId: number): Promise<void> {
+        await sql.begin(async (tx) => {
+            await tx`
+                DELETE FROM friends
+                WHERE (user_id = ${userId} AND friend_id = ${targetId})
+                    OR (user_id = ${targetId} AND friend_id = ${userId}
+                        AND status <> ${FriendStatus.Blocked});
+            `
+            await tx`
+                INSERT INTO friends (user_id, friend_id, status)
+                VALUES (${userId}, ${targetId}, ${FriendStatus.Blocked});
+            `
+        })
+    }
+
+    /**
+     * unblocks an user
+     * @param userId the blocker's user ID
+     * @param targetId the blocked user's ID
+     * @returns true if unblocked, false if the user wasn't blocked
+     */
+    public static async unblock(
+        userId: number,
+        targetId: number
+    ): Promise<boolean> {
+        const res = await sql`
+            DELETE FROM friends
+            WHERE user_id = ${userId} AND friend_id = ${targetId}
+                AND status = ${FriendStatus.Blocked};
+        `
+        return res.count !== 0
+    }
+
+    public user_id: number
+    public friend_id: number
+    public status: FriendStatus
+    // the other user's player name, only set when listing an user's friends
+    public playername?: string
+}
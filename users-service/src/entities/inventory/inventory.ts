@@ -1,6 +1,7 @@
 import { sql } from 'db'
 
 import { InventoryItem } from 'entities/inventory/item'
+import { UserCurrencies } from 'entities/user'
 
 function FixInventoryStructure(
     inv: Inventory | { items: number[][] }
@@ -118,6 +119,68 @@ export class Inventory {
         return true
     }
 
+    /**
+     * charge an user for an item and add it to its inventory in a single
+     * transaction, unless the user already owns it
+     * @param itemId the item's ID
+     * @param price the currencies to charge
+     * @param userId the owning user's ID
+     * @returns a promise to the user's new currencies if unlocked,
+     *          null if the user doesn't exist, already owns the item
+     *          or can't afford it
+     */
+    public static async unlockItem(
+        itemId: number,
+        price: UserCurrencies,
+        userId: number
+    ): Promise<UserCurrencies> {
+        return await sql.begin(async (tx) => {
+            // lock the inventory so concurrent unlocks wait for this one
+            const invRows = await tx`
+                SELECT 1 FROM inventories
+                WHERE owner_id = ${userId}
+                FOR UPDATE;
+            `
+
+            if (invRows.count === 0) {
+                return null
+            }
+
+            const ownedRows = await tx`
+                SELECT 1 FROM inventories, unnest(items) AS item
+                WHERE owner_id = ${userId} AND item.item_id = ${itemId};
+            `
+
+            if (ownedRows.count !== 0) {
+                return null
+            }
+
+            const resRows = await tx<UserCurrencies>`
+                UPDATE users
+                SET points = points - ${price.points},
+                    cash = cash - ${price.cash},
+                    mpoints = mpoints - ${price.mpoints}
+                WHERE id = ${userId}
+                    AND points >= ${price.points}
+                    AND cash >= ${price.cash}
+                    AND mpoints >= ${price.mpoints}
+                RETURNING points, cash, mpoints;
+            `
+
+            if (resRows.count === 0) {
+                return null
+            }
+
+            await tx`
+                UPDATE inventories
+                SET items = items || (${itemId}, 1)::InventoryItem
+                WHERE owner_id = ${userId};
+            `
+
+            return resRows[0]
+        })
+    }
+
     /**
      * remove an item from an user's inventory
      * if itemAmmount IS provided, it will decrement the item's ammount by that value
@@ -0,0 +1,133 @@
+import { sql } from 'db'
+
+/**
+ * how a leaderboard's players are scored and sorted
+ */
+interface ILeaderboardCategory {
+    // the SQL expression of a player's score
+    value: string
+    // the SQL ORDER BY clause, best players first
+    order: string
+}
+
+// the SQL is built from these constants only, never from the request
+const LEADERBOARD_CATEGORIES = new Map<string, ILeaderboardCategory>([
+    ['kills', { value: 'kills', order: 'kills DESC, id ASC' }],
+    [
+        'kdratio',
+        {
+            value: 'kills::float8 / GREATEST(deaths, 1)',
+            order:
+                'kills::float8 / GREATEST(deaths, 1) DESC, kills DESC, id ASC'
+        }
+    ],
+    ['wins', { value: 'wins', order: 'wins DESC, id ASC' }],
+    [
+        'winrate',
+        {
+            value: 'wins::float8 / GREATEST(played_matches, 1)',
+            order:
+                'wins::float8 / GREATEST(played_matches, 1) DESC, wins DESC, id ASC'
+        }
+    ],
+    [
+        'hsrate',
+        {
+            value: 'headshots::float8 / GREATEST(kills, 1)',
+            order:
+                'headshots::float8 / GREATEST(kills, 1) DESC, headshots DESC, id ASC'
+        }
+    ],
+    ['level', { value: 'level', order: 'level DESC, cur_xp DESC, id ASC' }]
+])
+
+// the leaderboard used to set the users' world rank
+const WORLD_RANK_CATEGORY = 'level'
+// users need to have played this many matches to get a world rank
+const WORLD_RANK_MIN_MATCHES = 1
+
+/**
+ * represents an user's position in a leaderboard
+ */
+export class LeaderboardEntry {
+    /**
+     * checks if a leaderboard exists
+     * @param category the leaderboard's category
+     * @returns true if it exists, false if not
+     */
+    public static isValidCategory(category: string): boolean {
+        return LEADERBOARD_CATEGORIES.has(category)
+    }
+
+    /**
+     * get a page of a leaderboard, best players first
+     * @param category the leaderboard's category
+     * @param minMatches the matches an user must have played to be listed
+     * @param colOffset the index where the collection should begin
+     * @param colLength the collection's length
+     * @returns a promise to the leaderboard's entries
+     */
+    public static async getPage(
+        category: string,
+        minMatches: number,
+        colOffset: number,
+        colLength: number
+    ): Promise<LeaderboardEntry[]> {
+        const leaderboard = LEADERBOARD_CATEGORIES.get(category)
+
+        if (leaderboard == null) {
+            throw new Error(`getPage: unknown leaderboard ${category}`)
+        }
+
+        return await sql.unsafe<LeaderboardEntry[]>(
+            `
+            SELECT ROW_NUMBER() OVER (ORDER BY ${leaderboard.order})::integer
+                AS position,
+                id AS user_id, playername, level, played_matches,
+                clan_name, (${leaderboard.value})::float8 AS value
+            FROM users
+            WHERE played_matches >= $1
+            ORDER BY position ASC
+            LIMIT $2 OFFSET $3;
+        `,
+            [minMatches, colLength, colOffset]
+        )
+    }
+
+    /**
+     * set every user's world rank from their position in the level leaderboard
+     * users that haven't played enough matches are unranked (world rank 0)
+     */
+    public static async updateWorldRanks(): Promise<void> {
+        const leaderboard = LEADERBOARD_CATEGORIES.get(WORLD_RANK_CATEGORY)
+
+        await sql.begin(async (tx) => {
+            await tx.unsafe(
+                `
+                UPDATE users u SET world_rank = r.position
+                FROM (
+                    SELECT id, ROW_NUMBER() OVER (ORDER BY ${leaderboard.order})
+                        AS position
+                    FROM users
+                    WHERE played_matches >= $1
+                ) r
+                WHERE u.id = r.id AND u.world_rank IS DISTINCT FROM r.position;
+            `,
+                [WORLD_RANK_MIN_MATCHES]
+            )
+            await tx`
+                UPDATE users SET world_rank = 0
+                WHERE played_matches < ${WORLD_RANK_MIN_MATCHES}
+                    AND world_rank <> 0;
+            `
+        })
+    }
+
+    public position: number
+    public user_id: number
+    public playername: string
+    public level: number
+    public played_matches: number
+    public clan_name: string
+    public value: number
+}
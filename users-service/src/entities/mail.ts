@@ -0,0 +1,207 @@
+import postgres from 'postgres'
+
+import { sql } from 'db'
+
+import { DB_POSTGRES_CUSTOM_TYPES } from 'config/db'
+
+export type SendMailBody = {
+    senderId?: number
+    senderName: string
+    message: string
+    itemId?: number
+    ammount?: number
+}
+
+/**
+ * updates an user's unread mail counter
+ * @param tx the transaction to run the query in
+ * @param ownerId the mailbox owner's user ID
+ */
+async function UpdateUnreadCount(
+    tx: postgres.TransactionSql<DB_POSTGRES_CUSTOM_TYPES>,
+    ownerId: number
+): Promise<void> {
+    await tx`
+        UPDATE users
+        SET unreaded_message = (
+            SELECT count(*) FROM mails
+            WHERE owner_id = ${ownerId} AND is_read = FALSE
+        )
+        WHERE id = ${ownerId};
+    `
+}
+
+/**
+ * represents a mail in an user's mailbox
+ */
+export class Mail {
+    /**
+     * get every mail in an user's mailbox, newest first
+     * @param ownerId the mailbox owner's user ID
+     * @returns a promise to the user's mails
+     */
+    public static async getAllByOwner(ownerId: number): Promise<Mail[]> {
+        return await sql<Mail[]>`
+            SELECT * FROM mails
+            WHERE owner_id = ${ownerId}
+            ORDER BY sent_at DESC;
+        `
+    }
+
+    /**
+     * get a mail from an user's mailbox
+     * @param mailId the mail's ID
+     * @param ownerId the mailbox owner's user ID
+     * @returns a promise to the mail if found, null if not
+     */
+    public static async getById(
+        mailId: number,
+        ownerId: number
+    ): Promise<Mail> {
+        const resRows = await sql<Mail>`
+            SELECT * FROM mails
+            WHERE id = ${mailId} AND owner_id = ${ownerId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return resRows[0]
+        } else {
+            throw new Error('getById: got more than one row for a mail')
+        }
+    }
+
+    /**
+     * sends a mail to an user
+     * @param ownerId the receiver's user ID
+     * @param newMail the mail's data
+     * @returns a promise to the sent mail
+     */
+    public static async send(
+        ownerId: number,
+        newMail: SendMailBody
+    ): Promise<Mail> {
+        const senderId = newMail.senderId != null ? newMail.senderId : null
+        const itemId = newMail.itemId != null ? newMail.itemId : 0
+        const ammount = itemId !== 0 ? newMail.ammount || 1 : 0
+
+        return await sql.begin(async (tx) => {
+            const res = await tx<Mail>`
+                INSERT INTO mails (owner_id, sender_id, sender_name, message, item_id, item_ammount)
+                VALUES (${ownerId}, ${senderId}, ${newMail.senderName}, ${newMail.message}, ${itemId}, ${ammount})
+                RETURNING *;
+            `
+
+            if (res.count !== 1) {
+                throw new Error('INSERT query did not return a single row')
+            }
+
+            await UpdateUnreadCount(tx, ownerId)
+
+            return res[0]
+        })
+    }
+
+    /**
+     * marks a mail as read
+     * @param mailId the mail's ID
+     * @param ownerId the mailbox owner's user ID
+     * @returns true if marked, false if the mail doesn't exist
+     */
+    public static async markRead(
+        mailId: number,
+        ownerId: number
+    ): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            const res = await tx`
+                UPDATE mails SET is_read = TRUE
+                WHERE id = ${mailId} AND owner_id = ${ownerId};
+            `
+
+            if (res.count === 0) {
+                return false
+            }
+
+            await UpdateUnreadCount(tx, ownerId)
+            return true
+        })
+    }
+
+    /**
+     * moves a mail's attached item to the owner's inventory
+     * @param mailId the mail's ID
+     * @param ownerId the mailbox owner's user ID
+     * @returns the claimed mail, or null if it doesn't exist or has no item
+     */
+    public static async claimItem(
+        mailId: number,
+        ownerId: number
+    ): Promise<Mail> {
+        return await sql.begin(async (tx) => {
+            const res = await tx<Mail>`
+                SELECT * FROM mails
+                WHERE id = ${mailId} AND owner_id = ${ownerId} AND item_id <> 0
+                FOR UPDATE;
+            `
+
+            if (res.count === 0) {
+                return null
+            }
+
+            const claimed = res[0]
+
+            await tx`
+                UPDATE mails SET item_id = 0, item_ammount = 0
+                WHERE id = ${mailId};
+            `
+            const invRes = await tx`
+                UPDATE inventories
+                SET items = items || (${claimed.item_id}, ${claimed.item_ammount})::InventoryItem
+                WHERE owner_id = ${ownerId};
+            `
+
+            // rollback the claim if the owner doesn't have an inventory
+            if (invRes.count === 0) {
+                throw new Error('claimItem: the mail owner has no inventory')
+            }
+
+            return claimed
+        })
+    }
+
+    /**
+     * deletes a mail from an user's mailbox
+     * @param mailId the mail's ID
+     * @param ownerId the mailbox owner's user ID
+     * @returns true if deleted, false if the mail doesn't exist
+     */
+    public static async remove(
+        mailId: number,
+        ownerId: number
+    ): Promise<boolean> {
+        return await sql.begin(async (tx) => {
+            const res = await tx`
+                DELETE FROM mails
+                WHERE id = ${mailId} AND owner_id = ${ownerId};
+            `
+
+            if (res.count === 0) {
+                return false
+            }
+
+            await UpdateUnreadCount(tx, ownerId)
+            return true
+        })
+    }
+
+    public id: number
+    public owner_id: number
+    public sender_id: number
+    public sender_name: string
+    public message: string
+    public item_id: number
+    public item_ammount: number
+    public is_read: boolean
+    public sent_at: Date
+}
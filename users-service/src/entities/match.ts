@@ -0,0 +1,131 @@
+import { sql } from 'db'
+
+import { CreateMatchPlayerBody, MatchPlayer } from 'entities/matchplayer'
+
+export type CreateMatchBody = {
+    roomName: string
+    gamemode: number
+    map: number
+    startedAt: string
+    ctScore: number
+    terScore: number
+    winnerTeam: number
+    players: CreateMatchPlayerBody[]
+}
+
+/**
+ * represents a finished match and its players' scoreboards
+ */
+export class Match {
+    /**
+     * get a match by its ID
+     * @param matchId the match's ID
+     * @returns a promise to the match if found, null if not
+     */
+    public static async getById(matchId: number): Promise<Match> {
+        const resRows = await sql<Match>`
+            SELECT * FROM matches WHERE id = ${matchId};
+        `
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count > 1) {
+            throw new Error('getById: got more than one row for a match')
+        }
+
+        const match: Match = resRows[0]
+        match.players = await MatchPlayer.getAllByMatch(match.id)
+        return match
+    }
+
+    /**
+     * get the matches an user played, newest first
+     * @param userId the user's ID
+     * @param colOffset the index where the collection should begin
+     * @param colLength the collection's length
+     * @returns a promise to the user's matches
+     */
+    public static async getRecentByUser(
+        userId: number,
+        colOffset: number,
+        colLength: number
+    ): Promise<Match[]> {
+        const matches = await sql<Match[]>`
+            SELECT m.* FROM matches m
+            JOIN match_players p ON p.match_id = m.id
+            WHERE p.user_id = ${userId}
+            ORDER BY m.ended_at DESC, m.id DESC
+            LIMIT ${colLength} OFFSET ${colOffset};
+        `
+
+        await Promise.all(
+            matches.map(async (match: Match) => {
+                match.players = await MatchPlayer.getAllByMatch(match.id)
+            })
+        )
+
+        return matches
+    }
+
+    /**
+     * save a finished match along with its players
+     * @param newMatch the match's data
+     * @returns a promise to the saved match
+     */
+    public static async create(newMatch: CreateMatchBody): Promise<Match> {
+        const matchId: number = await sql.begin(async (tx) => {
+            const res = await tx<Match>`
+                INSERT INTO matches (room_name, gamemode, map, started_at,
+                    ct_score, ter_score, winner_team)
+                VALUES (${newMatch.roomName}, ${newMatch.gamemode},
+                    ${newMatch.map}, ${newMatch.startedAt},
+                    ${newMatch.ctScore}, ${newMatch.terScore},
+                    ${newMatch.winnerTeam})
+                RETURNING *;
+            `
+
+            if (res.count !== 1) {
+                throw new Error('INSERT query did not return a single row')
+            }
+
+            const newId: number = res[0].id
+
+            for (const player of newMatch.players) {
+                await tx`
+                    INSERT INTO match_players (match_id, user_id, team,
+                        kills, deaths, assists, headshots)
+                    VALUES (${newId}, ${player.userId}, ${player.team},
+                        ${player.kills}, ${player.deaths}, ${player.assists},
+                        ${player.headshots});
+                `
+            }
+
+            return newId
+        })
+
+        return await Match.getById(matchId)
+    }
+
+    /**
+     * delete a match and its players' scoreboards
+     * @param matchId the match's ID
+     * @returns true if deleted, false if the match doesn't exist
+     */
+    public static async remove(matchId: number): Promise<boolean> {
+        const res = await sql`
+            DELETE FROM matches WHERE id = ${matchId};
+        `
+        return res.count !== 0
+    }
+
+    public id: number
+    public room_name: string
+    public gamemode: number
+    public map: number
+    public started_at: Date
+    public ended_at: Date
+    public ct_score: number
+    public ter_score: number
+    public winner_team: number
+    public players: MatchPlayer[]
+}
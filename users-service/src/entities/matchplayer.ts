@@ -0,0 +1,40 @@
+import { sql } from 'db'
+
+export type CreateMatchPlayerBody = {
+    userId: number
+    team: number
+    kills: number
+    deaths: number
+    assists: number
+    headshots: number
+}
+
+/**
+ * represents an user's scoreboard in a finished match
+ */
+export class MatchPlayer {
+    /**
+     * get every player of a match, best scores first
+     * @param matchId the match's ID
+     * @returns a promise to the match's players
+     */
+    public static async getAllByMatch(matchId: number): Promise<MatchPlayer[]> {
+        return await sql<MatchPlayer[]>`
+            SELECT p.match_id, p.user_id, u.playername, p.team,
+                p.kills, p.deaths, p.assists, p.headshots
+            FROM match_players p
+            JOIN users u ON u.id = p.user_id
+            WHERE p.match_id = ${matchId}
+            ORDER BY p.team ASC, p.kills DESC, p.deaths ASC;
+        `
+    }
+
+    public match_id: number
+    public user_id: number
+    public playername: string
+    public team: number
+    public kills: number
+    public deaths: number
+    public assists: number
+    public headshots: number
+}
@@ -0,0 +1,68 @@
+import { sql } from 'db'
+
+export type CreateMuteBody = {
+    userId: number
+    issuerId?: number
+    durationMinutes: number
+}
+
+/**
+ * represents an user's chat mute
+ */
+export class Mute {
+    /**
+     * get the mute that lasts the longest of an user
+     * @param userId the user's ID
+     * @returns a promise to the mute if found, null if not muted
+     */
+    public static async getActive(userId: number): Promise<Mute> {
+        const resRows = await sql<Mute>`
+            SELECT * FROM mutes
+            WHERE user_id = ${userId} AND expires_at > now()
+            ORDER BY expires_at DESC
+            LIMIT 1;
+        `
+        return resRows.count !== 0 ? resRows[0] : null
+    }
+
+    /**
+     * mute an user
+     * @param newMute the mute's data
+     * @returns a promise to the created mute
+     */
+    public static async create(newMute: CreateMuteBody): Promise<Mute> {
+        const issuerId = newMute.issuerId != null ? newMute.issuerId : null
+
+        const res = await sql<Mute>`
+            INSERT INTO mutes (user_id, issuer_id, expires_at)
+            VALUES (${newMute.userId}, ${issuerId},
+                now() + ${newMute.durationMinutes}::integer * interval '1 minute')
+            RETURNING *;
+        `
+
+        if (res.count !== 1) {
+            throw new Error('INSERT query did not return a single row')
+        }
+
+        return res[0]
+    }
+
+    /**
+     * lift every active mute of an user
+     * @param userId the user's ID
+     * @returns true if lifted, false if the user wasn't muted
+     */
+    public static async removeActive(userId: number): Promise<boolean> {
+        const res = await sql`
+            DELETE FROM mutes
+            WHERE user_id = ${userId} AND expires_at > now();
+        `
+        return res.count !== 0
+    }
+
+    public id: number
+    public user_id: number
+    public issuer_id: number
+    public created_at: Date
+    public expires_at: Date
+}
@@ -0,0 +1,97 @@
+import { sql } from 'db'
+
+/**
+ * represents an user logged in to the master server
+ */
+export class OnlineSession {
+    /**
+     * get an user's online session
+     * @param userId the user's ID
+     * @returns a promise to the session if the user is online, null if not
+     */
+    public static async getByUser(userId: number): Promise<OnlineSession> {
+        const resRows = await sql<OnlineSession>`
+            SELECT * FROM online_sessions WHERE user_id = ${userId};
+        `
+        return resRows.count !== 0 ? resRows[0] : null
+    }
+
+    /**
+     * count the online users
+     * @returns a promise to the online sessions count
+     */
+    public static async count(): Promise<number> {
+        const resRows = await sql<{ count: string }>`
+            SELECT COUNT(*) FROM online_sessions;
+        `
+        return Number(resRows[0].count)
+    }
+
+    /**
+     * start an user's online session, replacing the one it already had
+     * @param userId the user's ID
+     * @param sessionId the new session's ID
+     * @param ipAddress the address the user logged in from
+     * @returns a promise to the replaced session's ID, null if there was none
+     */
+    public static async start(
+        userId: number,
+        sessionId: string,
+        ipAddress: string
+    ): Promise<string> {
+        const resRows = await sql<{ replaced_session_id: string }>`
+            WITH previous AS (
+                SELECT session_id FROM online_sessions
+                WHERE user_id = ${userId}
+            )
+            INSERT INTO online_sessions (user_id, session_id, ip_address)
+            VALUES (${userId}, ${sessionId}, ${ipAddress})
+            ON CONFLICT (user_id) DO UPDATE SET
+                session_id = EXCLUDED.session_id,
+                ip_address = EXCLUDED.ip_address,
+                started_at = now()
+            RETURNING (SELECT session_id FROM previous)
+                AS replaced_session_id;
+        `
+        return resRows[0].replaced_session_id
+    }
+
+    /**
+     * end an user's online session
+     * @param userId the user's ID
+     * @param sessionId the session's ID, or null to end any session
+     * @returns a promise to true if it was ended, false if the user has
+     * another session or none
+     */
+    public static async end(
+        userId: number,
+        sessionId: string
+    ): Promise<boolean> {
+        const resRows =
+            sessionId != null
+                ? await sql`
+                    DELETE FROM online_sessions
+                    WHERE user_id = ${userId} AND session_id = ${sessionId};
+                `
+                : await sql`
+                    DELETE FROM online_sessions WHERE user_id = ${userId};
+                `
+        return resRows.count === 1
+    }
+
+    /**
+     * end every online session
+     * @returns a promise to the ended sessions count
+     */
+    public static async endAll(): Promise<number> {
+        const resRows = await sql`
+            DELETE FROM online_sessions;
+        `
+        return resRows.count
+    }
+
+    public user_id: number
+    public session_id: string
+    public ip_address: string
+    public started_at: Date
+}
@@ -0,0 +1,143 @@
+import { sql } from 'db'
+
+export type AddPlayStatsBody = {
+    gamemode: number
+    map: number
+    secondsPlayed: number
+    // false if the user left before the match ended
+    playedMatch: boolean
+    won: boolean
+    kills: number
+}
+
+/**
+ * an user's stats in a single gamemode
+ */
+export interface IGamemodeStats {
+    gamemode: number
+    seconds_played: number
+    played_matches: number
+    wins: number
+    kills: number
+}
+
+/**
+ * an user's stats in a single map
+ */
+export interface IMapStats {
+    map: number
+    seconds_played: number
+    played_matches: number
+    wins: number
+    kills: number
+}
+
+/**
+ * the gamemode and the map an user does best in
+ */
+export interface IBestPlayStats {
+    best_gamemode: number
+    best_map: number
+}
+
+/**
+ * represents an user's stats in each gamemode and map
+ */
+export class PlayStats {
+    /**
+     * get an user's stats in every gamemode and map it played
+     * @param userId the user's ID
+     * @returns a promise to the user's stats
+     */
+    public static async getByUser(userId: number): Promise<PlayStats> {
+        const [gamemodes, maps] = await Promise.all([
+            sql<IGamemodeStats[]>`
+                SELECT gamemode, seconds_played, played_matches, wins, kills
+                FROM user_gamemode_stats
+                WHERE user_id = ${userId}
+                ORDER BY gamemode ASC;
+            `,
+            sql<IMapStats[]>`
+                SELECT map, seconds_played, played_matches, wins, kills
+                FROM user_map_stats
+                WHERE user_id = ${userId}
+                ORDER BY map ASC;
+            `
+        ])
+
+        const stats = new PlayStats()
+        stats.user_id = userId
+        stats.gamemodes = gamemodes
+        stats.maps = maps
+        return stats
+    }
+
+    /**
+     * add the time and the results of a match to an user's stats
+     * @param userId the user's ID
+     * @param newStats the match's stats
+     * @returns a promise to the user's best gamemode and map
+     */
+    public static async add(
+        userId: number,
+        newStats: AddPlayStatsBody
+    ): Promise<IBestPlayStats> {
+        const playedMatches = newStats.playedMatch === true ? 1 : 0
+        const wins = newStats.won === true ? 1 : 0
+
+        return await sql.begin(async (tx) => {
+            await tx`
+                INSERT INTO user_gamemode_stats (user_id, gamemode,
+                    seconds_played, played_matches, wins, kills)
+                VALUES (${userId}, ${newStats.gamemode},
+                    ${newStats.secondsPlayed}, ${playedMatches}, ${wins},
+                    ${newStats.kills})
+                ON CONFLICT (user_id, gamemode) DO UPDATE SET
+                    seconds_played = user_gamemode_stats.seconds_played
+                        + EXCLUDED.seconds_played,
+                    played_matches = user_gamemode_stats.played_matches
+                        + EXCLUDED.played_matches,
+                    wins = user_gamemode_stats.wins + EXCLUDED.wins,
+                    kills = user_gamemode_stats.kills + EXCLUDED.kills;
+            `
+            await tx`
+                INSERT INTO user_map_stats (user_id, map,
+                    seconds_played, played_matches, wins, kills)
+                VALUES (${userId}, ${newStats.map},
+                    ${newStats.secondsPlayed}, ${playedMatches}, ${wins},
+                    ${newStats.kills})
+                ON CONFLICT (user_id, map) DO UPDATE SET
+                    seconds_played = user_map_stats.seconds_played
+                        + EXCLUDED.seconds_played,
+                    played_matches = user_map_stats.played_matches
+                        + EXCLUDED.played_matches,
+                    wins = user_map_stats.wins + EXCLUDED.wins,
+                    kills = user_map_stats.kills + EXCLUDED.kills;
+            `
+
+            // the best is where the user won the most,
+            // then where it played the most
+            const bestGamemode = await tx<{ gamemode: number }>`
+                SELECT gamemode FROM user_gamemode_stats
+                WHERE user_id = ${userId}
+                ORDER BY wins DESC, played_matches DESC, seconds_played DESC
+                LIMIT 1;
+            `
+            const bestMap = await tx<{ map: number }>`
+                SELECT map FROM user_map_stats
+                WHERE user_id = ${userId}
+                ORDER BY wins DESC, played_matches DESC, seconds_played DESC
+                LIMIT 1;
+            `
+
+            return {
+                best_gamemode: bestGamemode[0].gamemode,
+                best_map: bestMap[0].map
+            }
+        })
+    }
+
+    public user_id: number
+    public gamemodes: IGamemodeStats[]
+    public maps: IMapStats[]
+}
@@ -9,6 +9,7 @@ export type SetUserBody = {
     password_hash?: string
 
     gm: boolean
+    gmLevel: number
 
     points: number
     cash: number
@@ -44,6 +45,7 @@ export type SetUserBody = {
     clanMark: number
 
     worldRank: number
+    rankedRating: number
 
     titleId: number
     unlockedTitles: number[]
@@ -61,6 +63,31 @@ export type SetUserBody = {
     skillZombiePoints: number
 }
 
+export type UserCurrencies = {
+    points: number
+    cash: number
+    mpoints: number
+}
+
+export type CampaignRewardItem = {
+    itemId: number
+    ammount: number
+}
+
+export type CampaignReward = {
+    points: number
+    items: CampaignRewardItem[]
+    members: CampaignRewardMembers
+}
+
+export type CampaignRewardMembers = {
+    level?: number
+    cur_xp?: number
+    max_xp?: number
+    unlocked_titles?: number[]
+    unlocked_avatars?: number[]
+}
+
 /**
  * represents an user and its data
  */
@@ -130,6 +157,33 @@ export class User {
         }
     }
 
+    /**
+     * retrieve an user's information by its ingame player name
+     * @param playerName the target's ingame player name
+     * @param sanitize should sensitive data be nulled out? defaults to true
+     * @returns the target user if found, null if not
+     */
+    public static async getByPlayerName(
+        playerName: string,
+        sanitize = true
+    ): Promise<User> {
+        const resRows = await sql<
+            User
+        >`SELECT * FROM users WHERE playername = ${playerName};`
+
+        if (resRows.count === 0) {
+            return null
+        } else if (resRows.count === 1) {
+            return sanitize === true
+                ? this.SanitizeForPublic(resRows[0])
+                : resRows[0]
+        } else {
+            throw new Error(
+                'getUserByPlayerName: got more than one row for an user'
+            )
+        }
+    }
+
     /**
      * is an user's name or ingame player name already taken?
      * @param userName the target's user name
@@ -175,6 +229,88 @@ export class User {
         return true
     }
 
+    /**
+     * add amounts to an user's currencies in a single query
+     * negative amounts are charged, but never below zero
+     * @param userId the target user's ID
+     * @param amounts the amount to add to each currency
+     * @returns the new currencies if successful,
+     * null if the user does not exist or can't afford the charge
+     */
+    public static async addCurrencies(
+        userId: number,
+        amounts: UserCurrencies
+    ): Promise<UserCurrencies> {
+        const resRows = await sql<UserCurrencies>`
+            UPDATE users
+            SET points = points + ${amounts.points},
+                cash = cash + ${amounts.cash},
+                mpoints = mpoints + ${amounts.mpoints}
+            WHERE id = ${userId}
+                AND points + ${amounts.points} >= 0
+                AND cash + ${amounts.cash} >= 0
+                AND mpoints + ${amounts.mpoints} >= 0
+            RETURNING points, cash, mpoints;
+        `
+        return resRows.count !== 0 ? resRows[0] : null
+    }
+
+    /**
+     * set an user's finished campaign flag and give it the campaign's rewards
+     * in a single transaction, unless the user already finished the campaign
+     * @param userId the target user's ID
+     * @param campaignId the finished campaign's flag
+     * @param reward the points, items and user members to give
+     * @returns the new currencies if successful,
+     * null if the user does not exist or already finished the campaign
+     */
+    public static async finishCampaign(
+        userId: number,
+        campaignId: number,
+        reward: CampaignReward
+    ): Promise<UserCurrencies> {
+        return await sql.begin(async (tx) => {
+            // only the first request sets the flag, the others get no rows
+            const resRows = await tx<UserCurrencies>`
+                UPDATE users
+                SET campaign_flags = campaign_flags | ${campaignId},
+                    points = points + ${reward.points}
+                WHERE id = ${userId}
+                    AND campaign_flags & ${campaignId} = 0
+                RETURNING points, cash, mpoints;
+            `
+
+            if (resRows.count === 0) {
+                return null
+            }
+
+            const memberKeys = SetupSetParams(reward.members)
+
+            if (memberKeys.length !== 0) {
+                await tx`
+                    UPDATE users
+                    SET ${tx(reward.members, ...memberKeys)}
+                    WHERE id = ${userId};
+                `
+            }
+
+            for (const item of reward.items) {
+                const invRows = await tx`
+                    UPDATE inventories
+                    SET items = items || (${item.itemId}, ${item.ammount})::InventoryItem
+                    WHERE owner_id = ${userId};
+                `
+
+                // throwing rolls back the flag and the points
+                if (invRows.count === 0) {
+                    throw new Error(`user ${userId} has no inventory`)
+                }
+            }
+
+            return resRows[0]
+        })
+    }
+
     /**
      * create a new user in the db
      * @param userName the new user's name
@@ -300,6 +436,7 @@ export class User {
     public security_answer_hash: string
 
     public gm: boolean
+    public gm_level: number
 
     public points: number
     public cash: number
@@ -332,6 +469,8 @@ export class User {
     public unlocked_titles: number[]
     public signature: string
 
+    public unreaded_message: number
+
     public unlocked_achievements: number[]
 
     public campaign_flags: number
@@ -342,6 +481,7 @@ export class User {
     public clan_mark: number
 
     public world_rank: number
+    public ranked_rating: number
 
     public best_gamemode: number
     public best_map: number
@@ -0,0 +1,51 @@
+import { sql } from 'db'
+
+export type AddWeaponKillsBody = {
+    weaponId: number
+    kills: number
+}
+
+/**
+ * represents the kills an user made with a weapon
+ */
+export class WeaponKills {
+    /**
+     * get an user's kills with each weapon
+     * @param userId the user's ID
+     * @returns a promise to the user's kills with each weapon it used
+     */
+    public static async getByUser(userId: number): Promise<WeaponKills[]> {
+        return await sql<WeaponKills[]>`
+            SELECT weapon_id, kills FROM user_weapon_kills
+            WHERE user_id = ${userId}
+            ORDER BY weapon_id ASC;
+        `
+    }
+
+    /**
+     * add kills to an user's weapons
+     * @param userId the user's ID
+     * @param newKills the kills made with each weapon
+     * @returns a promise to the user's updated kills with each weapon
+     */
+    public static async add(
+        userId: number,
+        newKills: AddWeaponKillsBody[]
+    ): Promise<WeaponKills[]> {
+        await sql.begin(async (tx) => {
+            for (const weapon of newKills) {
+                await tx`
+                    INSERT INTO user_weapon_kills (user_id, weapon_id, kills)
+                    VALUES (${userId}, ${weapon.weaponId}, ${weapon.kills})
+                    ON CONFLICT (user_id, weapon_id) DO UPDATE SET
+                        kills = user_weapon_kills.kills + EXCLUDED.kills;
+                `
+            }
+        })
+
+        return await WeaponKills.getByUser(userId)
+    }
+
+    public weapon_id: number
+    public kills: number
+}
@@ -0,0 +1,134 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import {
+    AchievementProgress,
+    AddAchievementProgressBody,
+    MAX_ACHIEVEMENT_ID
+} from 'entities/achievementprogress'
+import { User } from 'entities/user'
+
+/**
+ * handles requests to /achievements
+ */
+export class AchievementsRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/achievements/:userId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await AchievementsRoute.onGetAchievements(req, res)
+            )
+            .post(
+                async (req: express.Request, res: express.Response) =>
+                    await AchievementsRoute.onPostAchievements(req, res)
+            )
+    }
+
+    /**
+     * called when a GET request to /achievements/:userId is done
+     * returns an user's progress towards every achievement it has worked on
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetAchievements(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /achievements/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const progress: AchievementProgress[] = await AchievementProgress.getByUser(
+                reqUserId
+            )
+            return res.status(200).json(progress).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /achievements/:userId is done
+     * adds progress to an user's achievements
+     * returns 200 with the updated progress of those achievements if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostAchievements(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const achievements = (req.body as {
+            achievements: AddAchievementProgressBody[]
+        }).achievements
+
+        LogInstance.debug(`POST request to /achievements/${reqUserId}`)
+
+        if (
+            isNaN(reqUserId) ||
+            Array.isArray(achievements) === false ||
+            achievements.length === 0
+        ) {
+            return res.status(400).end()
+        }
+
+        const newProgress: AddAchievementProgressBody[] = []
+
+        for (const achievement of achievements) {
+            const achievementId = Number(achievement.achievementId)
+            const amount = Number(achievement.amount)
+
+            if (
+                isNaN(achievementId) ||
+                isNaN(amount) ||
+                Math.floor(achievementId) !== achievementId ||
+                achievementId < 0 ||
+                achievementId > MAX_ACHIEVEMENT_ID ||
+                Math.floor(amount) !== amount ||
+                amount < 1
+            ) {
+                return res.status(400).end()
+            }
+
+            newProgress.push({ achievementId, amount })
+        }
+
+        try {
+            const progress: AchievementProgress[] = await AchievementProgress.add(
+                reqUserId,
+                newProgress
+            )
+            return res.status(200).json(progress).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the user doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
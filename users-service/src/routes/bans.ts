@@ -0,0 +1,239 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { Ban, CreateBanBody } from 'entities/ban'
+import { User } from 'entities/user'
+
+/**
+ * handles requests to /bans
+ */
+export class BansRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/bans').post(
+            async (req: express.Request, res: express.Response) =>
+                await BansRoute.onPostBan(req, res)
+        )
+        app.route('/bans/active').get(
+            async (req: express.Request, res: express.Response) =>
+                await BansRoute.onGetActiveBan(req, res)
+        )
+        app.route('/bans/byuser/:userId').get(
+            async (req: express.Request, res: express.Response) =>
+                await BansRoute.onGetUserBans(req, res)
+        )
+        app.route('/bans/:banId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await BansRoute.onGetBan(req, res)
+            )
+            .delete(
+                async (req: express.Request, res: express.Response) =>
+                    await BansRoute.onDeleteBan(req, res)
+            )
+    }
+
+    /**
+     * called when a POST request to /bans is done
+     * bans an account, an IP address or both
+     * returns 201 if banned successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the banned user or the issuer don't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostBan(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const body = req.body as CreateBanBody
+
+        LogInstance.debug('POST request to /bans')
+
+        if (
+            (body.userId == null && body.ipAddress == null) ||
+            (body.userId != null && isNaN(Number(body.userId))) ||
+            (body.issuerId != null && isNaN(Number(body.issuerId))) ||
+            (body.durationMinutes != null &&
+                (isNaN(Number(body.durationMinutes)) ||
+                    Number(body.durationMinutes) <= 0))
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const newBan: Ban = await Ban.create({
+                userId: body.userId != null ? Number(body.userId) : null,
+                ipAddress: body.ipAddress,
+                reason: body.reason,
+                issuerId: body.issuerId != null ? Number(body.issuerId) : null,
+                durationMinutes:
+                    body.durationMinutes != null
+                        ? Number(body.durationMinutes)
+                        : null
+            })
+            return res.status(201).json(newBan).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the user or the issuer don't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /bans/active is done
+     * returns the ban that lasts the longest of an account or an IP address
+     * returns 200 if banned
+     * returns 400 if the request is malformed
+     * returns 404 if neither the account nor the IP address are banned
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetActiveBan(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        type getActiveBanQuery = {
+            userId: string
+            ipAddress: string
+        }
+
+        const query = req.query as getActiveBanQuery
+
+        LogInstance.debug('GET request to /bans/active')
+
+        const reqUserId = query.userId != null ? Number(query.userId) : null
+        const reqIpAddress = query.ipAddress != null ? query.ipAddress : null
+
+        if (
+            (reqUserId == null && reqIpAddress == null) ||
+            (reqUserId != null && isNaN(reqUserId))
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const ban: Ban = await Ban.getActive(reqUserId, reqIpAddress)
+
+            if (ban != null) {
+                return res.status(200).json(ban).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /bans/byuser/:userId is done
+     * returns every ban given to an user's account
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetUserBans(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /bans/byuser/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const bans: Ban[] = await Ban.getAllByUser(reqUserId)
+            return res.status(200).json(bans).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /bans/:banId is done
+     * returns a ban's information
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the ban doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetBan(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqBanId = Number(req.params.banId)
+
+        LogInstance.debug(`GET request to /bans/${reqBanId}`)
+
+        if (isNaN(reqBanId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const ban: Ban = await Ban.getById(reqBanId)
+
+            if (ban != null) {
+                return res.status(200).json(ban).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a DELETE request to /bans/:banId is done
+     * lifts a ban
+     * returns 200 if lifted successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the ban doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onDeleteBan(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqBanId = Number(req.params.banId)
+
+        LogInstance.debug(`DELETE request to /bans/${reqBanId}`)
+
+        if (isNaN(reqBanId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const wasDeleted = await Ban.remove(reqBanId)
+            return res.status(wasDeleted ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
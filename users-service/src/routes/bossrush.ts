@@ -0,0 +1,128 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import {
+    AddBossRushResultBody,
+    BossRushProgress
+} from 'entities/bossrushprogress'
+import { User } from 'entities/user'
+
+/**
+ * handles requests to /bossrush
+ */
+export class BossRushRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/bossrush/:userId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await BossRushRoute.onGetBossRush(req, res)
+            )
+            .post(
+                async (req: express.Request, res: express.Response) =>
+                    await BossRushRoute.onPostBossRush(req, res)
+            )
+    }
+
+    /**
+     * called when a GET request to /bossrush/:userId is done
+     * returns an user's progress in every boss rush stage it played
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetBossRush(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /bossrush/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const progress: BossRushProgress[] = await BossRushProgress.getByUser(
+                reqUserId
+            )
+            return res.status(200).json(progress).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /bossrush/:userId is done
+     * adds a boss rush match's result to an user's progress
+     * returns 200 with the user's updated progress in the stage if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostBossRush(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const body = req.body as AddBossRushResultBody
+
+        LogInstance.debug(`POST request to /bossrush/${reqUserId}`)
+
+        const result: AddBossRushResultBody = {
+            gamemode: Number(body.gamemode),
+            wave: Number(body.wave),
+            clearTime: body.clearTime != null ? Number(body.clearTime) : 0,
+            bossesDefeated:
+                body.bossesDefeated != null ? Number(body.bossesDefeated) : 0
+        }
+
+        if (
+            isNaN(reqUserId) ||
+            isNaN(result.gamemode) ||
+            isNaN(result.wave) ||
+            isNaN(result.clearTime) ||
+            isNaN(result.bossesDefeated) ||
+            Math.floor(result.gamemode) !== result.gamemode ||
+            Math.floor(result.wave) !== result.wave ||
+            Math.floor(result.clearTime) !== result.clearTime ||
+            Math.floor(result.bossesDefeated) !== result.bossesDefeated ||
+            result.gamemode < 0 ||
+            result.wave < 0 ||
+            result.clearTime < 0 ||
+            result.bossesDefeated < 0
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const progress: BossRushProgress = await BossRushProgress.add(
+                reqUserId,
+                result
+            )
+            return res.status(200).json(progress).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the user doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
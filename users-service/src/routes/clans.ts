@@ -0,0 +1,641 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { Clan, CLAN_MAX_MARK } from 'entities/clan'
+import { ClanMember, ClanRole } from 'entities/clanmember'
+
+type NewClanBody = {
+    name: string
+    ownerId: string
+    mark?: string
+}
+
+type ClanActionBody = {
+    userId: string
+    targetId?: string
+    role?: string
+    mark?: string
+}
+
+/**
+ * handles requests to /clans
+ */
+export class ClansRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/clans').post(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPostClan(req, res)
+        )
+        app.route('/clans/byuser/:userId').get(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onGetClanByUser(req, res)
+        )
+        app.route('/clans/:clanId').get(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onGetClan(req, res)
+        )
+        app.route('/clans/:clanId/members').get(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onGetClanMembers(req, res)
+        )
+        app.route('/clans/:clanId/invite').post(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPostInvite(req, res)
+        )
+        app.route('/clans/:clanId/join').post(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPostJoin(req, res)
+        )
+        app.route('/clans/:clanId/leave').post(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPostLeave(req, res)
+        )
+        app.route('/clans/:clanId/kick').post(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPostKick(req, res)
+        )
+        app.route('/clans/:clanId/role').put(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPutRole(req, res)
+        )
+        app.route('/clans/:clanId/mark').put(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPutMark(req, res)
+        )
+        app.route('/clans/:clanId/disband').post(
+            async (req: express.Request, res: express.Response) =>
+                await ClansRoute.onPostDisband(req, res)
+        )
+    }
+
+    /**
+     * checks if a mark can be used by a clan
+     * @param mark the mark to check
+     * @returns true if valid, false if not
+     */
+    private static isValidMark(mark: number): boolean {
+        return Math.floor(mark) === mark && mark >= 0 && mark <= CLAN_MAX_MARK
+    }
+
+    /**
+     * gets the clan and acting user IDs from a clan action request
+     * @param req the request data
+     * @returns the clan and user IDs, or null if they're invalid
+     */
+    private static getActionIds(req: express.Request): [number, number] {
+        const body = req.body as ClanActionBody
+
+        const reqClanId = Number(req.params.clanId)
+        const reqUserId = Number(body.userId)
+
+        if (isNaN(reqClanId) || isNaN(reqUserId) || body.userId == null) {
+            return null
+        }
+
+        return [reqClanId, reqUserId]
+    }
+
+    /**
+     * gets the target user's ID from a clan action request
+     * @param req the request data
+     * @param actorId the acting user's ID
+     * @returns the target's user ID, or null if it's invalid
+     */
+    private static getTargetId(req: express.Request, actorId: number): number {
+        const body = req.body as ClanActionBody
+        const reqTargetId = Number(body.targetId)
+
+        if (
+            body.targetId == null ||
+            isNaN(reqTargetId) ||
+            reqTargetId === actorId
+        ) {
+            return null
+        }
+
+        return reqTargetId
+    }
+
+    /**
+     * gets an user's membership in a specific clan
+     * @param clanId the clan's ID
+     * @param userId the user's ID
+     * @returns the membership if the user is in the clan, null if not
+     */
+    private static async getMemberOf(
+        clanId: number,
+        userId: number
+    ): Promise<ClanMember> {
+        const member = await ClanMember.getByUser(userId)
+
+        if (member == null || member.clan_id !== clanId) {
+            return null
+        }
+
+        return member
+    }
+
+    /**
+     * called when a POST request to /clans is done
+     * creates a new clan, its creator becomes the clan master
+     * returns 201 if created successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the creator doesn't exist
+     * returns 409 if the name is already taken or the creator is already in a clan
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostClan(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const body = req.body as NewClanBody
+
+        const reqOwnerId = Number(body.ownerId)
+        const reqMark = body.mark != null ? Number(body.mark) : 0
+
+        LogInstance.debug('POST request to /clans')
+
+        if (
+            typeof body.name !== 'string' ||
+            body.name.length === 0 ||
+            body.ownerId == null ||
+            isNaN(reqOwnerId) ||
+            ClansRoute.isValidMark(reqMark) === false
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const newClan = await Clan.create(body.name, reqOwnerId, reqMark)
+            return res.status(201).json(newClan).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // unique violation, the name is taken or the owner has a clan
+                if (postgresErr.code === '23505') {
+                    return res.status(409).end()
+                }
+                // foreign key violation, the owner doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /clans/byuser/:userId is done
+     * returns the clan an user is in
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user isn't in a clan
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetClanByUser(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /clans/byuser/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const clan = await Clan.getByMember(reqUserId)
+
+            if (clan != null) {
+                return res.status(200).json(clan).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /clans/:clanId is done
+     * returns a clan's information
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the clan doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetClan(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqClanId = Number(req.params.clanId)
+
+        LogInstance.debug(`GET request to /clans/${reqClanId}`)
+
+        if (isNaN(reqClanId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const clan = await Clan.getById(reqClanId)
+
+            if (clan != null) {
+                return res.status(200).json(clan).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /clans/:clanId/members is done
+     * returns a clan's members
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the clan doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetClanMembers(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqClanId = Number(req.params.clanId)
+
+        LogInstance.debug(`GET request to /clans/${reqClanId}/members`)
+
+        if (isNaN(reqClanId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await Clan.getById(reqClanId)) == null) {
+                return res.status(404).end()
+            }
+
+            const members = await ClanMember.getAllByClan(reqClanId)
+            return res.status(200).json(members).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /clans/:clanId/invite is done
+     * invites an user to the clan, only officers and the master can invite
+     * returns 200 if invited successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user isn't allowed to invite
+     * returns 404 if the invited user doesn't exist
+     * returns 409 if the invited user is already in a clan or was already invited
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostInvite(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+        const reqTargetId = ClansRoute.getTargetId(req, reqUserId)
+
+        LogInstance.debug(`POST request to /clans/${reqClanId}/invite`)
+
+        if (reqTargetId == null) {
+            return res.status(400).end()
+        }
+
+        try {
+            const actor = await ClansRoute.getMemberOf(reqClanId, reqUserId)
+
+            if (actor == null || actor.role < ClanRole.Officer) {
+                return res.status(403).end()
+            }
+
+            if ((await ClanMember.getByUser(reqTargetId)) != null) {
+                return res.status(409).end()
+            }
+
+            await Clan.invite(reqClanId, reqTargetId)
+            return res.status(200).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // unique violation, the user was already invited
+                if (postgresErr.code === '23505') {
+                    return res.status(409).end()
+                }
+                // foreign key violation, the invited user doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /clans/:clanId/join is done
+     * makes an user join a clan it was invited to
+     * returns 200 if joined successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user wasn't invited to the clan
+     * returns 409 if the user is already in a clan
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostJoin(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+
+        LogInstance.debug(`POST request to /clans/${reqClanId}/join`)
+
+        try {
+            if ((await ClanMember.getByUser(reqUserId)) != null) {
+                return res.status(409).end()
+            }
+
+            const joined = await Clan.join(reqClanId, reqUserId)
+            return res.status(joined ? 200 : 403).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // unique violation, the user joined another clan meanwhile
+                if (postgresErr.code === '23505') {
+                    return res.status(409).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /clans/:clanId/leave is done
+     * makes an user leave its clan, the clan master must disband the clan
+     * or give away its role before leaving
+     * returns 200 if left successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user is the clan master
+     * returns 404 if the user isn't in the clan
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostLeave(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+
+        LogInstance.debug(`POST request to /clans/${reqClanId}/leave`)
+
+        try {
+            const member = await ClansRoute.getMemberOf(reqClanId, reqUserId)
+
+            if (member == null) {
+                return res.status(404).end()
+            }
+
+            if (member.role === ClanRole.Master) {
+                return res.status(403).end()
+            }
+
+            const left = await Clan.removeMember(reqClanId, reqUserId)
+            return res.status(left ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /clans/:clanId/kick is done
+     * removes a member from the clan, members can only be kicked
+     * by someone with a higher role
+     * returns 200 if kicked successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user isn't allowed to kick the member
+     * returns 404 if the kicked user isn't in the clan
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostKick(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+        const reqTargetId = ClansRoute.getTargetId(req, reqUserId)
+
+        LogInstance.debug(`POST request to /clans/${reqClanId}/kick`)
+
+        if (reqTargetId == null) {
+            return res.status(400).end()
+        }
+
+        try {
+            const actor = await ClansRoute.getMemberOf(reqClanId, reqUserId)
+
+            if (actor == null || actor.role < ClanRole.Officer) {
+                return res.status(403).end()
+            }
+
+            const target = await ClansRoute.getMemberOf(reqClanId, reqTargetId)
+
+            if (target == null) {
+                return res.status(404).end()
+            }
+
+            if (target.role >= actor.role) {
+                return res.status(403).end()
+            }
+
+            const kicked = await Clan.removeMember(reqClanId, reqTargetId)
+            return res.status(kicked ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a PUT request to /clans/:clanId/role is done
+     * changes a member's role, only the clan master can do it
+     * giving away the master role makes the old master an officer
+     * returns 200 if changed successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user isn't the clan master
+     * returns 404 if the target user isn't in the clan
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPutRole(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+        const reqTargetId = ClansRoute.getTargetId(req, reqUserId)
+        const reqRole = Number((req.body as ClanActionBody).role)
+
+        LogInstance.debug(`PUT request to /clans/${reqClanId}/role`)
+
+        if (reqTargetId == null || ClanMember.isValidRole(reqRole) === false) {
+            return res.status(400).end()
+        }
+
+        try {
+            const actor = await ClansRoute.getMemberOf(reqClanId, reqUserId)
+
+            if (actor == null || actor.role !== ClanRole.Master) {
+                return res.status(403).end()
+            }
+
+            const changed = await Clan.setRole(
+                reqClanId,
+                reqUserId,
+                reqTargetId,
+                reqRole
+            )
+            return res.status(changed ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a PUT request to /clans/:clanId/mark is done
+     * changes the clan's mark, only the clan master can do it
+     * returns 200 if changed successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user isn't the clan master
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPutMark(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+        const body = req.body as ClanActionBody
+
+        if (ids == null || body.mark == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+        const reqMark = Number(body.mark)
+
+        LogInstance.debug(`PUT request to /clans/${reqClanId}/mark`)
+
+        if (ClansRoute.isValidMark(reqMark) === false) {
+            return res.status(400).end()
+        }
+
+        try {
+            const actor = await ClansRoute.getMemberOf(reqClanId, reqUserId)
+
+            if (actor == null || actor.role !== ClanRole.Master) {
+                return res.status(403).end()
+            }
+
+            await Clan.setMark(reqClanId, reqMark)
+            return res.status(200).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /clans/:clanId/disband is done
+     * disbands the clan, only the clan master can do it
+     * returns 200 if disbanded successfully
+     * returns 400 if the request is malformed
+     * returns 403 if the user isn't the clan master
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostDisband(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = ClansRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqClanId, reqUserId] = ids
+
+        LogInstance.debug(`POST request to /clans/${reqClanId}/disband`)
+
+        try {
+            const actor = await ClansRoute.getMemberOf(reqClanId, reqUserId)
+
+            if (actor == null || actor.role !== ClanRole.Master) {
+                return res.status(403).end()
+            }
+
+            await Clan.disband(reqClanId)
+            return res.status(200).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
@@ -0,0 +1,330 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { Friend, FriendRequestResult } from 'entities/friend'
+import { User } from 'entities/user'
+
+type FriendActionBody = {
+    friendId: string
+}
+
+/**
+ * handles requests to /friends/:userId
+ */
+export class FriendsRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/friends/:userId').get(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onGetFriends(req, res)
+        )
+        app.route('/friends/:userId/request').post(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onPostRequest(req, res)
+        )
+        app.route('/friends/:userId/accept').post(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onPostAccept(req, res)
+        )
+        app.route('/friends/:userId/decline').post(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onPostDecline(req, res)
+        )
+        app.route('/friends/:userId/remove').post(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onPostRemove(req, res)
+        )
+        app.route('/friends/:userId/block').post(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onPostBlock(req, res)
+        )
+        app.route('/friends/:userId/unblock').post(
+            async (req: express.Request, res: express.Response) =>
+                await FriendsRoute.onPostUnblock(req, res)
+        )
+    }
+
+    /**
+     * gets the user and friend IDs from a friend action request
+     * @param req the request data
+     * @returns the user and friend IDs, or null if they're invalid
+     */
+    private static getActionIds(req: express.Request): [number, number] {
+        const body = req.body as FriendActionBody
+
+        const reqUserId = Number(req.params.userId)
+        const reqFriendId = Number(body.friendId)
+
+        if (
+            isNaN(reqUserId) ||
+            isNaN(reqFriendId) ||
+            body.friendId == null ||
+            reqUserId === reqFriendId
+        ) {
+            return null
+        }
+
+        return [reqUserId, reqFriendId]
+    }
+
+    /**
+     * called when a GET request to /friends/:userId is done
+     * returns an user's friends, blocked users and friend requests
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetFriends(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /friends/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const friends: Friend[] = await Friend.getAllByUser(reqUserId)
+            return res.status(200).json(friends).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /friends/:userId/request is done
+     * sends a friend request to another user
+     * returns 200 if the other user had already sent a request and both are now friends
+     * returns 201 if the request was sent
+     * returns 400 if the request is malformed
+     * returns 403 if one of the users blocked the other
+     * returns 404 if one of the users doesn't exist
+     * returns 409 if the users are already friends or the request was already sent
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostRequest(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = FriendsRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqUserId, reqFriendId] = ids
+
+        LogInstance.debug(`POST request to /friends/${reqUserId}/request`)
+
+        try {
+            const result = await Friend.request(reqUserId, reqFriendId)
+
+            switch (result) {
+                case FriendRequestResult.Sent:
+                    return res.status(201).end()
+                case FriendRequestResult.Accepted:
+                    return res.status(200).end()
+                case FriendRequestResult.AlreadyExists:
+                    return res.status(409).end()
+                case FriendRequestResult.Blocked:
+                    return res.status(403).end()
+            }
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, one of the users doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /friends/:userId/accept is done
+     * accepts another user's friend request
+     * returns 200 if accepted successfully
+     * returns 400 if the request is malformed
+     * returns 404 if there isn't a pending friend request
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostAccept(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = FriendsRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqUserId, reqFriendId] = ids
+
+        LogInstance.debug(`POST request to /friends/${reqUserId}/accept`)
+
+        try {
+            const accepted = await Friend.accept(reqUserId, reqFriendId)
+            return res.status(accepted ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /friends/:userId/decline is done
+     * declines another user's friend request
+     * returns 200 if declined successfully
+     * returns 400 if the request is malformed
+     * returns 404 if there isn't a pending friend request
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostDecline(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = FriendsRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqUserId, reqFriendId] = ids
+
+        LogInstance.debug(`POST request to /friends/${reqUserId}/decline`)
+
+        try {
+            const declined = await Friend.decline(reqUserId, reqFriendId)
+            return res.status(declined ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /friends/:userId/remove is done
+     * removes a friend or cancels a sent friend request
+     * returns 200 if removed successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the users aren't friends
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostRemove(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = FriendsRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqUserId, reqFriendId] = ids
+
+        LogInstance.debug(`POST request to /friends/${reqUserId}/remove`)
+
+        try {
+            const removed = await Friend.remove(reqUserId, reqFriendId)
+            return res.status(removed ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /friends/:userId/block is done
+     * blocks another user, removing any friendship between them
+     * returns 200 if blocked successfully
+     * returns 400 if the request is malformed
+     * returns 404 if one of the users doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostBlock(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = FriendsRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqUserId, reqFriendId] = ids
+
+        LogInstance.debug(`POST request to /friends/${reqUserId}/block`)
+
+        try {
+            await Friend.block(reqUserId, reqFriendId)
+            return res.status(200).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, one of the users doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /friends/:userId/unblock is done
+     * unblocks an user
+     * returns 200 if unblocked successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the user wasn't blocked
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostUnblock(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const ids = FriendsRoute.getActionIds(req)
+
+        if (ids == null) {
+            return res.status(400).end()
+        }
+
+        const [reqUserId, reqFriendId] = ids
+
+        LogInstance.debug(`POST request to /friends/${reqUserId}/unblock`)
+
+        try {
+            const unblocked = await Friend.unblock(reqUserId, reqFriendId)
+            return res.status(unblocked ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
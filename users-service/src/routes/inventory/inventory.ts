@@ -4,6 +4,7 @@ import { ToPostgresError } from 'db'
 import { LogInstance } from 'log/loginstance'
 
 import { Inventory } from 'entities/inventory/inventory'
+import { UserCurrencies } from 'entities/user'
 
 /**
  * handles requests to /inventory/:userId
@@ -27,6 +28,11 @@ export class InventoryRoute {
             .delete((req: express.Request, res: express.Response) =>
                 InventoryRoute.onDeleteInventoryItem(req, res)
             )
+        app.route(
+            '/inventory/:userId/unlock'
+        ).post((req: express.Request, res: express.Response) =>
+            InventoryRoute.onPostInventoryUnlock(req, res)
+        )
     }
 
     /**
@@ -191,6 +197,75 @@ export class InventoryRoute {
         }
     }
 
+    /**
+     * called when a POST request to /inventory/:userId/unlock is done
+     * charges an user for an item and adds it to its inventory at once
+     * returns 200 with the user's new currencies if unlocked successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 409 if the user already owns the item or can't afford it
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostInventoryUnlock(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        type postUnlockBody = {
+            itemId: number
+            points?: number
+            cash?: number
+            mpoints?: number
+        }
+
+        const body = req.body as postUnlockBody
+
+        const reqUserId = Number(req.params.userId)
+        const reqItemId = Number(body.itemId)
+        const price: UserCurrencies = {
+            points: body.points != null ? Number(body.points) : 0,
+            cash: body.cash != null ? Number(body.cash) : 0,
+            mpoints: body.mpoints != null ? Number(body.mpoints) : 0
+        }
+
+        LogInstance.debug(`POST request to /inventory/${reqUserId}/unlock`)
+
+        if (
+            isNaN(reqUserId) ||
+            isNaN(reqItemId) ||
+            isNaN(price.points) ||
+            isNaN(price.cash) ||
+            isNaN(price.mpoints) ||
+            price.points < 0 ||
+            price.cash < 0 ||
+            price.mpoints < 0
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const currencies: UserCurrencies = await Inventory.unlockItem(
+                reqItemId,
+                price,
+                reqUserId
+            )
+
+            if (currencies != null) {
+                return res.status(200).json(currencies).end()
+            }
+
+            if ((await Inventory.doesExist(reqUserId)) === false) {
+                return res.status(404).end()
+            }
+
+            return res.status(409).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
     /**
      * called when a DELETE request to /inventory/:userId/item is done
      * deletes an item from an user's invetory
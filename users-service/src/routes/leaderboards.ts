@@ -0,0 +1,83 @@
+import express from 'express'
+
+import { LogInstance } from 'log/loginstance'
+
+import { LeaderboardEntry } from 'entities/leaderboardentry'
+
+const DEFAULT_LEADERBOARD_LENGTH = 20
+const MAX_LEADERBOARD_LENGTH = 100
+
+/**
+ * handles requests to /leaderboards
+ */
+export class LeaderboardsRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/leaderboards/:category').get(
+            async (req: express.Request, res: express.Response) =>
+                await LeaderboardsRoute.onGetLeaderboard(req, res)
+        )
+    }
+
+    /**
+     * called when a GET request to /leaderboards/:category is done
+     * returns a page of a leaderboard, best players first
+     * the categories are kills, kdratio, wins, winrate, hsrate and level
+     * returns 200 if successful
+     * returns 400 if the request is malformed or the category doesn't exist
+     * returns 413 if the requested page is too large
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetLeaderboard(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        type getLeaderboardQuery = {
+            offset: string
+            length: string
+            minMatches: string
+        }
+
+        const query = req.query as getLeaderboardQuery
+        const category: string = req.params.category
+
+        LogInstance.debug(`GET request to /leaderboards/${category}`)
+
+        const colOffset = query.offset != null ? Number(query.offset) : 0
+        const colLength =
+            query.length != null
+                ? Number(query.length)
+                : DEFAULT_LEADERBOARD_LENGTH
+        const minMatches =
+            query.minMatches != null ? Number(query.minMatches) : 0
+
+        if (
+            LeaderboardEntry.isValidCategory(category) === false ||
+            isNaN(colOffset) ||
+            isNaN(colLength) ||
+            isNaN(minMatches) ||
+            colOffset < 0 ||
+            colLength < 0
+        ) {
+            return res.status(400).end()
+        }
+
+        if (colLength > MAX_LEADERBOARD_LENGTH) {
+            return res.status(413).end()
+        }
+
+        try {
+            const entries: LeaderboardEntry[] = await LeaderboardEntry.getPage(
+                category,
+                minMatches,
+                colOffset,
+                colLength
+            )
+            return res.status(200).json(entries).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
@@ -0,0 +1,272 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { Mail, SendMailBody } from 'entities/mail'
+import { User } from 'entities/user'
+
+/**
+ * handles requests to /mailbox/:userId
+ */
+export class MailboxRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/mailbox/:userId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await MailboxRoute.onGetMailbox(req, res)
+            )
+            .post(
+                async (req: express.Request, res: express.Response) =>
+                    await MailboxRoute.onPostMail(req, res)
+            )
+        app.route('/mailbox/:userId/:mailId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await MailboxRoute.onGetMail(req, res)
+            )
+            .delete(
+                async (req: express.Request, res: express.Response) =>
+                    await MailboxRoute.onDeleteMail(req, res)
+            )
+        app.route('/mailbox/:userId/:mailId/read').put(
+            async (req: express.Request, res: express.Response) =>
+                await MailboxRoute.onPutMailRead(req, res)
+        )
+        app.route('/mailbox/:userId/:mailId/claim').post(
+            async (req: express.Request, res: express.Response) =>
+                await MailboxRoute.onPostClaimItem(req, res)
+        )
+    }
+
+    /**
+     * called when a GET request to /mailbox/:userId is done
+     * returns every mail in an user's mailbox
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetMailbox(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /mailbox/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const mails: Mail[] = await Mail.getAllByOwner(reqUserId)
+            return res.status(200).json(mails).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /mailbox/:userId is done
+     * sends a mail to an user
+     * returns 201 if sent successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the receiver or the sender don't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostMail(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const body = req.body as SendMailBody
+
+        LogInstance.debug(`POST request to /mailbox/${reqUserId}`)
+
+        if (
+            isNaN(reqUserId) ||
+            body.senderName == null ||
+            body.message == null ||
+            (body.senderId != null && isNaN(Number(body.senderId))) ||
+            (body.itemId != null && isNaN(Number(body.itemId))) ||
+            (body.ammount != null && isNaN(Number(body.ammount)))
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const newMail: Mail = await Mail.send(reqUserId, {
+                senderId: body.senderId != null ? Number(body.senderId) : null,
+                senderName: body.senderName,
+                message: body.message,
+                itemId: body.itemId != null ? Number(body.itemId) : null,
+                ammount: body.ammount != null ? Number(body.ammount) : null
+            })
+            return res.status(201).json(newMail).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the receiver or sender don't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /mailbox/:userId/:mailId is done
+     * returns a mail from an user's mailbox
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the mail doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetMail(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const reqMailId = Number(req.params.mailId)
+
+        LogInstance.debug(`GET request to /mailbox/${reqUserId}/${reqMailId}`)
+
+        if (isNaN(reqUserId) || isNaN(reqMailId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const mail: Mail = await Mail.getById(reqMailId, reqUserId)
+
+            if (mail != null) {
+                return res.status(200).json(mail).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a PUT request to /mailbox/:userId/:mailId/read is done
+     * marks a mail as read
+     * returns 200 if marked successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the mail doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPutMailRead(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const reqMailId = Number(req.params.mailId)
+
+        LogInstance.debug(
+            `PUT request to /mailbox/${reqUserId}/${reqMailId}/read`
+        )
+
+        if (isNaN(reqUserId) || isNaN(reqMailId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const wasMarked = await Mail.markRead(reqMailId, reqUserId)
+            return res.status(wasMarked ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /mailbox/:userId/:mailId/claim is done
+     * moves a mail's attached item to the owner's inventory
+     * returns 200 if claimed successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the mail doesn't exist or has no item attached
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostClaimItem(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const reqMailId = Number(req.params.mailId)
+
+        LogInstance.debug(
+            `POST request to /mailbox/${reqUserId}/${reqMailId}/claim`
+        )
+
+        if (isNaN(reqUserId) || isNaN(reqMailId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const claimed: Mail = await Mail.claimItem(reqMailId, reqUserId)
+
+            if (claimed != null) {
+                return res.status(200).json(claimed).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a DELETE request to /mailbox/:userId/:mailId is done
+     * deletes a mail from an user's mailbox
+     * returns 200 if deleted successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the mail doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onDeleteMail(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const reqMailId = Number(req.params.mailId)
+
+        LogInstance.debug(
+            `DELETE request to /mailbox/${reqUserId}/${reqMailId}`
+        )
+
+        if (isNaN(reqUserId) || isNaN(reqMailId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const wasDeleted = await Mail.remove(reqMailId, reqUserId)
+            return res.status(wasDeleted ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
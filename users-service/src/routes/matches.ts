@@ -0,0 +1,254 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { CreateMatchBody, Match } from 'entities/match'
+import { CreateMatchPlayerBody } from 'entities/matchplayer'
+import { User } from 'entities/user'
+
+const DEFAULT_MATCHES_LENGTH = 20
+const MAX_MATCHES_LENGTH = 100
+
+/**
+ * handles requests to /matches
+ */
+export class MatchesRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/matches').post(
+            async (req: express.Request, res: express.Response) =>
+                await MatchesRoute.onPostMatch(req, res)
+        )
+        app.route('/matches/byuser/:userId').get(
+            async (req: express.Request, res: express.Response) =>
+                await MatchesRoute.onGetUserMatches(req, res)
+        )
+        app.route('/matches/:matchId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await MatchesRoute.onGetMatch(req, res)
+            )
+            .delete(
+                async (req: express.Request, res: express.Response) =>
+                    await MatchesRoute.onDeleteMatch(req, res)
+            )
+    }
+
+    /**
+     * checks if a match's players are valid
+     * @param players the players sent in the request
+     * @returns true if valid, false if not
+     */
+    private static areValidPlayers(players: CreateMatchPlayerBody[]): boolean {
+        if (Array.isArray(players) === false || players.length === 0) {
+            return false
+        }
+
+        const userIds = new Set<number>()
+
+        for (const player of players) {
+            if (
+                player == null ||
+                isNaN(Number(player.userId)) ||
+                isNaN(Number(player.team)) ||
+                isNaN(Number(player.kills)) ||
+                isNaN(Number(player.deaths)) ||
+                isNaN(Number(player.assists)) ||
+                isNaN(Number(player.headshots)) ||
+                userIds.has(Number(player.userId))
+            ) {
+                return false
+            }
+
+            userIds.add(Number(player.userId))
+        }
+
+        return true
+    }
+
+    /**
+     * called when a POST request to /matches is done
+     * saves a finished match and its players' scoreboards
+     * returns 201 if saved successfully
+     * returns 400 if the request is malformed
+     * returns 404 if one of the players doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostMatch(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const body = req.body as CreateMatchBody
+
+        LogInstance.debug('POST request to /matches')
+
+        if (
+            isNaN(Number(body.gamemode)) ||
+            isNaN(Number(body.map)) ||
+            isNaN(Number(body.ctScore)) ||
+            isNaN(Number(body.terScore)) ||
+            isNaN(Number(body.winnerTeam)) ||
+            body.startedAt == null ||
+            isNaN(Date.parse(body.startedAt)) ||
+            MatchesRoute.areValidPlayers(body.players) === false
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const newMatch: Match = await Match.create({
+                roomName: body.roomName != null ? String(body.roomName) : '',
+                gamemode: Number(body.gamemode),
+                map: Number(body.map),
+                startedAt: body.startedAt,
+                ctScore: Number(body.ctScore),
+                terScore: Number(body.terScore),
+                winnerTeam: Number(body.winnerTeam),
+                players: body.players.map((player: CreateMatchPlayerBody) => {
+                    return {
+                        userId: Number(player.userId),
+                        team: Number(player.team),
+                        kills: Number(player.kills),
+                        deaths: Number(player.deaths),
+                        assists: Number(player.assists),
+                        headshots: Number(player.headshots)
+                    }
+                })
+            })
+            return res.status(201).json(newMatch).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, one of the players doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /matches/byuser/:userId is done
+     * returns the matches an user played, newest first
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 413 if the requested page is too large
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetUserMatches(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        type getUserMatchesQuery = {
+            offset: string
+            length: string
+        }
+
+        const query = req.query as getUserMatchesQuery
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /matches/byuser/${reqUserId}`)
+
+        const colOffset = query.offset != null ? Number(query.offset) : 0
+        const colLength =
+            query.length != null ? Number(query.length) : DEFAULT_MATCHES_LENGTH
+
+        if (isNaN(reqUserId) || isNaN(colOffset) || isNaN(colLength)) {
+            return res.status(400).end()
+        }
+
+        if (colLength > MAX_MATCHES_LENGTH) {
+            return res.status(413).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const matches: Match[] = await Match.getRecentByUser(
+                reqUserId,
+                colOffset,
+                colLength
+            )
+            return res.status(200).json(matches).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /matches/:matchId is done
+     * returns a match and its players' scoreboards
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the match doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetMatch(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqMatchId = Number(req.params.matchId)
+
+        LogInstance.debug(`GET request to /matches/${reqMatchId}`)
+
+        if (isNaN(reqMatchId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const match: Match = await Match.getById(reqMatchId)
+
+            if (match != null) {
+                return res.status(200).json(match).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a DELETE request to /matches/:matchId is done
+     * deletes a match and its players' scoreboards
+     * returns 200 if deleted successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the match doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onDeleteMatch(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqMatchId = Number(req.params.matchId)
+
+        LogInstance.debug(`DELETE request to /matches/${reqMatchId}`)
+
+        if (isNaN(reqMatchId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const wasDeleted = await Match.remove(reqMatchId)
+            return res.status(wasDeleted ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
@@ -0,0 +1,143 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { CreateMuteBody, Mute } from 'entities/mute'
+
+/**
+ * handles requests to /mutes
+ */
+export class MutesRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/mutes').post(
+            async (req: express.Request, res: express.Response) =>
+                await MutesRoute.onPostMute(req, res)
+        )
+        app.route('/mutes/byuser/:userId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await MutesRoute.onGetActiveMute(req, res)
+            )
+            .delete(
+                async (req: express.Request, res: express.Response) =>
+                    await MutesRoute.onDeleteActiveMute(req, res)
+            )
+    }
+
+    /**
+     * called when a POST request to /mutes is done
+     * mutes an user for a while
+     * returns 201 if muted successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the muted user or the issuer don't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostMute(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const body = req.body as CreateMuteBody
+
+        LogInstance.debug('POST request to /mutes')
+
+        if (
+            body.userId == null ||
+            isNaN(Number(body.userId)) ||
+            (body.issuerId != null && isNaN(Number(body.issuerId))) ||
+            body.durationMinutes == null ||
+            isNaN(Number(body.durationMinutes)) ||
+            Number(body.durationMinutes) <= 0
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const newMute: Mute = await Mute.create({
+                userId: Number(body.userId),
+                issuerId: body.issuerId != null ? Number(body.issuerId) : null,
+                durationMinutes: Number(body.durationMinutes)
+            })
+            return res.status(201).json(newMute).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the user or the issuer don't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /mutes/byuser/:userId is done
+     * returns the mute that lasts the longest of an user
+     * returns 200 if muted
+     * returns 400 if the request is malformed
+     * returns 404 if the user isn't muted
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetActiveMute(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /mutes/byuser/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const mute: Mute = await Mute.getActive(reqUserId)
+
+            if (mute != null) {
+                return res.status(200).json(mute).end()
+            } else {
+                return res.status(404).end()
+            }
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a DELETE request to /mutes/byuser/:userId is done
+     * lifts an user's active mutes
+     * returns 200 if lifted successfully
+     * returns 400 if the request is malformed
+     * returns 404 if the user isn't muted
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onDeleteActiveMute(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`DELETE request to /mutes/byuser/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const wasDeleted = await Mute.removeActive(reqUserId)
+            return res.status(wasDeleted ? 200 : 404).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
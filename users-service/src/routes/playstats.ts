@@ -0,0 +1,112 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { AddPlayStatsBody, IBestPlayStats, PlayStats } from 'entities/playstats'
+import { User } from 'entities/user'
+
+/**
+ * handles requests to /playstats
+ */
+export class PlayStatsRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/playstats/:userId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await PlayStatsRoute.onGetPlayStats(req, res)
+            )
+            .post(
+                async (req: express.Request, res: express.Response) =>
+                    await PlayStatsRoute.onPostPlayStats(req, res)
+            )
+    }
+
+    /**
+     * called when a GET request to /playstats/:userId is done
+     * returns an user's stats in every gamemode and map it played
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetPlayStats(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /playstats/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const stats: PlayStats = await PlayStats.getByUser(reqUserId)
+            return res.status(200).json(stats).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /playstats/:userId is done
+     * adds the time and the results of a match to an user's stats
+     * returns 200 with the user's best gamemode and map if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostPlayStats(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const body = req.body as AddPlayStatsBody
+
+        LogInstance.debug(`POST request to /playstats/${reqUserId}`)
+
+        if (
+            isNaN(reqUserId) ||
+            isNaN(Number(body.gamemode)) ||
+            isNaN(Number(body.map)) ||
+            isNaN(Number(body.secondsPlayed)) ||
+            Number(body.secondsPlayed) < 0 ||
+            (body.kills != null && isNaN(Number(body.kills)))
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const best: IBestPlayStats = await PlayStats.add(reqUserId, {
+                gamemode: Number(body.gamemode),
+                map: Number(body.map),
+                secondsPlayed: Number(body.secondsPlayed),
+                playedMatch: body.playedMatch === true,
+                won: body.won === true,
+                kills: body.kills != null ? Number(body.kills) : 0
+            })
+            return res.status(200).json(best).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the user doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
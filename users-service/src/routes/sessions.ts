@@ -0,0 +1,84 @@
+import express from 'express'
+
+import { LogInstance } from 'log/loginstance'
+
+import { OnlineSession } from 'entities/onlinesession'
+import { SessionCounter } from 'sessioncounter'
+
+/**
+ * handles requests to /sessions
+ */
+export class SessionsRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/sessions').delete(
+            async (req: express.Request, res: express.Response) =>
+                await SessionsRoute.onDeleteSessions(req, res)
+        )
+        app.route('/sessions/:userId').get(
+            async (req: express.Request, res: express.Response) =>
+                await SessionsRoute.onGetSession(req, res)
+        )
+    }
+
+    /**
+     * called when a DELETE request to /sessions is done
+     * ends every online session, used by the master server when it starts
+     * returns 200 with the ended sessions count if successful
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onDeleteSessions(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        LogInstance.debug('DELETE request to /sessions')
+
+        try {
+            const ended: number = await OnlineSession.endAll()
+            SessionCounter.Reset()
+            return res.status(200).json({ ended }).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a GET request to /sessions/:userId is done
+     * returns an user's online session
+     * returns 200 if the user is online
+     * returns 400 if the request is malformed
+     * returns 404 if the user is offline or doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetSession(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /sessions/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            const session: OnlineSession = await OnlineSession.getByUser(
+                reqUserId
+            )
+
+            if (session == null) {
+                return res.status(404).end()
+            }
+
+            return res.status(200).json(session).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
@@ -1,8 +1,17 @@
+import crypto from 'crypto'
 import express from 'express'
 
 import { LogInstance } from 'log/loginstance'
 
-import { User } from 'entities/user'
+import { Ban } from 'entities/ban'
+import { OnlineSession } from 'entities/onlinesession'
+import {
+    CampaignReward,
+    CampaignRewardItem,
+    CampaignRewardMembers,
+    User,
+    UserCurrencies
+} from 'entities/user'
 import { SessionCounter } from 'sessioncounter'
 
 /**
@@ -32,14 +41,21 @@ export class UsersRoute {
                 async (req: express.Request, res: express.Response) =>
                     await UsersRoute.onDeleteUserById(req, res)
             )
+        app.route('/users/:userId/currencies').post(
+            async (req: express.Request, res: express.Response) =>
+                await UsersRoute.onPostCurrencies(req, res)
+        )
+        app.route('/users/:userId/campaigns').post(
+            async (req: express.Request, res: express.Response) =>
+                await UsersRoute.onPostCampaigns(req, res)
+        )
         app.route('/users/auth/login').post(
             async (req: express.Request, res: express.Response) =>
                 await UsersRoute.onPostLogin(req, res)
         )
-        app.route(
-            '/users/auth/logout'
-        ).post((req: express.Request, res: express.Response) =>
-            UsersRoute.onPostLogout(req, res)
+        app.route('/users/auth/logout').post(
+            async (req: express.Request, res: express.Response) =>
+                await UsersRoute.onPostLogout(req, res)
         )
         app.route('/users/auth/validate').post(
             async (req: express.Request, res: express.Response) =>
@@ -53,6 +69,10 @@ export class UsersRoute {
             async (req: express.Request, res: express.Response) =>
                 await UsersRoute.onGetUsersByName(req, res)
         )
+        app.route('/users/byplayername/:playername').get(
+            async (req: express.Request, res: express.Response) =>
+                await UsersRoute.onGetUsersByPlayerName(req, res)
+        )
     }
 
     /**
@@ -277,12 +297,171 @@ export class UsersRoute {
         }
     }
 
+    /**
+     * called when a POST request to /users/:userId/currencies is done
+     * adds amounts to an user's currencies, negative amounts are charged
+     * returns 200 with the user's new currencies if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user cannot be found
+     * returns 409 if the user can't afford the charge
+     * returns 500 if an internal error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostCurrencies(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        type postCurrenciesBody = {
+            points?: number
+            cash?: number
+            mpoints?: number
+        }
+
+        const reqUserId = Number(req.params.userId)
+        const body = req.body as postCurrenciesBody
+
+        const amounts: UserCurrencies = {
+            points: body.points != null ? Number(body.points) : 0,
+            cash: body.cash != null ? Number(body.cash) : 0,
+            mpoints: body.mpoints != null ? Number(body.mpoints) : 0
+        }
+
+        if (
+            isNaN(reqUserId) === true ||
+            isNaN(amounts.points) === true ||
+            isNaN(amounts.cash) === true ||
+            isNaN(amounts.mpoints) === true
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const currencies: UserCurrencies = await User.addCurrencies(
+                reqUserId,
+                amounts
+            )
+
+            if (currencies != null) {
+                return res.status(200).json(currencies).end()
+            }
+
+            if ((await User.getById(reqUserId, false)) == null) {
+                return res.status(404).end()
+            }
+
+            return res.status(409).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /users/:userId/campaigns is done
+     * sets an user's finished campaign flag and gives it the campaign's
+     * rewards at once, so a campaign can only be rewarded once
+     * returns 200 with the user's new currencies if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user cannot be found
+     * returns 409 if the user already finished the campaign
+     * returns 500 if an internal error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostCampaigns(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        type postCampaignsBody = {
+            campaignId: number
+            points?: number
+            items?: CampaignRewardItem[]
+            level?: number
+            cur_xp?: number
+            max_xp?: number
+            unlocked_titles?: number[]
+            unlocked_avatars?: number[]
+        }
+
+        const reqUserId = Number(req.params.userId)
+        const body = req.body as postCampaignsBody
+
+        const campaignId = Number(body.campaignId)
+        const reward: CampaignReward = {
+            points: body.points != null ? Number(body.points) : 0,
+            items: Array.isArray(body.items)
+                ? body.items.map((item: CampaignRewardItem) => {
+                      return {
+                          itemId: Number(item.itemId),
+                          ammount: Number(item.ammount)
+                      }
+                  })
+                : [],
+            members: {}
+        }
+
+        const memberNames: (keyof CampaignRewardMembers)[] = [
+            'level',
+            'cur_xp',
+            'max_xp',
+            'unlocked_titles',
+            'unlocked_avatars'
+        ]
+
+        for (const name of memberNames) {
+            if (body[name] != null) {
+                Object.assign(reward.members, { [name]: body[name] })
+            }
+        }
+
+        if (
+            isNaN(reqUserId) === true ||
+            isNaN(campaignId) === true ||
+            campaignId <= 0 ||
+            isNaN(reward.points) === true ||
+            reward.points < 0 ||
+            (body.items != null && Array.isArray(body.items) === false) ||
+            reward.items.some(
+                (item: CampaignRewardItem) =>
+                    isNaN(item.itemId) === true ||
+                    isNaN(item.ammount) === true ||
+                    item.ammount <= 0
+            )
+        ) {
+            return res.status(400).end()
+        }
+
+        try {
+            const currencies: UserCurrencies = await User.finishCampaign(
+                reqUserId,
+                campaignId,
+                reward
+            )
+
+            if (currencies != null) {
+                return res.status(200).json(currencies).end()
+            }
+
+            if ((await User.getById(reqUserId, false)) == null) {
+                return res.status(404).end()
+            }
+
+            return res.status(409).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
     /**
      * called when a POST request to /users/auth/login is done
-     * checks if the user credentials are valid
-     * returns 200 if the credentials are valid
+     * checks if the user credentials are valid and starts the user's online
+     * session, replacing the one it already had
+     * returns 200 with the replaced session's ID if the credentials are valid
      * returns 400 if the request is malformed
      * returns 401 if the credentials are invalid
+     * returns 403 if the account or the IP address are banned, with the ban
      * returns 500 if an internal error occured
      * @param req the request data
      * @param res the response data
@@ -294,12 +473,20 @@ export class UsersRoute {
         type postUsersBody = {
             username: string
             password: string
+            ipAddress?: string
+            sessionId?: string
         }
 
         const body = req.body as postUsersBody
 
         const userName: string = body.username
         const password: string = body.password
+        const ipAddress: string = body.ipAddress != null ? body.ipAddress : null
+        // logins without a session ID can only be logged out by user ID
+        const sessionId: string =
+            body.sessionId != null
+                ? String(body.sessionId)
+                : crypto.randomBytes(16).toString('hex')
 
         if (userName == null || password == null) {
             return res.status(400).end()
@@ -311,12 +498,34 @@ export class UsersRoute {
                 password
             )
 
-            if (loggedUserId != null) {
+            if (loggedUserId == null) {
+                return res.status(401).end()
+            }
+
+            const ban: Ban = await Ban.getActive(loggedUserId, ipAddress)
+
+            if (ban != null) {
+                return res.status(403).json(ban).end()
+            }
+
+            const replacedSessionId: string = await OnlineSession.start(
+                loggedUserId,
+                sessionId,
+                ipAddress
+            )
+
+            if (replacedSessionId == null) {
                 SessionCounter.Increment()
-                return res.status(200).json({ userId: loggedUserId }).end()
             } else {
-                return res.status(401).end()
+                LogInstance.info(
+                    `user ID ${loggedUserId} logged in again, replacing session ${replacedSessionId}`
+                )
             }
+
+            return res
+                .status(200)
+                .json({ userId: loggedUserId, replacedSessionId })
+                .end()
         } catch (error) {
             LogInstance.error(error)
             return res.status(500).end()
@@ -325,33 +534,38 @@ export class UsersRoute {
 
     /**
      * called when a POST request to /users/auth/logout is done
-     * logs an user out
-     * returns 200 if the user was logged out
+     * ends an user's online session
+     * a session that was replaced by a newer login is left alone
+     * returns 200 if the user was logged out, or if the session had ended
      * returns 400 if the request is malformed
-     * returns 404 if the use does not exist
      * returns 500 if an internal error occured
      * @param req the request data
      * @param res the response data
      */
-    private static onPostLogout(
+    private static async onPostLogout(
         req: express.Request,
         res: express.Response
-    ): void {
+    ): Promise<void> {
         type postLogoutBody = {
             userId: string
+            sessionId?: string
         }
 
         const body = req.body as postLogoutBody
 
-        const userId: string = body.userId
+        const userId = Number(body.userId)
+        const sessionId: string =
+            body.sessionId != null ? String(body.sessionId) : null
 
-        if (userId == null) {
+        if (body.userId == null || isNaN(userId)) {
             return res.status(400).end()
         }
 
         try {
-            // TODO: do anything with this maybe?
-            SessionCounter.Decrement()
+            if ((await OnlineSession.end(userId, sessionId)) === true) {
+                SessionCounter.Decrement()
+            }
+
             return res.status(200).json().end()
         } catch (error) {
             LogInstance.error(error)
@@ -485,4 +699,38 @@ export class UsersRoute {
             return res.status(500).end()
         }
     }
+
+    /**
+     * called when a GET request to /users/byplayername/:playername is done
+     * returns an user's information by their ingame player name
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user cannot be found
+     * returns 500 if an internal error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetUsersByPlayerName(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqPlayerName: string = req.params.playername
+
+        if (reqPlayerName == null) {
+            return res.status(400).end()
+        }
+
+        try {
+            const user: User = await User.getByPlayerName(reqPlayerName)
+
+            if (user == null) {
+                return res.status(404).end()
+            }
+
+            return res.status(200).json(user).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
 }
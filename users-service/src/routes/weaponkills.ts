@@ -0,0 +1,123 @@
+import express from 'express'
+
+import { ToPostgresError } from 'db'
+import { LogInstance } from 'log/loginstance'
+
+import { User } from 'entities/user'
+import { AddWeaponKillsBody, WeaponKills } from 'entities/weaponkills'
+
+/**
+ * handles requests to /weaponkills
+ */
+export class WeaponKillsRoute {
+    public static InstallRoutes(app: express.Express): void {
+        app.route('/weaponkills/:userId')
+            .get(
+                async (req: express.Request, res: express.Response) =>
+                    await WeaponKillsRoute.onGetWeaponKills(req, res)
+            )
+            .post(
+                async (req: express.Request, res: express.Response) =>
+                    await WeaponKillsRoute.onPostWeaponKills(req, res)
+            )
+    }
+
+    /**
+     * called when a GET request to /weaponkills/:userId is done
+     * returns an user's kills with each weapon it used
+     * returns 200 if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onGetWeaponKills(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+
+        LogInstance.debug(`GET request to /weaponkills/${reqUserId}`)
+
+        if (isNaN(reqUserId)) {
+            return res.status(400).end()
+        }
+
+        try {
+            if ((await User.getById(reqUserId)) == null) {
+                return res.status(404).end()
+            }
+
+            const kills: WeaponKills[] = await WeaponKills.getByUser(reqUserId)
+            return res.status(200).json(kills).end()
+        } catch (error) {
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+
+    /**
+     * called when a POST request to /weaponkills/:userId is done
+     * adds kills to an user's weapons
+     * returns 200 with the user's updated kills if successful
+     * returns 400 if the request is malformed
+     * returns 404 if the user doesn't exist
+     * returns 500 if an internal unknown error occured
+     * @param req the request data
+     * @param res the response data
+     */
+    private static async onPostWeaponKills(
+        req: express.Request,
+        res: express.Response
+    ): Promise<void> {
+        const reqUserId = Number(req.params.userId)
+        const weapons = (req.body as { weapons: AddWeaponKillsBody[] }).weapons
+
+        LogInstance.debug(`POST request to /weaponkills/${reqUserId}`)
+
+        if (
+            isNaN(reqUserId) ||
+            Array.isArray(weapons) === false ||
+            weapons.length === 0
+        ) {
+            return res.status(400).end()
+        }
+
+        const newKills: AddWeaponKillsBody[] = []
+
+        for (const weapon of weapons) {
+            const weaponId = Number(weapon.weaponId)
+            const kills = Number(weapon.kills)
+
+            if (
+                isNaN(weaponId) ||
+                isNaN(kills) ||
+                Math.floor(kills) !== kills ||
+                kills < 1
+            ) {
+                return res.status(400).end()
+            }
+
+            newKills.push({ weaponId, kills })
+        }
+
+        try {
+            const kills: WeaponKills[] = await WeaponKills.add(
+                reqUserId,
+                newKills
+            )
+            return res.status(200).json(kills).end()
+        } catch (error) {
+            const postgresErr = ToPostgresError(error)
+            if (postgresErr != null) {
+                // foreign key violation, the user doesn't exist
+                if (postgresErr.code === '23503') {
+                    return res.status(404).end()
+                }
+            }
+            LogInstance.error(error)
+            return res.status(500).end()
+        }
+    }
+}
@@ -9,11 +9,24 @@ import { MorganToWinstonStream } from 'log/morgan2winston'
 
 import { PingRoute } from 'routes/ping'
 import { UsersRoute } from 'routes/users'
+import { FriendsRoute } from 'routes/friends'
+import { BansRoute } from 'routes/bans'
+import { MutesRoute } from 'routes/mutes'
+import { MatchesRoute } from 'routes/matches'
+import { LeaderboardsRoute } from 'routes/leaderboards'
+import { PlayStatsRoute } from 'routes/playstats'
+import { WeaponKillsRoute } from 'routes/weaponkills'
+import { AchievementsRoute } from 'routes/achievements'
+import { BossRushRoute } from 'routes/bossrush'
+import { SessionsRoute } from 'routes/sessions'
+import { ClansRoute } from 'routes/clans'
+import { MailboxRoute } from 'routes/mailbox'
 import { InventoryBuyMenuRoute } from 'routes/inventory/buymenu'
 import { InventoryCosmeticsRoute } from 'routes/inventory/cosmetics'
 import { InventoryRoute } from 'routes/inventory/inventory'
 import { InventoryLoadoutRoute } from 'routes/inventory/loadout'
 import { InitSql, ShutdownSql } from 'db'
+import { WorldRankJob } from 'worldrankjob'
 
 /**
  * the service's entrypoint
@@ -31,6 +44,7 @@ export class ServiceInstance {
 
     public app: express.Express
     private server: http.Server
+    private worldRankJob: WorldRankJob
 
     constructor() {
         ServiceInstance.checkEnvVars()
@@ -44,6 +58,8 @@ export class ServiceInstance {
         this.setupRoutes()
 
         this.app.set('port', process.env.USERS_PORT)
+
+        this.worldRankJob = new WorldRankJob()
     }
 
     /**
@@ -53,6 +69,8 @@ export class ServiceInstance {
         this.server = this.app.listen(this.app.get('port'))
         LogInstance.info('Started user service')
         LogInstance.info(`Listening at ${this.app.get('port') as string}`)
+
+        this.worldRankJob.start()
     }
 
     /**
@@ -60,6 +78,7 @@ export class ServiceInstance {
      */
     public async stop(): Promise<void> {
         this.server.close()
+        await this.worldRankJob.stop()
         await ShutdownSql()
     }
 
@@ -106,6 +125,18 @@ export class ServiceInstance {
         InventoryBuyMenuRoute.InstallRoutes(this.app)
         InventoryCosmeticsRoute.InstallRoutes(this.app)
         InventoryLoadoutRoute.InstallRoutes(this.app)
+        FriendsRoute.InstallRoutes(this.app)
+        MailboxRoute.InstallRoutes(this.app)
+        ClansRoute.InstallRoutes(this.app)
+        BansRoute.InstallRoutes(this.app)
+        MutesRoute.InstallRoutes(this.app)
+        MatchesRoute.InstallRoutes(this.app)
+        LeaderboardsRoute.InstallRoutes(this.app)
+        PlayStatsRoute.InstallRoutes(this.app)
+        WeaponKillsRoute.InstallRoutes(this.app)
+        AchievementsRoute.InstallRoutes(this.app)
+        BossRushRoute.InstallRoutes(this.app)
+        SessionsRoute.InstallRoutes(this.app)
 
         PingRoute.InstallRoutes(this.app)
     }
@@ -9,6 +9,10 @@ export class SessionCounter {
         SessionCounter.sessionNum--
     }
 
+    public static Reset(): void {
+        SessionCounter.sessionNum = 0
+    }
+
     public static Get(): number {
         return SessionCounter.sessionNum
     }
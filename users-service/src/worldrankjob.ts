@@ -0,0 +1,82 @@
+import { LogInstance } from 'log/loginstance'
+
+import { LeaderboardEntry } from 'entities/leaderboardentry'
+
+// how often the world ranks are updated if WORLD_RANK_INTERVAL isn't set
+const DEFAULT_INTERVAL_MINUTES = 10
+
+/**
+ * periodically updates every user's world rank
+ */
+export class WorldRankJob {
+    /**
+     * get how often the world ranks are updated
+     * @returns the interval in milliseconds
+     */
+    private static getIntervalMs(): number {
+        const envMinutes = Number(process.env.WORLD_RANK_INTERVAL)
+        const minutes =
+            isNaN(envMinutes) === false && envMinutes > 0
+                ? envMinutes
+                : DEFAULT_INTERVAL_MINUTES
+        return minutes * 60 * 1000
+    }
+
+    private timer: NodeJS.Timeout
+    private currentRun: Promise<void>
+
+    constructor() {
+        this.timer = null
+        this.currentRun = null
+    }
+
+    /**
+     * update the world ranks now and then periodically
+     */
+    public start(): void {
+        if (this.timer != null) {
+            return
+        }
+
+        this.timer = setInterval(() => {
+            void this.run()
+        }, WorldRankJob.getIntervalMs())
+
+        void this.run()
+    }
+
+    /**
+     * stop updating the world ranks
+     * waits for an update in progress to finish
+     */
+    public async stop(): Promise<void> {
+        if (this.timer != null) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+
+        if (this.currentRun != null) {
+            await this.currentRun
+        }
+    }
+
+    /**
+     * update the world ranks, unless an update is already in progress
+     */
+    private async run(): Promise<void> {
+        if (this.currentRun != null) {
+            return
+        }
+
+        this.currentRun = LeaderboardEntry.updateWorldRanks()
+
+        try {
+            await this.currentRun
+            LogInstance.info('Updated the users world ranks')
+        } catch (error) {
+            LogInstance.error(error)
+        } finally {
+            this.currentRun = null
+        }
+    }
+}
@@ -0,0 +1,366 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const banSchema = {
+    type: 'object',
+    required: [
+        'id',
+        'user_id',
+        'ip_address',
+        'reason',
+        'issuer_id',
+        'created_at',
+        'expires_at'
+    ],
+    properties: {
+        id: {
+            type: 'number',
+            minimum: 1
+        },
+        user_id: {
+            type: ['number', 'null']
+        },
+        ip_address: {
+            type: ['string', 'null']
+        },
+        reason: {
+            type: 'string'
+        },
+        issuer_id: {
+            type: ['number', 'null']
+        },
+        created_at: {
+            type: 'string'
+        },
+        expires_at: {
+            type: ['string', 'null']
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Bans', (): void => {
+    let serviceInstance: ServiceInstance
+    let bannedUserId = -1
+    let issuerUserId = -1
+    let accountBanId = -1
+    let ipBanId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                bannedUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        issuerUserId = res.body.id
+                        return done()
+                    })
+            })
+    })
+
+    mocha.describe('POST /bans', (): void => {
+        mocha.it('Should ban an account', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/bans')
+                .send({
+                    userId: bannedUserId,
+                    reason: 'cheating',
+                    issuerId: issuerUserId,
+                    durationMinutes: 60
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(201)
+                    res.body.should.be.jsonSchema(banSchema)
+                    chai.expect(res.body.user_id).equal(bannedUserId)
+                    chai.expect(res.body.reason).equal('cheating')
+                    chai.expect(res.body.expires_at).not.equal(null)
+                    accountBanId = res.body.id
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should permanently ban an IP address',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/bans')
+                    .send({
+                        ipAddress: '10.0.0.1',
+                        issuerId: issuerUserId
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(201)
+                        res.body.should.be.jsonSchema(banSchema)
+                        chai.expect(res.body.user_id).equal(null)
+                        chai.expect(res.body.expires_at).equal(null)
+                        ipBanId = res.body.id
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when banning without an user or an IP address',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/bans')
+                    .send({ reason: 'nothing', issuerId: issuerUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when banning with an invalid duration',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/bans')
+                    .send({ userId: bannedUserId, durationMinutes: -5 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when banning a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/bans')
+                    .send({ userId: 0 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('POST /users/auth/login', (): void => {
+        mocha.it(
+            'Should 403 when a banned account logs in',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/auth/login')
+                    .send({ username: 'testuser', password: '222222' })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        res.body.should.be.jsonSchema(banSchema)
+                        chai.expect(res.body.id).equal(accountBanId)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 403 when logging in from a banned IP address',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/auth/login')
+                    .send({
+                        username: 'another_test_user',
+                        password: '123564',
+                        ipAddress: '10.0.0.1'
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        chai.expect(res.body.id).equal(ipBanId)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /bans/active', (): void => {
+        mocha.it(
+            "Should get an account's active ban",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/bans/active?userId=${bannedUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(banSchema)
+                        chai.expect(res.body.id).equal(accountBanId)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should get an IP address' active ban",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/bans/active?ipAddress=10.0.0.1')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.id).equal(ipBanId)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when the account is not banned',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/bans/active?userId=${issuerUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when there is no user or IP address',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/bans/active')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /bans/byuser/:userId', (): void => {
+        mocha.it("Should get an user's bans", (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/bans/byuser/${bannedUserId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema({
+                        type: 'array',
+                        items: banSchema
+                    })
+                    chai.expect(res.body.length).equal(1)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 404 when getting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/bans/byuser/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /bans/:banId', (): void => {
+        mocha.it('Should get a ban', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/bans/${accountBanId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(banSchema)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when getting a ban with a bad ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/bans/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('DELETE /bans/:banId', (): void => {
+        mocha.it('Should lift a ban', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete(`/bans/${accountBanId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should let the unbanned user log in',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/auth/login')
+                    .send({ username: 'testuser', password: '222222' })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+
+                        chai.request(serviceInstance.app)
+                            .post('/users/auth/logout')
+                            .send({ userId: bannedUserId })
+                            .end(() => {
+                                return done()
+                            })
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when lifting a non existing ban',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .delete(`/bans/${accountBanId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete(`/bans/${ipBanId}`)
+            .send()
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + bannedUserId)
+                    .send()
+                    .then(() => {
+                        chai.request(serviceInstance.app)
+                            .delete('/users/' + issuerUserId)
+                            .send()
+                            .then(() => {
+                                serviceInstance.stop().then(() => {
+                                    return done()
+                                })
+                            })
+                    })
+            })
+    })
+})
@@ -0,0 +1,387 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const matchPlayerSchema = {
+    type: 'object',
+    required: [
+        'match_id',
+        'user_id',
+        'playername',
+        'team',
+        'kills',
+        'deaths',
+        'assists',
+        'headshots'
+    ],
+    properties: {
+        match_id: {
+            type: 'number',
+            minimum: 1
+        },
+        user_id: {
+            type: 'number',
+            minimum: 1
+        },
+        playername: {
+            type: 'string'
+        },
+        team: {
+            type: 'number'
+        },
+        kills: {
+            type: 'number',
+            minimum: 0
+        },
+        deaths: {
+            type: 'number',
+            minimum: 0
+        },
+        assists: {
+            type: 'number',
+            minimum: 0
+        },
+        headshots: {
+            type: 'number',
+            minimum: 0
+        }
+    }
+}
+
+const matchSchema = {
+    type: 'object',
+    required: [
+        'id',
+        'room_name',
+        'gamemode',
+        'map',
+        'started_at',
+        'ended_at',
+        'ct_score',
+        'ter_score',
+        'winner_team',
+        'players'
+    ],
+    properties: {
+        id: {
+            type: 'number',
+            minimum: 1
+        },
+        room_name: {
+            type: 'string'
+        },
+        gamemode: {
+            type: 'number'
+        },
+        map: {
+            type: 'number'
+        },
+        started_at: {
+            type: 'string'
+        },
+        ended_at: {
+            type: 'string'
+        },
+        ct_score: {
+            type: 'number',
+            minimum: 0
+        },
+        ter_score: {
+            type: 'number',
+            minimum: 0
+        },
+        winner_team: {
+            type: 'number'
+        },
+        players: {
+            type: 'array',
+            items: matchPlayerSchema
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Matches', (): void => {
+    let serviceInstance: ServiceInstance
+    let firstUserId = -1
+    let secondUserId = -1
+    let matchId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                firstUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        secondUserId = res.body.id
+                        return done()
+                    })
+            })
+    })
+
+    mocha.describe('POST /matches', (): void => {
+        mocha.it('Should save a match', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/matches')
+                .send({
+                    roomName: 'Test room',
+                    gamemode: 2,
+                    map: 1,
+                    startedAt: new Date(Date.now() - 600000).toISOString(),
+                    ctScore: 3,
+                    terScore: 5,
+                    winnerTeam: 1,
+                    players: [
+                        {
+                            userId: firstUserId,
+                            team: 1,
+                            kills: 12,
+                            deaths: 4,
+                            assists: 2,
+                            headshots: 5
+                        },
+                        {
+                            userId: secondUserId,
+                            team: 2,
+                            kills: 4,
+                            deaths: 12,
+                            assists: 1,
+                            headshots: 0
+                        }
+                    ]
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(201)
+                    res.body.should.be.jsonSchema(matchSchema)
+                    chai.expect(res.body.room_name).equal('Test room')
+                    chai.expect(res.body.players.length).equal(2)
+                    matchId = res.body.id
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when saving a match without players',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/matches')
+                    .send({
+                        gamemode: 2,
+                        map: 1,
+                        startedAt: new Date().toISOString(),
+                        ctScore: 0,
+                        terScore: 0,
+                        winnerTeam: 0,
+                        players: []
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when saving a match with a bad start date',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/matches')
+                    .send({
+                        gamemode: 2,
+                        map: 1,
+                        startedAt: 'yesterday',
+                        ctScore: 0,
+                        terScore: 0,
+                        winnerTeam: 0,
+                        players: [
+                            {
+                                userId: firstUserId,
+                                team: 1,
+                                kills: 0,
+                                deaths: 0,
+                                assists: 0,
+                                headshots: 0
+                            }
+                        ]
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when saving a match with a non existing player',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/matches')
+                    .send({
+                        gamemode: 2,
+                        map: 1,
+                        startedAt: new Date().toISOString(),
+                        ctScore: 0,
+                        terScore: 0,
+                        winnerTeam: 0,
+                        players: [
+                            {
+                                userId: 0,
+                                team: 1,
+                                kills: 0,
+                                deaths: 0,
+                                assists: 0,
+                                headshots: 0
+                            }
+                        ]
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /matches/byuser/:userId', (): void => {
+        mocha.it("Should get an user's matches", (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/matches/byuser/${secondUserId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema({
+                        type: 'array',
+                        items: matchSchema
+                    })
+                    chai.expect(res.body.length).equal(1)
+                    chai.expect(res.body[0].id).equal(matchId)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 413 when requesting too many matches',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/matches/byuser/${firstUserId}?length=1000`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(413)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/matches/byuser/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /matches/:matchId', (): void => {
+        mocha.it('Should get a match', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/matches/${matchId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(matchSchema)
+                    chai.expect(res.body.winner_team).equal(1)
+                    chai.expect(res.body.players[0].user_id).equal(firstUserId)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when getting a match with a bad ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/matches/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing match',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/matches/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('DELETE /matches/:matchId', (): void => {
+        mocha.it('Should delete a match', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete(`/matches/${matchId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 404 when deleting a non existing match',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .delete(`/matches/${matchId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + firstUserId)
+            .send()
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + secondUserId)
+                    .send()
+                    .then(() => {
+                        serviceInstance.stop().then(() => {
+                            return done()
+                        })
+                    })
+            })
+    })
+})
@@ -0,0 +1,214 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const leaderboardSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: [
+            'position',
+            'user_id',
+            'playername',
+            'level',
+            'played_matches',
+            'clan_name',
+            'value'
+        ],
+        properties: {
+            position: {
+                type: 'number',
+                minimum: 1
+            },
+            user_id: {
+                type: 'number',
+                minimum: 1
+            },
+            playername: {
+                type: 'string'
+            },
+            level: {
+                type: 'number'
+            },
+            played_matches: {
+                type: 'number',
+                minimum: 0
+            },
+            clan_name: {
+                type: ['string', 'null']
+            },
+            value: {
+                type: 'number'
+            }
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Leaderboards', (): void => {
+    let serviceInstance: ServiceInstance
+    let bestUserId = -1
+    let worstUserId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                bestUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        worstUserId = res.body.id
+
+                        chai.request(serviceInstance.app)
+                            .put('/users/' + bestUserId)
+                            .send({
+                                kills: 50,
+                                deaths: 10,
+                                played_matches: 5,
+                                wins: 4
+                            })
+                            .then(() => {
+                                chai.request(serviceInstance.app)
+                                    .put('/users/' + worstUserId)
+                                    .send({
+                                        kills: 10,
+                                        deaths: 50,
+                                        played_matches: 2,
+                                        wins: 0
+                                    })
+                                    .then(() => {
+                                        return done()
+                                    })
+                            })
+                    })
+            })
+    })
+
+    mocha.describe('GET /leaderboards/:category', (): void => {
+        mocha.it(
+            'Should get the kills leaderboard',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/leaderboards/kills?minMatches=1')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(leaderboardSchema)
+                        chai.expect(res.body[0].user_id).equal(bestUserId)
+                        chai.expect(res.body[0].position).equal(1)
+                        chai.expect(res.body[0].value).equal(50)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should get the K/D ratio leaderboard',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/leaderboards/kdratio?minMatches=1')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(leaderboardSchema)
+                        chai.expect(res.body[0].user_id).equal(bestUserId)
+                        chai.expect(res.body[0].value).equal(5)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should filter out the users with too few matches',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/leaderboards/wins?minMatches=3')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(leaderboardSchema)
+                        chai.expect(res.body.length).equal(1)
+                        chai.expect(res.body[0].user_id).equal(bestUserId)
+                        return done()
+                    })
+            }
+        )
+        mocha.it('Should page a leaderboard', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get('/leaderboards/winrate?minMatches=1&offset=1&length=1')
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(leaderboardSchema)
+                    chai.expect(res.body.length).equal(1)
+                    chai.expect(res.body[0].user_id).equal(worstUserId)
+                    chai.expect(res.body[0].position).equal(2)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when getting an unknown leaderboard',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/leaderboards/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 413 when requesting too many entries',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/leaderboards/level?length=1000')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(413)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + bestUserId)
+            .send()
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + worstUserId)
+                    .send()
+                    .then(() => {
+                        serviceInstance.stop().then(() => {
+                            return done()
+                        })
+                    })
+            })
+    })
+})
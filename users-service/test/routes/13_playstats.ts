@@ -0,0 +1,254 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const statsItemProperties = {
+    seconds_played: {
+        type: 'number',
+        minimum: 0
+    },
+    played_matches: {
+        type: 'number',
+        minimum: 0
+    },
+    wins: {
+        type: 'number',
+        minimum: 0
+    },
+    kills: {
+        type: 'number',
+        minimum: 0
+    }
+}
+
+const playStatsSchema = {
+    type: 'object',
+    required: ['user_id', 'gamemodes', 'maps'],
+    properties: {
+        user_id: {
+            type: 'number',
+            minimum: 1
+        },
+        gamemodes: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: [
+                    'gamemode',
+                    'seconds_played',
+                    'played_matches',
+                    'wins',
+                    'kills'
+                ],
+                properties: {
+                    gamemode: {
+                        type: 'number'
+                    },
+                    ...statsItemProperties
+                }
+            }
+        },
+        maps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: [
+                    'map',
+                    'seconds_played',
+                    'played_matches',
+                    'wins',
+                    'kills'
+                ],
+                properties: {
+                    map: {
+                        type: 'number'
+                    },
+                    ...statsItemProperties
+                }
+            }
+        }
+    }
+}
+
+const bestPlayStatsSchema = {
+    type: 'object',
+    required: ['best_gamemode', 'best_map'],
+    properties: {
+        best_gamemode: {
+            type: 'number'
+        },
+        best_map: {
+            type: 'number'
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Play stats', (): void => {
+    let serviceInstance: ServiceInstance
+    let userId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                userId = res.body.id
+                return done()
+            })
+    })
+
+    mocha.describe('POST /playstats/:userId', (): void => {
+        mocha.it('Should add a lost match', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/playstats/${userId}`)
+                .send({
+                    gamemode: 1,
+                    map: 3,
+                    secondsPlayed: 600,
+                    playedMatch: true,
+                    won: false,
+                    kills: 10
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(bestPlayStatsSchema)
+                    chai.expect(res.body.best_gamemode).equal(1)
+                    chai.expect(res.body.best_map).equal(3)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should pick the gamemode and map with the most wins',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/playstats/${userId}`)
+                    .send({
+                        gamemode: 2,
+                        map: 5,
+                        secondsPlayed: 300,
+                        playedMatch: true,
+                        won: true,
+                        kills: 4
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.best_gamemode).equal(2)
+                        chai.expect(res.body.best_map).equal(5)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should add the time of a match the user left',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/playstats/${userId}`)
+                    .send({
+                        gamemode: 1,
+                        map: 3,
+                        secondsPlayed: 120,
+                        playedMatch: false,
+                        won: false,
+                        kills: 1
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.best_gamemode).equal(2)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when adding a negative time',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/playstats/${userId}`)
+                    .send({ gamemode: 1, map: 3, secondsPlayed: -5 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when adding to a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/playstats/0')
+                    .send({ gamemode: 1, map: 3, secondsPlayed: 60 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /playstats/:userId', (): void => {
+        mocha.it(
+            "Should get an user's play stats",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/playstats/${userId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(playStatsSchema)
+                        chai.expect(res.body.gamemodes.length).equal(2)
+                        chai.expect(res.body.gamemodes[0].seconds_played).equal(
+                            720
+                        )
+                        chai.expect(res.body.gamemodes[0].played_matches).equal(
+                            1
+                        )
+                        chai.expect(res.body.maps.length).equal(2)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/playstats/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + userId)
+            .send()
+            .then(() => {
+                serviceInstance.stop().then(() => {
+                    return done()
+                })
+            })
+    })
+})
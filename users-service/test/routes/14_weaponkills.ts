@@ -0,0 +1,169 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const weaponKillsSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['weapon_id', 'kills'],
+        properties: {
+            weapon_id: {
+                type: 'number'
+            },
+            kills: {
+                type: 'number',
+                minimum: 1
+            }
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Weapon kills', (): void => {
+    let serviceInstance: ServiceInstance
+    let userId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                userId = res.body.id
+                return done()
+            })
+    })
+
+    mocha.describe('POST /weaponkills/:userId', (): void => {
+        mocha.it('Should add kills to weapons', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/weaponkills/${userId}`)
+                .send({
+                    weapons: [
+                        { weaponId: 20, kills: 12 },
+                        { weaponId: 24, kills: 3 }
+                    ]
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(weaponKillsSchema)
+                    chai.expect(res.body.length).equal(2)
+                    chai.expect(res.body[0].weapon_id).equal(20)
+                    chai.expect(res.body[0].kills).equal(12)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should add kills to a weapon with kills',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/weaponkills/${userId}`)
+                    .send({ weapons: [{ weaponId: 20, kills: 5 }] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.length).equal(2)
+                        chai.expect(res.body[0].kills).equal(17)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when adding no weapons',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/weaponkills/${userId}`)
+                    .send({ weapons: [] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when adding negative kills',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/weaponkills/${userId}`)
+                    .send({ weapons: [{ weaponId: 20, kills: -1 }] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when adding to a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/weaponkills/0')
+                    .send({ weapons: [{ weaponId: 20, kills: 1 }] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /weaponkills/:userId', (): void => {
+        mocha.it(
+            "Should get an user's weapon kills",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/weaponkills/${userId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(weaponKillsSchema)
+                        chai.expect(res.body.length).equal(2)
+                        chai.expect(res.body[1].weapon_id).equal(24)
+                        chai.expect(res.body[1].kills).equal(3)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/weaponkills/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + userId)
+            .send()
+            .then(() => {
+                serviceInstance.stop().then(() => {
+                    return done()
+                })
+            })
+    })
+})
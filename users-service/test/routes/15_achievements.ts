@@ -0,0 +1,174 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const achievementProgressSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['achievement_id', 'progress'],
+        properties: {
+            achievement_id: {
+                type: 'number'
+            },
+            progress: {
+                type: 'number',
+                minimum: 1
+            }
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Achievements', (): void => {
+    let serviceInstance: ServiceInstance
+    let userId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                userId = res.body.id
+                return done()
+            })
+    })
+
+    mocha.describe('POST /achievements/:userId', (): void => {
+        mocha.it(
+            'Should add progress to achievements',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/achievements/${userId}`)
+                    .send({
+                        achievements: [
+                            { achievementId: 3, amount: 10 },
+                            { achievementId: 7, amount: 1 }
+                        ]
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(achievementProgressSchema)
+                        chai.expect(res.body.length).equal(2)
+                        chai.expect(res.body[0].achievement_id).equal(3)
+                        chai.expect(res.body[0].progress).equal(10)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should only return the updated achievements',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/achievements/${userId}`)
+                    .send({ achievements: [{ achievementId: 3, amount: 5 }] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.length).equal(1)
+                        chai.expect(res.body[0].progress).equal(15)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when the achievement ID is out of range',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/achievements/${userId}`)
+                    .send({
+                        achievements: [{ achievementId: 1024, amount: 1 }]
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when adding no progress',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/achievements/${userId}`)
+                    .send({ achievements: [{ achievementId: 3, amount: 0 }] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when adding to a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/achievements/0')
+                    .send({ achievements: [{ achievementId: 3, amount: 1 }] })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /achievements/:userId', (): void => {
+        mocha.it(
+            "Should get an user's achievements progress",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/achievements/${userId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(achievementProgressSchema)
+                        chai.expect(res.body.length).equal(2)
+                        chai.expect(res.body[1].achievement_id).equal(7)
+                        chai.expect(res.body[1].progress).equal(1)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/achievements/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + userId)
+            .send()
+            .then(() => {
+                serviceInstance.stop().then(() => {
+                    return done()
+                })
+            })
+    })
+})
@@ -0,0 +1,202 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const bossRushSchema = {
+    type: 'object',
+    required: [
+        'gamemode',
+        'played_matches',
+        'best_wave',
+        'best_clear_time',
+        'clears',
+        'bosses_defeated'
+    ],
+    properties: {
+        gamemode: {
+            type: 'number'
+        },
+        played_matches: {
+            type: 'number',
+            minimum: 1
+        },
+        best_wave: {
+            type: 'number'
+        },
+        best_clear_time: {
+            type: 'number'
+        },
+        clears: {
+            type: 'number'
+        },
+        bosses_defeated: {
+            type: 'number'
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Boss rush', (): void => {
+    let serviceInstance: ServiceInstance
+    let userId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                userId = res.body.id
+                return done()
+            })
+    })
+
+    mocha.describe('POST /bossrush/:userId', (): void => {
+        mocha.it('Should add a failed run', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/bossrush/${userId}`)
+                .send({
+                    gamemode: 44,
+                    wave: 5,
+                    clearTime: 0,
+                    bossesDefeated: 4
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(bossRushSchema)
+                    chai.expect(res.body.played_matches).equal(1)
+                    chai.expect(res.body.best_wave).equal(5)
+                    chai.expect(res.body.best_clear_time).equal(0)
+                    chai.expect(res.body.clears).equal(0)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should keep the best wave and the fastest clear time',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/bossrush/${userId}`)
+                    .send({
+                        gamemode: 44,
+                        wave: 3,
+                        clearTime: 900,
+                        bossesDefeated: 3
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(bossRushSchema)
+                        chai.expect(res.body.played_matches).equal(2)
+                        chai.expect(res.body.best_wave).equal(5)
+                        chai.expect(res.body.best_clear_time).equal(900)
+                        chai.expect(res.body.clears).equal(1)
+                        chai.expect(res.body.bosses_defeated).equal(7)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should not replace a clear time with a slower one',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/bossrush/${userId}`)
+                    .send({
+                        gamemode: 44,
+                        wave: 3,
+                        clearTime: 1200,
+                        bossesDefeated: 3
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.best_clear_time).equal(900)
+                        chai.expect(res.body.clears).equal(2)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 with a negative wave',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/bossrush/${userId}`)
+                    .send({ gamemode: 44, wave: -1 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when adding to a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/bossrush/0')
+                    .send({ gamemode: 44, wave: 1 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /bossrush/:userId', (): void => {
+        mocha.it(
+            "Should get an user's boss rush progress",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/bossrush/${userId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.length).equal(1)
+                        res.body[0].should.be.jsonSchema(bossRushSchema)
+                        chai.expect(res.body[0].gamemode).equal(44)
+                        chai.expect(res.body[0].played_matches).equal(3)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/bossrush/0')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + userId)
+            .send()
+            .then(() => {
+                serviceInstance.stop().then(() => {
+                    return done()
+                })
+            })
+    })
+})
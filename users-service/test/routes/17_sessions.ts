@@ -0,0 +1,212 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+import { SessionCounter } from 'sessioncounter'
+
+const sessionSchema = {
+    type: 'object',
+    required: ['user_id', 'session_id', 'ip_address', 'started_at'],
+    properties: {
+        user_id: {
+            type: 'number'
+        },
+        session_id: {
+            type: 'string'
+        },
+        ip_address: {
+            type: ['string', 'null']
+        },
+        started_at: {
+            type: 'string'
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Sessions', (): void => {
+    let serviceInstance: ServiceInstance
+    let userId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                userId = res.body.id
+                return done()
+            })
+    })
+
+    mocha.describe('POST /users/auth/login', (): void => {
+        mocha.it('Should start an online session', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/users/auth/login')
+                .send({
+                    username: 'testuser',
+                    password: '222222',
+                    ipAddress: '127.0.0.1',
+                    sessionId: 'first-session'
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    chai.expect(res.body.userId).equal(userId)
+                    chai.expect(res.body.replacedSessionId).equal(null)
+                    SessionCounter.Get().should.be.equal(1)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should replace the session when logging in again',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/auth/login')
+                    .send({
+                        username: 'testuser',
+                        password: '222222',
+                        ipAddress: '127.0.0.2',
+                        sessionId: 'second-session'
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.replacedSessionId).equal(
+                            'first-session'
+                        )
+                        SessionCounter.Get().should.be.equal(1)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /sessions/:userId', (): void => {
+        mocha.it(
+            "Should get an user's online session",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/sessions/${userId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(sessionSchema)
+                        chai.expect(res.body.session_id).equal('second-session')
+                        chai.expect(res.body.ip_address).equal('127.0.0.2')
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when getting a bad user ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/sessions/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('POST /users/auth/logout', (): void => {
+        mocha.it(
+            'Should not end the session with a replaced session ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/auth/logout')
+                    .send({
+                        userId,
+                        sessionId: 'first-session'
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        SessionCounter.Get().should.be.equal(1)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should end the session with its session ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/auth/logout')
+                    .send({
+                        userId,
+                        sessionId: 'second-session'
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        SessionCounter.Get().should.be.equal(0)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting an offline user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/sessions/${userId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('DELETE /sessions', (): void => {
+        mocha.before((done: Mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/users/auth/login')
+                .send({
+                    username: 'testuser',
+                    password: '222222'
+                })
+                .then(() => {
+                    return done()
+                })
+        })
+
+        mocha.it('Should end every session', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete('/sessions')
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.ended.should.be.at.least(1)
+                    SessionCounter.Get().should.be.equal(0)
+                    return done()
+                })
+        })
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + userId)
+            .send()
+            .then(() => {
+                serviceInstance.stop().then(() => {
+                    return done()
+                })
+            })
+    })
+})
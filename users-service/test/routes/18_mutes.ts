@@ -0,0 +1,217 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const muteSchema = {
+    type: 'object',
+    required: ['id', 'user_id', 'issuer_id', 'created_at', 'expires_at'],
+    properties: {
+        id: {
+            type: 'number',
+            minimum: 1
+        },
+        user_id: {
+            type: 'number'
+        },
+        issuer_id: {
+            type: ['number', 'null']
+        },
+        created_at: {
+            type: 'string'
+        },
+        expires_at: {
+            type: 'string'
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Mutes', (): void => {
+    let serviceInstance: ServiceInstance
+    let mutedUserId = -1
+    let issuerUserId = -1
+    let muteId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                mutedUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        issuerUserId = res.body.id
+                        return done()
+                    })
+            })
+    })
+
+    mocha.describe('POST /mutes', (): void => {
+        mocha.it('Should mute an user', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/mutes')
+                .send({
+                    userId: mutedUserId,
+                    issuerId: issuerUserId,
+                    durationMinutes: 30
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(201)
+                    res.body.should.be.jsonSchema(muteSchema)
+                    chai.expect(res.body.user_id).equal(mutedUserId)
+                    chai.expect(res.body.issuer_id).equal(issuerUserId)
+                    muteId = res.body.id
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when muting without a duration',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/mutes')
+                    .send({ userId: mutedUserId, issuerId: issuerUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when muting with an invalid duration',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/mutes')
+                    .send({ userId: mutedUserId, durationMinutes: 0 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when muting a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/mutes')
+                    .send({ userId: 0, durationMinutes: 30 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /mutes/byuser/:userId', (): void => {
+        mocha.it(
+            "Should get an user's active mute",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/mutes/byuser/${mutedUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(muteSchema)
+                        chai.expect(res.body.id).equal(muteId)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when the user is not muted',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/mutes/byuser/${issuerUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when getting a mute with a bad user ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/mutes/byuser/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('DELETE /mutes/byuser/:userId', (): void => {
+        mocha.it("Should lift an user's mute", (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete(`/mutes/byuser/${mutedUserId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+
+                    chai.request(serviceInstance.app)
+                        .get(`/mutes/byuser/${mutedUserId}`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                })
+        })
+        mocha.it(
+            'Should 404 when lifting the mute of an unmuted user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .delete(`/mutes/byuser/${mutedUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + mutedUserId)
+            .send()
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + issuerUserId)
+                    .send()
+                    .then(() => {
+                        serviceInstance.stop().then(() => {
+                            return done()
+                        })
+                    })
+            })
+    })
+})
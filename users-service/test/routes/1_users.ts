@@ -27,6 +27,7 @@ const userSchema = {
         'playername',
 
         'gm',
+        'gm_level',
 
         'points',
         'cash',
@@ -66,6 +67,7 @@ const userSchema = {
         'clan_mark',
 
         'world_rank',
+        'ranked_rating',
 
         'best_gamemode',
         'best_map',
@@ -92,6 +94,9 @@ const userSchema = {
         gm: {
             type: 'boolean'
         },
+        gm_level: {
+            type: 'number'
+        },
 
         points: {
             type: 'number'
@@ -212,6 +217,9 @@ const userSchema = {
         world_rank: {
             type: 'number'
         },
+        ranked_rating: {
+            type: 'number'
+        },
 
         best_gamemode: {
             type: 'number'
@@ -650,6 +658,270 @@ mocha.describe('Users', (): void => {
         })
     })
 
+    mocha.describe('POST /users/:userId/currencies', (): void => {
+        let createdUser: number = 0
+
+        mocha.before((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/users')
+                .send({
+                    username: 'testuser',
+                    playername: 'TestingUser',
+                    password: '222222',
+                    security_question: 1,
+                    security_answer: 'cool dude'
+                })
+                .then((res: superagent.Response) => {
+                    createdUser = res.body.id
+                    return chai
+                        .request(serviceInstance.app)
+                        .put('/users/' + createdUser)
+                        .send({
+                            points: 1000,
+                            cash: 0,
+                            mpoints: 0
+                        })
+                })
+                .then(() => {
+                    return done()
+                })
+        })
+
+        mocha.it(
+            "Should charge an user's currencies",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/users/${createdUser}/currencies`)
+                    .send({
+                        points: -600,
+                        mpoints: 30
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.points).equal(400)
+                        chai.expect(res.body.cash).equal(0)
+                        chai.expect(res.body.mpoints).equal(30)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should 409 when the user can't afford the charge",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/users/${createdUser}/currencies`)
+                    .send({
+                        points: -600,
+                        mpoints: 30
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Check if the user's currencies were kept after a failed charge",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/users/' + createdUser)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.points).equal(400)
+                        chai.expect(res.body.mpoints).equal(30)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when sending a bad amount',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/users/${createdUser}/currencies`)
+                    .send({
+                        points: 'bad'
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should 404 when charging an unexisting user's currencies",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/404/currencies')
+                    .send({
+                        points: -1
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+
+        mocha.after((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete('/users/' + createdUser)
+                .send()
+                .then(() => {
+                    return done()
+                })
+        })
+    })
+
+    mocha.describe('POST /users/:userId/campaigns', (): void => {
+        let createdUser: number = 0
+
+        mocha.before((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/users')
+                .send({
+                    username: 'testuser',
+                    playername: 'TestingUser',
+                    password: '222222',
+                    security_question: 1,
+                    security_answer: 'cool dude'
+                })
+                .then((res: superagent.Response) => {
+                    createdUser = res.body.id
+                    return chai
+                        .request(serviceInstance.app)
+                        .post(`/inventory/${createdUser}`)
+                })
+                .then(() => {
+                    return done()
+                })
+        })
+
+        mocha.it(
+            "Should give an user a campaign's rewards",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/users/${createdUser}/campaigns`)
+                    .send({
+                        campaignId: 4,
+                        points: 5000,
+                        items: [{ itemId: 1001, ammount: 1 }],
+                        level: 2
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.points).equal(5000)
+
+                        chai.request(serviceInstance.app)
+                            .get(`/users/${createdUser}`)
+                            .end(
+                                (
+                                    err: Error,
+                                    res: superagent.Response
+                                ): void => {
+                                    res.should.be.status(200)
+                                    chai.expect(res.body.campaign_flags).equal(
+                                        4
+                                    )
+                                    chai.expect(res.body.level).equal(2)
+                                    return done()
+                                }
+                            )
+                    })
+            }
+        )
+        mocha.it(
+            "Should add the campaign's items to the user's inventory",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/inventory/${createdUser}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(
+                            res.body.items.filter(
+                                (item: { item_id: number }) =>
+                                    item.item_id === 1001
+                            ).length
+                        ).equal(1)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 409 when the user already finished the campaign',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/users/${createdUser}/campaigns`)
+                    .send({
+                        campaignId: 4,
+                        points: 5000,
+                        items: [{ itemId: 1001, ammount: 1 }]
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+
+                        chai.request(serviceInstance.app)
+                            .get(`/inventory/${createdUser}`)
+                            .end(
+                                (
+                                    err: Error,
+                                    res: superagent.Response
+                                ): void => {
+                                    chai.expect(
+                                        res.body.items.filter(
+                                            (item: { item_id: number }) =>
+                                                item.item_id === 1001
+                                        ).length
+                                    ).equal(1)
+                                    return done()
+                                }
+                            )
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when sending a bad campaign ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/users/${createdUser}/campaigns`)
+                    .send({
+                        campaignId: 'bad'
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should 404 when rewarding an unexisting user's campaign",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/users/404/campaigns')
+                    .send({
+                        campaignId: 4
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+
+        mocha.after((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete(`/inventory/${createdUser}`)
+                .then(() => {
+                    return chai
+                        .request(serviceInstance.app)
+                        .delete('/users/' + createdUser)
+                        .send()
+                })
+                .then(() => {
+                    return done()
+                })
+        })
+    })
+
     mocha.describe('DELETE /users/:userId', (): void => {
         let firstUser: number = 0
         let secondUser: number = 0
@@ -797,6 +1069,60 @@ mocha.describe('Users', (): void => {
         })
     })
 
+    mocha.describe('GET /users/byplayername/:playername', (): void => {
+        let createdUserId: number = 0
+
+        mocha.before((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/users')
+                .send({
+                    username: 'testuser',
+                    playername: 'TestingUser',
+                    password: '222222',
+                    security_question: 1,
+                    security_answer: 'cool dude'
+                })
+                .then((res: superagent.Response) => {
+                    createdUserId = res.body.id
+                    return done()
+                })
+        })
+
+        mocha.it(
+            'Should get a specific user by its player name',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/users/byplayername/TestingUser')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(userSchema)
+                        res.body.id.should.equal(createdUserId)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing player name',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/users/byplayername/IDontExist')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+
+        mocha.after((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete('/users/' + createdUserId)
+                .send()
+                .then(() => {
+                    return done()
+                })
+        })
+    })
+
     mocha.describe(
         'POST /users/auth/login and /users/auth/logout',
         (): void => {
@@ -343,6 +343,144 @@ mocha.describe("User's a inventory", (): void => {
         })
     })
 
+    mocha.describe('POST /inventory/:userId/unlock', (): void => {
+        mocha.before((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/inventory/${firstUserId}`)
+                .then(() => {
+                    return done()
+                })
+        })
+
+        mocha.it(
+            'Should charge the user and add the item to its inventory',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/inventory/${firstUserId}/unlock`)
+                    .send({
+                        itemId: 12345,
+                        mpoints: 1000
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.mpoints).equal(29000)
+
+                        chai.request(serviceInstance.app)
+                            .get(`/inventory/${firstUserId}`)
+                            .end(
+                                (
+                                    err: Error,
+                                    res: superagent.Response
+                                ): void => {
+                                    res.should.be.status(200)
+                                    chai.expect(
+                                        res.body.items.some(
+                                            (item: { item_id: number }) =>
+                                                item.item_id === 12345
+                                        )
+                                    ).equal(true)
+                                    return done()
+                                }
+                            )
+                    })
+            }
+        )
+        mocha.it(
+            'Should 409 when unlocking an item the user already owns',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/inventory/${firstUserId}/unlock`)
+                    .send({
+                        itemId: 12345,
+                        mpoints: 1000
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+
+                        chai.request(serviceInstance.app)
+                            .get(`/users/${firstUserId}`)
+                            .end(
+                                (
+                                    err: Error,
+                                    res: superagent.Response
+                                ): void => {
+                                    chai.expect(res.body.mpoints).equal(29000)
+                                    return done()
+                                }
+                            )
+                    })
+            }
+        )
+        mocha.it(
+            "Should 409 when unlocking an item the user can't afford",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/inventory/${firstUserId}/unlock`)
+                    .send({
+                        itemId: 54321,
+                        mpoints: 100000
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when unlocking an item with a negative price',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/inventory/${firstUserId}/unlock`)
+                    .send({
+                        itemId: 54321,
+                        mpoints: -1000
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when unlocking an item with a string as owner ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/inventory/bad/unlock')
+                    .send({
+                        itemId: 54321,
+                        mpoints: 1000
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when unlocking an item for a non existing inventory',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/inventory/404/unlock')
+                    .send({
+                        itemId: 54321,
+                        mpoints: 1000
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+
+        mocha.after((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .delete(`/inventory/${firstUserId}`)
+                .then(() => {
+                    return done()
+                })
+        })
+    })
+
     mocha.describe('DELETE /inventory/:userId/item', (): void => {
         mocha.before((done: mocha.Done): void => {
             chai.request(serviceInstance.app)
@@ -0,0 +1,400 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+import { FriendStatus } from 'entities/friend'
+
+const friendsSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['user_id', 'friend_id', 'status', 'playername'],
+        properties: {
+            user_id: {
+                type: 'number',
+                minimum: 1
+            },
+            friend_id: {
+                type: 'number',
+                minimum: 1
+            },
+            status: {
+                type: 'number',
+                minimum: 0,
+                maximum: 2
+            },
+            playername: {
+                type: 'string'
+            }
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe("User's friends", (): void => {
+    let serviceInstance: ServiceInstance
+    let firstUserId = -1
+    let secondUserId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                firstUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        secondUserId = res.body.id
+                        return done()
+                    })
+            })
+    })
+
+    mocha.describe('POST /friends/:userId/request', (): void => {
+        mocha.it('Should send a friend request', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/friends/${firstUserId}/request`)
+                .send({ friendId: secondUserId })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(201)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 409 when sending the same friend request twice',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${firstUserId}/request`)
+                    .send({ friendId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when sending a friend request to itself',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${firstUserId}/request`)
+                    .send({ friendId: firstUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when sending a friend request without a friend ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${firstUserId}/request`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when sending a friend request to a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${firstUserId}/request`)
+                    .send({ friendId: 404 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /friends/:userId', (): void => {
+        mocha.it(
+            "Should get the requested user's incoming friend request",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/friends/${secondUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        res.body.should.be.jsonSchema(friendsSchema)
+                        chai.expect(res.body.length).equal(1)
+                        chai.expect(res.body[0].user_id).equal(firstUserId)
+                        chai.expect(res.body[0].status).equal(
+                            FriendStatus.Pending
+                        )
+                        chai.expect(res.body[0].playername).equal('TestingUser')
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when getting friends with an invalid user ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/friends/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should 404 when getting a non existing user's friends",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/friends/404')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe(
+        'POST /friends/:userId/accept and /friends/:userId/remove',
+        (): void => {
+            mocha.it(
+                'Should accept a friend request',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/friends/${secondUserId}/accept`)
+                        .send({ friendId: firstUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(200)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should list both users as friends',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .get(`/friends/${firstUserId}`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(200)
+                            res.body.should.be.jsonSchema(friendsSchema)
+                            chai.expect(res.body.length).equal(1)
+                            chai.expect(res.body[0].friend_id).equal(
+                                secondUserId
+                            )
+                            chai.expect(res.body[0].status).equal(
+                                FriendStatus.Accepted
+                            )
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should 404 when accepting a non existing friend request',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/friends/${secondUserId}/accept`)
+                        .send({ friendId: firstUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it('Should remove a friend', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${firstUserId}/remove`)
+                    .send({ friendId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Should 404 when removing an user that is not a friend',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/friends/${secondUserId}/remove`)
+                        .send({ friendId: firstUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should make friends of two users requesting each other at once',
+                (done: mocha.Done): void => {
+                    Promise.all([
+                        chai
+                            .request(serviceInstance.app)
+                            .post(`/friends/${firstUserId}/request`)
+                            .send({ friendId: secondUserId }),
+                        chai
+                            .request(serviceInstance.app)
+                            .post(`/friends/${secondUserId}/request`)
+                            .send({ friendId: firstUserId })
+                    ])
+                        .then((results: superagent.Response[]) => {
+                            chai.expect(
+                                results
+                                    .map(
+                                        (res: superagent.Response) => res.status
+                                    )
+                                    .sort()
+                            ).deep.equal([200, 201])
+                            return chai
+                                .request(serviceInstance.app)
+                                .post(`/friends/${firstUserId}/remove`)
+                                .send({ friendId: secondUserId })
+                        })
+                        .then((res: superagent.Response) => {
+                            res.should.be.status(200)
+                            return done()
+                        })
+                        .catch(done)
+                }
+            )
+        }
+    )
+
+    mocha.describe('POST /friends/:userId/decline', (): void => {
+        mocha.before((done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/friends/${firstUserId}/request`)
+                .send({ friendId: secondUserId })
+                .then(() => {
+                    return done()
+                })
+        })
+
+        mocha.it(
+            'Should decline a friend request',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${secondUserId}/decline`)
+                    .send({ friendId: firstUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when declining a non existing friend request',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${secondUserId}/decline`)
+                    .send({ friendId: firstUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe(
+        'POST /friends/:userId/block and /friends/:userId/unblock',
+        (): void => {
+            mocha.it('Should block an user', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${secondUserId}/block`)
+                    .send({ friendId: firstUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Should 403 when sending a friend request to an user that blocked the requester',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/friends/${firstUserId}/request`)
+                        .send({ friendId: secondUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(403)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should 404 when blocking a non existing user',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/friends/${secondUserId}/block`)
+                        .send({ friendId: 404 })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it('Should unblock an user', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/friends/${secondUserId}/unblock`)
+                    .send({ friendId: firstUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Should 404 when unblocking an user that is not blocked',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/friends/${secondUserId}/unblock`)
+                        .send({ friendId: firstUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+        }
+    )
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + firstUserId)
+            .send()
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + secondUserId)
+                    .send()
+                    .then(() => {
+                        serviceInstance.stop().then(() => {
+                            return done()
+                        })
+                    })
+            })
+    })
+})
@@ -0,0 +1,349 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+const mailSchema = {
+    type: 'object',
+    required: [
+        'id',
+        'owner_id',
+        'sender_id',
+        'sender_name',
+        'message',
+        'item_id',
+        'item_ammount',
+        'is_read',
+        'sent_at'
+    ],
+    properties: {
+        id: {
+            type: 'number',
+            minimum: 1
+        },
+        owner_id: {
+            type: 'number',
+            minimum: 1
+        },
+        sender_id: {
+            type: ['number', 'null']
+        },
+        sender_name: {
+            type: 'string'
+        },
+        message: {
+            type: 'string'
+        },
+        item_id: {
+            type: 'number',
+            minimum: 0
+        },
+        item_ammount: {
+            type: 'number',
+            minimum: 0
+        },
+        is_read: {
+            type: 'boolean'
+        },
+        sent_at: {
+            type: 'string'
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe("User's mailbox", (): void => {
+    let serviceInstance: ServiceInstance
+    let firstUserId = -1
+    let secondUserId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                firstUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        secondUserId = res.body.id
+
+                        chai.request(serviceInstance.app)
+                            .post(`/inventory/${secondUserId}`)
+                            .then(() => {
+                                return done()
+                            })
+                    })
+            })
+    })
+
+    mocha.describe('POST /mailbox/:userId', (): void => {
+        mocha.it('Should send a mail', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/mailbox/${secondUserId}`)
+                .send({
+                    senderId: firstUserId,
+                    senderName: 'TestingUser',
+                    message: 'hello there'
+                })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(201)
+                    res.body.should.be.jsonSchema(mailSchema)
+                    chai.expect(res.body.is_read).equal(false)
+                    chai.expect(res.body.item_id).equal(0)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should send a mail with an item attached',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/mailbox/${secondUserId}`)
+                    .send({
+                        senderName: 'GM',
+                        message: 'a gift',
+                        itemId: 1001,
+                        ammount: 1
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(201)
+                        res.body.should.be.jsonSchema(mailSchema)
+                        chai.expect(res.body.item_id).equal(1001)
+                        chai.expect(res.body.item_ammount).equal(1)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Check if the unread mail counter was updated',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/users/${secondUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.unreaded_message).equal(2)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when sending a mail without a message',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/mailbox/${secondUserId}`)
+                    .send({ senderName: 'TestingUser' })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when sending a mail to a non existing user',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/mailbox/404')
+                    .send({ senderName: 'TestingUser', message: 'hi' })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /mailbox/:userId', (): void => {
+        mocha.it("Should get an user's mails", (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/mailbox/${secondUserId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema({
+                        type: 'array',
+                        items: mailSchema
+                    })
+                    chai.expect(res.body.length).equal(2)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when getting mails with an invalid user ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/mailbox/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should 404 when getting a non existing user's mails",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/mailbox/404')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe(
+        'PUT /mailbox/:userId/:mailId/read, POST /mailbox/:userId/:mailId/claim and DELETE /mailbox/:userId/:mailId',
+        (): void => {
+            let mailId = -1
+
+            mocha.before((done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/mailbox/${secondUserId}`)
+                    .send({
+                        senderName: 'GM',
+                        message: 'another gift',
+                        itemId: 1002,
+                        ammount: 1
+                    })
+                    .then((res: superagent.Response) => {
+                        mailId = res.body.id
+                        return done()
+                    })
+            })
+
+            mocha.it('Should mark a mail as read', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/mailbox/${secondUserId}/${mailId}/read`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Check if the mail was marked as read',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .get(`/mailbox/${secondUserId}/${mailId}`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(200)
+                            res.body.should.be.jsonSchema(mailSchema)
+                            chai.expect(res.body.is_read).equal(true)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                "Should 404 when marking another user's mail as read",
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .put(`/mailbox/${firstUserId}/${mailId}/read`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                "Should claim a mail's attached item",
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/mailbox/${secondUserId}/${mailId}/claim`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(200)
+                            chai.expect(res.body.item_id).equal(1002)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should 404 when claiming an already claimed item',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/mailbox/${secondUserId}/${mailId}/claim`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it('Should delete a mail', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .delete(`/mailbox/${secondUserId}/${mailId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Should 404 when deleting a non existing mail',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .delete(`/mailbox/${secondUserId}/${mailId}`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should 400 when deleting a mail with an invalid ID',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .delete(`/mailbox/${secondUserId}/bad`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(400)
+                            return done()
+                        })
+                }
+            )
+        }
+    )
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete(`/inventory/${secondUserId}`)
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + firstUserId)
+                    .send()
+                    .then(() => {
+                        chai.request(serviceInstance.app)
+                            .delete('/users/' + secondUserId)
+                            .send()
+                            .then(() => {
+                                serviceInstance.stop().then(() => {
+                                    return done()
+                                })
+                            })
+                    })
+            })
+    })
+})
@@ -0,0 +1,628 @@
+import chai from 'chai'
+import chaiHttp from 'chai-http'
+import chaiJson from 'chai-json-schema'
+import mocha from 'mocha'
+import superagent from 'superagent'
+
+// add the src directory to the module search path
+import { addPath } from 'app-module-path'
+addPath(__dirname + '/../../src')
+
+import { ServiceInstance } from 'serviceinstance'
+
+import { ClanRole } from 'entities/clanmember'
+
+const clanSchema = {
+    type: 'object',
+    required: ['id', 'name', 'mark', 'created_at'],
+    properties: {
+        id: {
+            type: 'number',
+            minimum: 1
+        },
+        name: {
+            type: 'string'
+        },
+        mark: {
+            type: 'number',
+            minimum: 0,
+            maximum: 10
+        },
+        created_at: {
+            type: 'string'
+        }
+    }
+}
+
+const membersSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['user_id', 'clan_id', 'role', 'joined_at', 'playername'],
+        properties: {
+            user_id: {
+                type: 'number',
+                minimum: 1
+            },
+            clan_id: {
+                type: 'number',
+                minimum: 1
+            },
+            role: {
+                type: 'number',
+                minimum: 0,
+                maximum: 2
+            },
+            joined_at: {
+                type: 'string'
+            },
+            playername: {
+                type: 'string'
+            }
+        }
+    }
+}
+
+// setup chai
+chai.should()
+chai.use(chaiHttp)
+chai.use(chaiJson)
+
+mocha.describe('Clans', (): void => {
+    let serviceInstance: ServiceInstance
+    let masterUserId = -1
+    let secondUserId = -1
+    let thirdUserId = -1
+    let clanId = -1
+
+    mocha.before((done: Mocha.Done): void => {
+        // start service instance
+        serviceInstance = new ServiceInstance()
+        serviceInstance.listen()
+
+        chai.request(serviceInstance.app)
+            .post('/users')
+            .send({
+                username: 'testuser',
+                playername: 'TestingUser',
+                password: '222222',
+                security_question: 1,
+                security_answer: 'cool dude'
+            })
+            .then((res: superagent.Response) => {
+                masterUserId = res.body.id
+
+                chai.request(serviceInstance.app)
+                    .post('/users')
+                    .send({
+                        username: 'another_test_user',
+                        playername: 'AnotherTestUser',
+                        password: '123564',
+                        security_question: 1,
+                        security_answer: 'cool dude'
+                    })
+                    .then((res: superagent.Response) => {
+                        secondUserId = res.body.id
+
+                        chai.request(serviceInstance.app)
+                            .post('/users')
+                            .send({
+                                username: 'third_test_user',
+                                playername: 'ThirdTestUser',
+                                password: '654321',
+                                security_question: 1,
+                                security_answer: 'cool dude'
+                            })
+                            .then((res: superagent.Response) => {
+                                thirdUserId = res.body.id
+                                return done()
+                            })
+                    })
+            })
+    })
+
+    mocha.describe('POST /clans', (): void => {
+        mocha.it('Should create a clan', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post('/clans')
+                .send({ name: 'TestClan', ownerId: masterUserId, mark: 1 })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(201)
+                    res.body.should.be.jsonSchema(clanSchema)
+                    chai.expect(res.body.name).equal('TestClan')
+                    clanId = res.body.id
+                    return done()
+                })
+        })
+        mocha.it(
+            "Check if the clan is shown in the creator's profile",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/users/${masterUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.clan_name).equal('TestClan')
+                        chai.expect(res.body.clan_mark).equal(1)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 409 when creating a clan with a taken name',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/clans')
+                    .send({ name: 'TestClan', ownerId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 409 when creating a clan while being in another one',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/clans')
+                    .send({ name: 'AnotherClan', ownerId: masterUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(409)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when creating a clan without a name',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/clans')
+                    .send({ ownerId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when creating a clan with an invalid mark',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/clans')
+                    .send({ name: 'BadClan', ownerId: secondUserId, mark: 11 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when creating a clan with a non existing owner',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post('/clans')
+                    .send({ name: 'GhostClan', ownerId: 404 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /clans/:clanId', (): void => {
+        mocha.it('Should get a clan', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/clans/${clanId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(clanSchema)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Should 400 when getting a clan with an invalid ID',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/clans/bad')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 404 when getting a non existing clan',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get('/clans/404')
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('GET /clans/byuser/:userId', (): void => {
+        mocha.it("Should get an user's clan", (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .get(`/clans/byuser/${masterUserId}`)
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    res.body.should.be.jsonSchema(clanSchema)
+                    chai.expect(res.body.id).equal(clanId)
+                    return done()
+                })
+        })
+        mocha.it(
+            "Should 404 when getting the clan of an user that isn't in one",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/clans/byuser/${secondUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe(
+        'POST /clans/:clanId/invite and POST /clans/:clanId/join',
+        (): void => {
+            mocha.it(
+                'Should 403 when inviting without being in the clan',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/clans/${clanId}/invite`)
+                        .send({ userId: secondUserId, targetId: thirdUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(403)
+                            return done()
+                        })
+                }
+            )
+            mocha.it('Should invite an user', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/clans/${clanId}/invite`)
+                    .send({ userId: masterUserId, targetId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Should 409 when inviting the same user twice',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/clans/${clanId}/invite`)
+                        .send({ userId: masterUserId, targetId: secondUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(409)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should 404 when inviting a non existing user',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/clans/${clanId}/invite`)
+                        .send({ userId: masterUserId, targetId: 404 })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(404)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                'Should 403 when joining a clan without an invite',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/clans/${clanId}/join`)
+                        .send({ userId: thirdUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(403)
+                            return done()
+                        })
+                }
+            )
+            mocha.it('Should join a clan', (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/clans/${clanId}/join`)
+                    .send({ userId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            })
+            mocha.it(
+                'Should 409 when joining a clan while being in one',
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .post(`/clans/${clanId}/join`)
+                        .send({ userId: secondUserId })
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(409)
+                            return done()
+                        })
+                }
+            )
+            mocha.it(
+                "Check if the clan's members were updated",
+                (done: mocha.Done): void => {
+                    chai.request(serviceInstance.app)
+                        .get(`/clans/${clanId}/members`)
+                        .end((err: Error, res: superagent.Response): void => {
+                            res.should.be.status(200)
+                            res.body.should.be.jsonSchema(membersSchema)
+                            chai.expect(res.body.length).equal(2)
+                            chai.expect(res.body[0].user_id).equal(masterUserId)
+                            chai.expect(res.body[0].role).equal(ClanRole.Master)
+                            return done()
+                        })
+                }
+            )
+        }
+    )
+
+    mocha.describe('PUT /clans/:clanId/role', (): void => {
+        mocha.it(
+            "Should 403 when a non master changes someone's role",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/clans/${clanId}/role`)
+                    .send({
+                        userId: secondUserId,
+                        targetId: masterUserId,
+                        role: ClanRole.Member
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when setting an invalid role',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/clans/${clanId}/role`)
+                    .send({
+                        userId: masterUserId,
+                        targetId: secondUserId,
+                        role: 5
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should promote a member to officer',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/clans/${clanId}/role`)
+                    .send({
+                        userId: masterUserId,
+                        targetId: secondUserId,
+                        role: ClanRole.Officer
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            "Should 404 when changing the role of someone that isn't a member",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/clans/${clanId}/role`)
+                    .send({
+                        userId: masterUserId,
+                        targetId: thirdUserId,
+                        role: ClanRole.Officer
+                    })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('POST /clans/:clanId/kick', (): void => {
+        mocha.before((done: mocha.Done): void => {
+            // the officer invites a new member
+            chai.request(serviceInstance.app)
+                .post(`/clans/${clanId}/invite`)
+                .send({ userId: secondUserId, targetId: thirdUserId })
+                .then(() => {
+                    chai.request(serviceInstance.app)
+                        .post(`/clans/${clanId}/join`)
+                        .send({ userId: thirdUserId })
+                        .then(() => {
+                            return done()
+                        })
+                })
+        })
+
+        mocha.it(
+            'Should 403 when kicking someone with a higher role',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/clans/${clanId}/kick`)
+                    .send({ userId: thirdUserId, targetId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        return done()
+                    })
+            }
+        )
+        mocha.it('Should kick a member', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/clans/${clanId}/kick`)
+                .send({ userId: secondUserId, targetId: thirdUserId })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    return done()
+                })
+        })
+        mocha.it(
+            "Check if the clan was removed from the kicked member's profile",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/users/${thirdUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.clan_name).equal('')
+                        chai.expect(res.body.clan_mark).equal(0)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('PUT /clans/:clanId/mark', (): void => {
+        mocha.it(
+            "Should 403 when a non master changes the clan's mark",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/clans/${clanId}/mark`)
+                    .send({ userId: secondUserId, mark: 2 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        return done()
+                    })
+            }
+        )
+        mocha.it(
+            'Should 400 when setting an invalid mark',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .put(`/clans/${clanId}/mark`)
+                    .send({ userId: masterUserId, mark: 11 })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(400)
+                        return done()
+                    })
+            }
+        )
+        mocha.it("Should change the clan's mark", (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .put(`/clans/${clanId}/mark`)
+                .send({ userId: masterUserId, mark: 3 })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    return done()
+                })
+        })
+        mocha.it(
+            "Check if the mark was updated in the members' profiles",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/users/${secondUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(200)
+                        chai.expect(res.body.clan_name).equal('TestClan')
+                        chai.expect(res.body.clan_mark).equal(3)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('POST /clans/:clanId/leave', (): void => {
+        mocha.it(
+            'Should 403 when the clan master leaves the clan',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/clans/${clanId}/leave`)
+                    .send({ userId: masterUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        return done()
+                    })
+            }
+        )
+        mocha.it('Should leave a clan', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/clans/${clanId}/leave`)
+                .send({ userId: secondUserId })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    return done()
+                })
+        })
+        mocha.it(
+            "Should 404 when leaving a clan the user isn't in",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/clans/${clanId}/leave`)
+                    .send({ userId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.describe('POST /clans/:clanId/disband', (): void => {
+        mocha.it(
+            "Should 403 when someone that isn't the master disbands the clan",
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .post(`/clans/${clanId}/disband`)
+                    .send({ userId: secondUserId })
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(403)
+                        return done()
+                    })
+            }
+        )
+        mocha.it('Should disband a clan', (done: mocha.Done): void => {
+            chai.request(serviceInstance.app)
+                .post(`/clans/${clanId}/disband`)
+                .send({ userId: masterUserId })
+                .end((err: Error, res: superagent.Response): void => {
+                    res.should.be.status(200)
+                    return done()
+                })
+        })
+        mocha.it(
+            'Check if the clan was disbanded',
+            (done: mocha.Done): void => {
+                chai.request(serviceInstance.app)
+                    .get(`/clans/byuser/${masterUserId}`)
+                    .end((err: Error, res: superagent.Response): void => {
+                        res.should.be.status(404)
+                        return done()
+                    })
+            }
+        )
+    })
+
+    mocha.after((done: Mocha.Done) => {
+        chai.request(serviceInstance.app)
+            .delete('/users/' + masterUserId)
+            .send()
+            .then(() => {
+                chai.request(serviceInstance.app)
+                    .delete('/users/' + secondUserId)
+                    .send()
+                    .then(() => {
+                        chai.request(serviceInstance.app)
+                            .delete('/users/' + thirdUserId)
+                            .send()
+                            .then(() => {
+                                serviceInstance.stop().then(() => {
+                                    return done()
+                                })
+                            })
+                    })
+            })
+    })
+})
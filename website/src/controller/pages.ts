@@ -2,7 +2,14 @@ import express from 'express'
 
 import { UsersService } from 'services/usersservice'
 import { InventoryService } from 'services/inventoryservice'
-
+import { LeaderboardsService } from 'services/leaderboardsservice'
+
+import {
+  getLeaderboardCategory,
+  LEADERBOARD_CATEGORIES,
+  LEADERBOARD_MIN_MATCHES,
+  LEADERBOARD_PAGE_LENGTH
+} from 'leaderboards'
 import { MapImageList } from 'maps'
 import { FORM_SECURITY_QUESTIONS } from 'securityquestions'
 import { WebSession } from 'websession'
@@ -34,6 +41,9 @@ export class PagesController {
     app.route('/user/delete').get(async (req, res) => {
       await PagesController.OnGetUserDelete(req, res)
     })
+    app.route('/leaderboard').get(async (req, res) => {
+      await PagesController.OnGetLeaderboard(req, res)
+    })
     app.route('/recover_pw').get(async (req, res) => {
       await PagesController.OnGetRecoverPw(req, res)
     })
@@ -218,6 +228,57 @@ export class PagesController {
     PagesController.cleanUpStatus(req)
   }
 
+  /**
+   * called when a GET request to /leaderboard is done
+   * renders a page of a players leaderboard
+   * @param req the request data
+   * @param res the response data
+   */
+  private static async OnGetLeaderboard(
+    req: express.Request,
+    res: express.Response
+  ): Promise<void> {
+    type getLeaderboardQuery = {
+      category: string
+      page: string
+    }
+
+    const query = req.query as getLeaderboardQuery
+    const category = getLeaderboardCategory(query.category)
+
+    let page = Math.floor(Number(query.page))
+
+    if (isNaN(page) || page < 1) {
+      page = 1
+    }
+
+    const session = req.session as WebSession
+    const [entries, numSessions] = await Promise.all([
+      LeaderboardsService.GetPage(
+        category.name,
+        LEADERBOARD_MIN_MATCHES,
+        (page - 1) * LEADERBOARD_PAGE_LENGTH,
+        LEADERBOARD_PAGE_LENGTH
+      ),
+      UsersService.getSessions()
+    ])
+
+    res.render('leaderboard', {
+      categories: LEADERBOARD_CATEGORIES,
+      category,
+      entries,
+      page,
+      hasNextPage:
+        entries != null && entries.length === LEADERBOARD_PAGE_LENGTH,
+      minMatches: LEADERBOARD_MIN_MATCHES,
+      playersOnline: numSessions,
+      mapImage: MapImageList.getRandomFile(),
+      session
+    })
+
+    PagesController.cleanUpStatus(req)
+  }
+
   /**
    * called when a GET request to /recover_pw is done
    * renders the recover password page
@@ -0,0 +1,12 @@
+/**
+ * an user's position in a leaderboard
+ */
+export class LeaderboardEntry {
+  public position: number
+  public user_id: number
+  public playername: string
+  public level: number
+  public played_matches: number
+  public clan_name: string
+  public value: number
+}
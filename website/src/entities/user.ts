@@ -51,6 +51,7 @@ export class User {
   public clan_mark: number
 
   public world_rank: number
+  public ranked_rating: number
 
   public best_gamemode: number
   public best_map: number
@@ -0,0 +1,79 @@
+/**
+ * a leaderboard shown in the website
+ */
+export interface ILeaderboardCategory {
+  // the category's name in the users service
+  name: string
+  // the category's name shown to the players
+  title: string
+  // the title of the leaderboard's value column
+  valueTitle: string
+  // true if the value is a ratio that should be shown as a percentage
+  isPercentage: boolean
+  // true if the value is a ratio that should be shown with decimals
+  isRatio: boolean
+}
+
+export const LEADERBOARD_CATEGORIES: ILeaderboardCategory[] = [
+  {
+    name: 'kills',
+    title: 'Kills',
+    valueTitle: 'Kills',
+    isPercentage: false,
+    isRatio: false
+  },
+  {
+    name: 'kdratio',
+    title: 'K/D ratio',
+    valueTitle: 'K/D',
+    isPercentage: false,
+    isRatio: true
+  },
+  {
+    name: 'wins',
+    title: 'Wins',
+    valueTitle: 'Wins',
+    isPercentage: false,
+    isRatio: false
+  },
+  {
+    name: 'winrate',
+    title: 'Win rate',
+    valueTitle: 'Win rate',
+    isPercentage: true,
+    isRatio: false
+  },
+  {
+    name: 'hsrate',
+    title: 'Headshot rate',
+    valueTitle: 'Headshots',
+    isPercentage: true,
+    isRatio: false
+  },
+  {
+    name: 'level',
+    title: 'Level',
+    valueTitle: 'Level',
+    isPercentage: false,
+    isRatio: false
+  }
+]
+
+// the players need to have played this many matches to be listed
+export const LEADERBOARD_MIN_MATCHES = 10
+export const LEADERBOARD_PAGE_LENGTH = 50
+
+/**
+ * get a leaderboard by its name
+ * @param name the leaderboard's name
+ * @returns the leaderboard if found, the first leaderboard otherwise
+ */
+export function getLeaderboardCategory(name: string): ILeaderboardCategory {
+  for (const category of LEADERBOARD_CATEGORIES) {
+    if (category.name === name) {
+      return category
+    }
+  }
+
+  return LEADERBOARD_CATEGORIES[0]
+}
@@ -0,0 +1,56 @@
+import LRU from 'lru-cache'
+import superagent from 'superagent'
+
+import { userSvcAuthority, UserSvcPing } from 'authorities'
+import { LeaderboardEntry } from 'entities/leaderboardentry'
+
+export class LeaderboardsService {
+  /**
+   * get a page of a leaderboard
+   * @param category the leaderboard's category
+   * @param minMatches the matches a player must have played to be listed
+   * @param offset the position of the page's first player, starting at 0
+   * @param length the page's length
+   * @returns the leaderboard's entries, null if the service is down
+   */
+  public static async GetPage(
+    category: string,
+    minMatches: number,
+    offset: number,
+    length: number
+  ): Promise<LeaderboardEntry[]> {
+    try {
+      const cacheKey = `${category}:${minMatches}:${offset}:${length}`
+      const cachedPage = leaderboardCache.get(cacheKey)
+
+      if (cachedPage != null) {
+        return cachedPage
+      }
+
+      if (UserSvcPing.isAlive() === false) {
+        return null
+      }
+
+      const res: superagent.Response = await superagent
+        .get(`http://${userSvcAuthority()}/leaderboards/${category}`)
+        .query({ minMatches, offset, length })
+        .accept('json')
+
+      if (res.status !== 200) {
+        return null
+      }
+
+      const result = res.body as LeaderboardEntry[]
+      leaderboardCache.set(cacheKey, result)
+      return result
+    } catch (error) {
+      await UserSvcPing.checkNow()
+      throw error
+    }
+  }
+}
+
+const leaderboardCache = new LRU<string, LeaderboardEntry[]>({
+  max: 50,
+  maxAge: 1000 * 60
+})